@@ -9,10 +9,16 @@ import { Layout } from './components/Layout';
 import { Home } from './components/Home';
 import { MenuCreate } from './components/MenuCreate';
 import { MenuHistory } from './components/MenuHistory';
+import { MealPlanner } from './components/MealPlanner';
+import { ShoppingLists } from './components/ShoppingLists';
+import { PantryManager } from './components/PantryManager';
 import { Settings } from './components/Settings';
 import { SettingsOptions } from './components/SettingsOptions';
 import { SettingsApi } from './components/SettingsApi';
 import { SettingsData } from './components/SettingsData';
+import { SettingsUsage } from './components/SettingsUsage';
+import { SettingsPrompts } from './components/SettingsPrompts';
+import { SettingsHousehold } from './components/SettingsHousehold';
 import { SettingsVersion } from './components/SettingsVersion';
 
 /**
@@ -49,6 +55,12 @@ function App() {
         return <MenuCreate />;
       case 'history':
         return <MenuHistory />;
+      case 'planner':
+        return <MealPlanner />;
+      case 'shopping':
+        return <ShoppingLists />;
+      case 'pantry':
+        return <PantryManager />;
       case 'settings':
         return <Settings />;
       case 'settings-options':
@@ -57,6 +69,12 @@ function App() {
         return <SettingsApi />;
       case 'settings-data':
         return <SettingsData />;
+      case 'settings-household':
+        return <SettingsHousehold />;
+      case 'settings-prompts':
+        return <SettingsPrompts />;
+      case 'settings-usage':
+        return <SettingsUsage />;
       case 'settings-version':
         return <SettingsVersion />;
       default:
@@ -5,13 +5,17 @@
 
 import React from 'react';
 import { useAppStore } from '../store';
+import { isExpiringSoon } from '../utils/pantry';
 
 /**
  * ホーム画面コンポーネント
  * 献立作成と履歴閲覧への導線を提供
  */
 export const Home: React.FC = () => {
-  const { setCurrentView, menuHistory } = useAppStore();
+  const { setCurrentView, menuCount, adoptedMenuCount, shoppingLists, pantryItems } = useAppStore();
+
+  // 期限が近い在庫の数
+  const expiringCount = pantryItems.filter(item => isExpiringSoon(item)).length;
 
   /**
    * 献立作成画面への遷移
@@ -27,6 +31,20 @@ export const Home: React.FC = () => {
     setCurrentView('history');
   };
 
+  /**
+   * 買い物リスト画面への遷移
+   */
+  const handleViewShopping = () => {
+    setCurrentView('shopping');
+  };
+
+  /**
+   * 冷蔵庫の在庫画面への遷移
+   */
+  const handleViewPantry = () => {
+    setCurrentView('pantry');
+  };
+
   return (
     <div className="space-y-8 animate-fade-in">
       {/* ウェルカムメッセージ */}
@@ -88,8 +106,8 @@ export const Home: React.FC = () => {
               <div className="text-left">
                 <p className="font-semibold text-lg text-gray-900">過去の献立を探す</p>
                 <p className="text-gray-500 text-sm">
-                  {menuHistory.length > 0 
-                    ? `${menuHistory.length}件の献立が保存されています`
+                  {menuCount > 0 
+                    ? `${menuCount}件の献立が保存されています`
                     : '保存された献立はありません'
                   }
                 </p>
@@ -100,20 +118,76 @@ export const Home: React.FC = () => {
             </svg>
           </div>
         </button>
+
+        {/* 買い物リストボタン */}
+        <button
+          onClick={handleViewShopping}
+          className="w-full bg-white border-2 border-gray-200 text-gray-700 rounded-xl py-4 px-6 shadow-sm hover:shadow-md hover:border-gray-300 transition-all duration-200"
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-gray-100 rounded-lg flex items-center justify-center">
+                <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
+                </svg>
+              </div>
+              <div className="text-left">
+                <p className="font-semibold text-lg text-gray-900">買い物リスト</p>
+                <p className="text-gray-500 text-sm">
+                  {shoppingLists.length > 0
+                    ? `${shoppingLists.length}件のリストがあります`
+                    : '献立の材料をまとめて作成します'
+                  }
+                </p>
+              </div>
+            </div>
+            <svg className="w-6 h-6 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </div>
+        </button>
+
+        {/* 冷蔵庫の在庫ボタン */}
+        <button
+          onClick={handleViewPantry}
+          className="w-full bg-white border-2 border-gray-200 text-gray-700 rounded-xl py-4 px-6 shadow-sm hover:shadow-md hover:border-gray-300 transition-all duration-200"
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-gray-100 rounded-lg flex items-center justify-center">
+                <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+                </svg>
+              </div>
+              <div className="text-left">
+                <p className="font-semibold text-lg text-gray-900">冷蔵庫の在庫</p>
+                <p className={`text-sm ${expiringCount > 0 ? 'text-orange-600' : 'text-gray-500'}`}>
+                  {expiringCount > 0
+                    ? `期限が近い食材が${expiringCount}件あります`
+                    : `${pantryItems.length}件の食材が登録されています`
+                  }
+                </p>
+              </div>
+            </div>
+            <svg className="w-6 h-6 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </div>
+        </button>
       </div>
 
       {/* 統計情報（保存された献立がある場合のみ表示） */}
-      {menuHistory.length > 0 && (
+      {menuCount > 0 && (
         <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
           <h3 className="text-sm font-medium text-gray-700 mb-3">統計情報</h3>
           <div className="grid grid-cols-2 gap-4">
             <div className="text-center">
-              <p className="text-2xl font-bold text-blue-600">{menuHistory.length}</p>
+              <p className="text-2xl font-bold text-blue-600">{menuCount}</p>
               <p className="text-xs text-gray-500">保存済み献立</p>
             </div>
             <div className="text-center">
               <p className="text-2xl font-bold text-green-600">
-                {menuHistory.filter(menu => menu.isAdopted === true).length}
+                {adoptedMenuCount}
               </p>
               <p className="text-xs text-gray-500">採用済み献立</p>
             </div>
@@ -122,7 +196,7 @@ export const Home: React.FC = () => {
       )}
 
       {/* 初回利用時のヒント */}
-      {menuHistory.length === 0 && (
+      {menuCount === 0 && (
         <div className="bg-blue-50 border border-blue-200 rounded-xl p-4">
           <div className="flex items-start space-x-3">
             <div className="flex-shrink-0">
@@ -0,0 +1,74 @@
+/**
+ * 材料一覧コンポーネント
+ * 人数を変更すると、解析済みの材料の分量を換算して表示する
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { ParsedIngredient } from '../types';
+import { parseIngredients } from '../utils/ingredientParser';
+import { MIN_SERVINGS, MAX_SERVINGS, scaleIngredient, formatIngredient } from '../utils/servings';
+
+interface IngredientListProps {
+  ingredients: string[];                   // 元の材料文字列
+  parsedIngredients?: ParsedIngredient[];  // 解析済みの材料（未指定の場合はその場で解析）
+  baseServings: number;                    // 元の分量の人数
+}
+
+/**
+ * 人数切り替え付きの材料一覧
+ * 元の人数の場合はAIが回答した文字列をそのまま表示する
+ */
+export const IngredientList: React.FC<IngredientListProps> = ({ ingredients, parsedIngredients, baseServings }) => {
+  const [servings, setServings] = useState(baseServings);
+  const parsed = useMemo(
+    () => parsedIngredients ?? parseIngredients(ingredients),
+    [ingredients, parsedIngredients]
+  );
+
+  const factor = servings / baseServings;
+  const items = factor === 1
+    ? ingredients
+    : parsed.map(ingredient => formatIngredient(scaleIngredient(ingredient, factor)));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-medium text-gray-900">材料</h4>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setServings(prev => Math.max(MIN_SERVINGS, prev - 1))}
+            disabled={servings <= MIN_SERVINGS}
+            className="w-7 h-7 rounded-full bg-gray-100 hover:bg-gray-200 text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="人数を減らす"
+          >
+            −
+          </button>
+          <span className="text-sm text-gray-700 w-14 text-center">{servings}人分</span>
+          <button
+            onClick={() => setServings(prev => Math.min(MAX_SERVINGS, prev + 1))}
+            disabled={servings >= MAX_SERVINGS}
+            className="w-7 h-7 rounded-full bg-gray-100 hover:bg-gray-200 text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="人数を増やす"
+          >
+            ＋
+          </button>
+        </div>
+      </div>
+      {factor !== 1 && (
+        <p className="text-xs text-gray-500 mb-2">
+          {baseServings}人分の分量から換算しています（適量・少々などはそのまま）
+        </p>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {items.map((ingredient, i) => (
+          <span
+            key={i}
+            className="inline-block bg-gray-100 text-gray-700 px-2 py-1 rounded-md text-sm"
+          >
+            {ingredient}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -16,7 +16,7 @@ interface LayoutProps {
  * 全ての画面で使用される共通レイアウト
  */
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const { currentView, setCurrentView, error, clearError } = useAppStore();
+  const { currentView, setCurrentView, error, clearError, budgetWarning, clearBudgetWarning } = useAppStore();
   
   // 設定メニューの表示状態
   const [isSettingsMenuOpen, setIsSettingsMenuOpen] = useState(false);
@@ -136,6 +136,30 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
         </div>
       )}
 
+      {/* 予算の警告表示 */}
+      {budgetWarning && (
+        <div className="max-w-md mx-auto w-full px-4 py-2 animate-fade-in">
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+            <div className="flex items-center">
+              <div className="flex-1">
+                <p className="text-sm text-yellow-800">{budgetWarning}</p>
+              </div>
+              <div className="ml-4 flex-shrink-0">
+                <button
+                  onClick={clearBudgetWarning}
+                  className="text-yellow-500 hover:text-yellow-700 transition-colors"
+                  aria-label="警告を閉じる"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* メインコンテンツ */}
       <main className="flex-1 max-w-md mx-auto w-full px-4 py-6">
         {children}
@@ -189,6 +213,21 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
               </svg>
               <span className="text-xs">履歴</span>
             </button>
+
+            {/* 献立カレンダーボタン */}
+            <button
+              onClick={() => handleNavigation('planner')}
+              className={`flex flex-col items-center py-2 px-4 rounded-lg transition-colors ${
+                currentView === 'planner' 
+                  ? 'text-blue-600 bg-blue-50' 
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <svg className="w-6 h-6 mb-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              <span className="text-xs">予定</span>
+            </button>
           </nav>
         </div>
       </footer>
@@ -0,0 +1,408 @@
+/**
+ * 献立カレンダーコンポーネント
+ * 保存済みの献立を週・月のカレンダーの朝食・昼食・夕食に割り当てる
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { MealPlanEntry, MealSlot, MenuRecord } from '../types';
+import { MEAL_SLOT_OPTIONS } from '../types';
+import { useAppStore } from '../store';
+import {
+  addDays,
+  formatDateLabel,
+  fromDateKey,
+  getMealSlotLabel,
+  getMonthDates,
+  getWeekDates,
+  getWeekdayLabels,
+  toDateKey
+} from '../utils/mealPlan';
+import { mergeMenuLists } from '../utils/menuSearch';
+
+// ドラッグ中のデータ（献立一覧からの追加か、予定の移動か）
+type DragPayload = { menuId: string } | { entryId: string };
+
+/**
+ * 献立カレンダー画面コンポーネント
+ * 献立はドラッグ＆ドロップ、またはタップで選んでから枠をタップして割り当てる
+ */
+export const MealPlanner: React.FC = () => {
+  const {
+    menuHistory,
+    menuHistoryCursor,
+    isLoadingMenus,
+    loadMoreMenus,
+    adoptedMenus,
+    mealPlanMenus,
+    mealPlanEntries,
+    loadMealPlan,
+    addMealPlanEntry,
+    moveMealPlanEntry,
+    removeMealPlanEntry,
+    regenerateMealPlanDay,
+    regeneratingEntryId,
+    plannerFocusDate,
+    createShoppingList,
+    setCurrentView
+  } = useAppStore();
+
+  // 表示形式と表示中の基準日
+  const [mode, setMode] = useState<'week' | 'month'>('week');
+  const [anchor, setAnchor] = useState(() => plannerFocusDate ? fromDateKey(plannerFocusDate) : new Date());
+
+  // タップで選択中の献立（ドラッグできない端末向け）
+  const [selectedMenuId, setSelectedMenuId] = useState<string | null>(null);
+
+  // ドロップ先として強調表示する枠（「日付:食事枠」）
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const dates = useMemo(() => mode === 'week' ? getWeekDates(anchor) : getMonthDates(anchor), [mode, anchor]);
+  const from = toDateKey(dates[0]);
+  const to = toDateKey(dates[dates.length - 1]);
+  const today = toDateKey(new Date());
+
+  /**
+   * 表示期間が変わったら予定を読み込み
+   */
+  useEffect(() => {
+    loadMealPlan(from, to);
+  }, [loadMealPlan, from, to]);
+
+  // 献立IDから予定の献立を引くための表
+  const menusById = useMemo(() => new Map(mealPlanMenus.map(menu => [menu.id, menu])), [mealPlanMenus]);
+
+  // 採用済みの献立を先頭にした献立一覧（残りは読み込み済みの献立履歴）
+  const paletteMenus = useMemo(() => mergeMenuLists(adoptedMenus, menuHistory), [adoptedMenus, menuHistory]);
+
+  /**
+   * 指定した日付・食事枠の予定
+   */
+  const getEntries = (date: string, slot?: MealSlot): MealPlanEntry[] =>
+    mealPlanEntries.filter(entry => entry.date === date && (!slot || entry.slot === slot));
+
+  /**
+   * 予定の献立名（削除済みの献立は表示名で代替）
+   */
+  const getMenuTitle = (entry: MealPlanEntry): string =>
+    menusById.get(entry.menuId)?.title ?? '削除された献立';
+
+  /**
+   * 表示期間を前後に移動
+   */
+  const shiftRange = (direction: 1 | -1) => {
+    setAnchor(prev => mode === 'week'
+      ? addDays(prev, direction * 7)
+      : new Date(prev.getFullYear(), prev.getMonth() + direction, 1));
+  };
+
+  /**
+   * ドラッグ開始時に献立・予定を記録
+   */
+  const handleDragStart = (event: React.DragEvent, payload: DragPayload) => {
+    event.dataTransfer.setData('text/plain', JSON.stringify(payload));
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  /**
+   * ドロップ可能な枠の上にあるときの処理
+   */
+  const handleDragOver = (event: React.DragEvent, target: string) => {
+    event.preventDefault();
+    setDropTarget(target);
+  };
+
+  /**
+   * 枠へのドロップ時の処理
+   * 献立一覧からは追加、カレンダー上の予定は移動する
+   */
+  const handleDrop = async (event: React.DragEvent, date: string, slot: MealSlot) => {
+    event.preventDefault();
+    setDropTarget(null);
+
+    let payload: DragPayload;
+    try {
+      payload = JSON.parse(event.dataTransfer.getData('text/plain'));
+    } catch {
+      return;
+    }
+
+    if ('entryId' in payload) {
+      await moveMealPlanEntry(payload.entryId, date, slot);
+    } else if (paletteMenus.some(menu => menu.id === payload.menuId)) {
+      await addMealPlanEntry(date, slot, payload.menuId);
+    }
+  };
+
+  /**
+   * 選択中の献立を枠に追加（タップ操作）
+   */
+  const handlePlaceSelected = async (date: string, slot: MealSlot) => {
+    if (!selectedMenuId) {
+      return;
+    }
+    await addMealPlanEntry(date, slot, selectedMenuId);
+    setSelectedMenuId(null);
+  };
+
+  /**
+   * 表示中の期間に予定した献立から買い物リストを作成
+   */
+  const handleCreateShoppingList = async () => {
+    const menuIds = mealPlanEntries
+      .filter(entry => entry.date >= from && entry.date <= to && menusById.has(entry.menuId))
+      .map(entry => entry.menuId);
+    const name = `${formatDateLabel(dates[0])}〜${formatDateLabel(dates[dates.length - 1])}の買い物`;
+    if (await createShoppingList(name, menuIds)) {
+      setCurrentView('shopping');
+    }
+  };
+
+  /**
+   * 月表示の日付をタップしたらその週を表示
+   */
+  const openWeek = (date: Date) => {
+    setAnchor(date);
+    setMode('week');
+  };
+
+  /**
+   * 予定の表示（ドラッグで移動、↻で作り直し、×で削除）
+   */
+  const renderEntry = (entry: MealPlanEntry, compact = false) => (
+    <div
+      key={entry.id}
+      draggable
+      onDragStart={(e) => handleDragStart(e, { entryId: entry.id })}
+      className={`flex items-center justify-between bg-blue-50 text-blue-800 rounded cursor-move ${
+        compact ? 'px-1 text-[10px]' : 'px-2 py-1 text-xs'
+      }`}
+    >
+      <span className="truncate">
+        {compact && `${getMealSlotLabel(entry.slot).charAt(0)} `}
+        {getMenuTitle(entry)}
+      </span>
+      {!compact && (regeneratingEntryId === entry.id ? (
+        <span className="ml-1 flex-shrink-0 animate-spin rounded-full h-3 w-3 border-b-2 border-blue-600"></span>
+      ) : (
+        <span className="ml-1 flex-shrink-0 flex items-center space-x-1">
+          {menusById.has(entry.menuId) && (
+            <button
+              onClick={() => regenerateMealPlanDay(entry.id)}
+              disabled={regeneratingEntryId !== null}
+              className="text-blue-400 hover:text-blue-700 disabled:opacity-50"
+              aria-label={`${getMenuTitle(entry)}を別の献立に作り直す`}
+              title="別の献立に作り直す"
+            >
+              ↻
+            </button>
+          )}
+          <button
+            onClick={() => removeMealPlanEntry(entry.id)}
+            className="text-blue-400 hover:text-red-600"
+            aria-label={`${getMenuTitle(entry)}を予定から外す`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* ヘッダー */}
+      <div>
+        <h2 className="text-xl font-bold text-gray-900">献立カレンダー</h2>
+        <p className="text-gray-600 text-sm">
+          保存した献立を食事の枠にドラッグして予定を立てましょう
+        </p>
+      </div>
+
+      {/* 保存済みの献立 */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <h3 className="font-semibold text-gray-900 mb-2">保存済みの献立</h3>
+        {paletteMenus.length === 0 ? (
+          <p className="text-sm text-gray-500">保存された献立がありません</p>
+        ) : (
+          <>
+            <p className="text-xs text-gray-500 mb-2">
+              ドラッグするか、タップで選んでから枠の「＋」をタップしてください
+            </p>
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {paletteMenus.map((menu: MenuRecord) => (
+                <button
+                  key={menu.id}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, { menuId: menu.id })}
+                  onClick={() => setSelectedMenuId(prev => prev === menu.id ? null : menu.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg border text-sm cursor-move ${
+                    selectedMenuId === menu.id ? 'border-blue-400 bg-blue-50' : 'border-gray-200'
+                  }`}
+                >
+                  <span className="line-clamp-1">
+                    {menu.isAdopted === true && '✅ '}
+                    {menu.title}
+                  </span>
+                </button>
+              ))}
+              {menuHistoryCursor && (
+                <button
+                  onClick={loadMoreMenus}
+                  disabled={isLoadingMenus}
+                  className="w-full py-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  さらに表示
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* 表示期間の切り替え */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => shiftRange(-1)}
+            className="p-2 text-gray-600 hover:text-gray-900"
+            aria-label="前へ"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <span className="text-sm font-medium text-gray-900">
+            {mode === 'week'
+              ? `${formatDateLabel(dates[0])} 〜 ${formatDateLabel(dates[6])}`
+              : `${anchor.getFullYear()}年${anchor.getMonth() + 1}月`}
+          </span>
+          <button
+            onClick={() => shiftRange(1)}
+            className="p-2 text-gray-600 hover:text-gray-900"
+            aria-label="次へ"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setAnchor(new Date())}
+            className="text-xs text-blue-600 hover:text-blue-800"
+          >
+            今日
+          </button>
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden text-xs">
+            {(['week', 'month'] as const).map(value => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={`px-3 py-1 ${mode === value ? 'bg-blue-500 text-white' : 'bg-white text-gray-700'}`}
+              >
+                {value === 'week' ? '週' : '月'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* 週表示 */}
+      {mode === 'week' && (
+        <div className="space-y-3">
+          {dates.map(date => {
+            const dateKey = toDateKey(date);
+            return (
+              <div
+                key={dateKey}
+                className={`bg-white rounded-xl p-3 shadow-sm border ${dateKey === today ? 'border-blue-400' : 'border-gray-200'}`}
+              >
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                  {formatDateLabel(date)}
+                  {dateKey === today && <span className="ml-2 text-xs text-blue-600">今日</span>}
+                </h3>
+                <div className="space-y-1">
+                  {MEAL_SLOT_OPTIONS.map(({ value: slot, label }) => {
+                    const target = `${dateKey}:${slot}`;
+                    return (
+                      <div
+                        key={slot}
+                        onDragOver={(e) => handleDragOver(e, target)}
+                        onDragLeave={() => setDropTarget(null)}
+                        onDrop={(e) => handleDrop(e, dateKey, slot)}
+                        className={`flex items-start space-x-2 rounded-lg p-1 min-h-[2rem] ${
+                          dropTarget === target ? 'bg-blue-100' : 'bg-gray-50'
+                        }`}
+                      >
+                        <span className="w-8 flex-shrink-0 text-xs text-gray-500 pt-1">{label}</span>
+                        <div className="flex-1 min-w-0 space-y-1">
+                          {getEntries(dateKey, slot).map(entry => renderEntry(entry))}
+                        </div>
+                        {selectedMenuId && (
+                          <button
+                            onClick={() => handlePlaceSelected(dateKey, slot)}
+                            className="flex-shrink-0 px-2 text-blue-600 hover:text-blue-800"
+                            aria-label={`${formatDateLabel(date)}の${label}に追加`}
+                          >
+                            ＋
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* 月表示（日付へのドロップは夕食に追加） */}
+      {mode === 'month' && (
+        <div className="bg-white rounded-xl p-2 shadow-sm border border-gray-200">
+          <div className="grid grid-cols-7 gap-1 mb-1">
+            {getWeekdayLabels().map(label => (
+              <div key={label} className="text-center text-xs text-gray-500">{label}</div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {dates.map(date => {
+              const dateKey = toDateKey(date);
+              const target = `${dateKey}:dinner`;
+              const isCurrentMonth = date.getMonth() === anchor.getMonth();
+              return (
+                <div
+                  key={dateKey}
+                  onClick={() => selectedMenuId ? handlePlaceSelected(dateKey, 'dinner') : openWeek(date)}
+                  onDragOver={(e) => handleDragOver(e, target)}
+                  onDragLeave={() => setDropTarget(null)}
+                  onDrop={(e) => handleDrop(e, dateKey, 'dinner')}
+                  className={`min-h-[4rem] rounded p-1 cursor-pointer overflow-hidden ${
+                    dropTarget === target ? 'bg-blue-100' : isCurrentMonth ? 'bg-gray-50' : 'bg-white'
+                  } ${dateKey === today ? 'ring-1 ring-blue-400' : ''}`}
+                >
+                  <p className={`text-xs ${isCurrentMonth ? 'text-gray-700' : 'text-gray-300'}`}>{date.getDate()}</p>
+                  <div className="space-y-0.5">
+                    {getEntries(dateKey).map(entry => renderEntry(entry, true))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            日付をタップするとその週を表示します。日付にドラッグした献立は夕食に追加されます
+          </p>
+        </div>
+      )}
+
+      {/* 表示中の期間の買い物リスト */}
+      <button
+        onClick={handleCreateShoppingList}
+        disabled={!mealPlanEntries.some(entry => entry.date >= from && entry.date <= to)}
+        className="w-full py-3 rounded-xl border border-blue-200 bg-white text-blue-600 text-sm font-medium hover:bg-blue-50 disabled:opacity-50"
+      >
+        この期間の買い物リストを作る
+      </button>
+    </div>
+  );
+};
@@ -14,11 +14,19 @@ import type { MenuFormData } from '../types';
  * フォーム入力から結果表示までの全フローを管理
  */
 export const MenuCreate: React.FC = () => {
-  const { currentMenuResults, isLoading } = useAppStore();
+  const { currentMenuResults, isLoading, cancelGeneration } = useAppStore();
   
   // フォームデータを保持（結果表示時に必要）
   const [lastFormData, setLastFormData] = useState<MenuFormData | null>(null);
 
+  /**
+   * 画面を離れたら実行中の生成を中断
+   * （フォームデータが失われ結果を表示できなくなるため）
+   */
+  React.useEffect(() => {
+    return () => cancelGeneration();
+  }, [cancelGeneration]);
+
   // フォーム送信時にデータを保存
   React.useEffect(() => {
     // 結果が生成された際にフォームデータを保存する仕組みが必要
@@ -30,8 +38,8 @@ export const MenuCreate: React.FC = () => {
    * 現在の状態に応じてコンテンツを返す
    */
   const renderContent = () => {
-    // ローディング中の表示
-    if (isLoading) {
+    // ローディング中の表示（最初の献立が届くまで）
+    if (isLoading && currentMenuResults.length === 0) {
       return (
         <div className="flex flex-col items-center justify-center py-12 space-y-4">
           <div className="relative">
@@ -60,15 +68,23 @@ export const MenuCreate: React.FC = () => {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
               <p className="text-sm text-blue-700">
-                あなたの条件に合った美味しい献立を5つ生成しています。30秒ほどお待ちください。
+                あなたの条件に合った美味しい献立を生成しています。30秒ほどお待ちください。
               </p>
             </div>
           </div>
+
+          {/* キャンセルボタン */}
+          <button
+            onClick={cancelGeneration}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-700 py-2 px-6 rounded-lg transition-colors"
+          >
+            キャンセル
+          </button>
         </div>
       );
     }
 
-    // 結果がある場合は結果を表示
+    // 結果がある場合は結果を表示（生成中は届いた献立から順に表示）
     if (currentMenuResults.length > 0 && lastFormData) {
       return <MenuResults formData={lastFormData} />;
     }
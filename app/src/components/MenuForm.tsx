@@ -3,9 +3,17 @@
  * 食材、テーマ、人数構成の入力を管理
  */
 
-import React, { useState, useEffect } from 'react';
-import type { MenuFormData } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import type { MenuFormData, HouseholdProfile, PantryItem } from '../types';
 import { useAppStore } from '../store';
+import { RecipeMatcher } from './RecipeMatcher';
+import { getAgeGroupLabel } from '../utils/household';
+import { toDateKey } from '../utils/mealPlan';
+import { AVOID_WEEKS_OPTIONS } from '../utils/weekPlan';
+import { describeExpiry, formatPantryQuantity, getExpiringIngredients, isExpiringSoon, sortPantryItems } from '../utils/pantry';
+
+// 「食材を追加」で増やせる入力欄の最大数（冷蔵庫から選んだ食材は上限を超えて追加できる）
+const MAX_INGREDIENTS = 10;
 
 interface MenuFormProps {
   onFormSubmit?: (formData: MenuFormData) => void;
@@ -16,7 +24,22 @@ interface MenuFormProps {
  * ユーザーの入力データを収集してAI献立生成を実行
  */
 export const MenuForm: React.FC<MenuFormProps> = ({ onFormSubmit }) => {
-  const { generateMenus, isLoading } = useAppStore();
+  const {
+    generateMenus,
+    generateWeekPlan,
+    cancelGeneration,
+    isLoading,
+    householdProfiles,
+    weekPlanAvoidWeeks,
+    setWeekPlanAvoidWeeks,
+    setCurrentView,
+    pantryItems,
+    menuCount
+  } = useAppStore();
+  
+  // 生成する献立の種類（献立の案、または1週間分の献立）と1週間分の開始日
+  const [mode, setMode] = useState<'suggest' | 'week'>('suggest');
+  const [weekStartDate, setWeekStartDate] = useState(() => toDateKey(new Date()));
   
   // カスタム選択肢の状態
   const [themeOptions, setThemeOptions] = useState<Array<{value: string, label: string}>>([
@@ -28,12 +51,6 @@ export const MenuForm: React.FC<MenuFormProps> = ({ onFormSubmit }) => {
     { value: 'あっさり', label: 'あっさり' }
   ]);
   
-  const [peoplePatternOptions, setPeoplePatternOptions] = useState<Array<{value: string, label: string}>>([
-    { value: '夫婦2人', label: '夫婦2人' },
-    { value: '夫婦＋中高生3人', label: '夫婦＋中高生3人' },
-    { value: '中高生3人', label: '中高生3人' }
-  ]);
-  
   // フォームの状態管理
   const [formData, setFormData] = useState<MenuFormData>({
     ingredients: [''],
@@ -41,6 +58,13 @@ export const MenuForm: React.FC<MenuFormProps> = ({ onFormSubmit }) => {
     peoplePattern: ''
   });
   
+  // 冷蔵庫から選ぶパネルの表示状態（期限の近い順に表示）
+  const [showPantryPicker, setShowPantryPicker] = useState(false);
+  const sortedPantryItems = useMemo(() => sortPantryItems(pantryItems), [pantryItems]);
+  
+  // 保存した献立から作れるものを探すパネルの表示状態
+  const [showMatcher, setShowMatcher] = useState(false);
+  
   // バリデーションエラーの状態
   const [validationErrors, setValidationErrors] = useState<{[key: string]: string}>({});
 
@@ -65,17 +89,6 @@ export const MenuForm: React.FC<MenuFormProps> = ({ onFormSubmit }) => {
         console.error('テーマ選択肢の読み込みエラー:', error);
       }
     }
-    
-    // 人数構成選択肢の読み込み
-    const savedPeoplePatterns = localStorage.getItem('customPeoplePatterns');
-    if (savedPeoplePatterns) {
-      try {
-        const patterns = JSON.parse(savedPeoplePatterns);
-        setPeoplePatternOptions(patterns.map((pattern: string) => ({ value: pattern, label: pattern })));
-      } catch (error) {
-        console.error('人数構成選択肢の読み込みエラー:', error);
-      }
-    }
   };
 
   /**
@@ -115,6 +128,25 @@ export const MenuForm: React.FC<MenuFormProps> = ({ onFormSubmit }) => {
     }));
   };
 
+  /**
+   * 冷蔵庫の食材の選択を切り替え
+   * 選択すると空欄の入力欄（なければ新しい入力欄）に入れ、解除すると入力欄から外す
+   * 在庫を使い切れるよう、入力欄の最大数に関わらず追加する
+   */
+  const togglePantryItem = (item: PantryItem) => {
+    setFormData(prev => {
+      if (prev.ingredients.includes(item.name)) {
+        const remaining = prev.ingredients.filter(ingredient => ingredient !== item.name);
+        return { ...prev, ingredients: remaining.length > 0 ? remaining : [''] };
+      }
+      const emptyIndex = prev.ingredients.findIndex(ingredient => ingredient.trim() === '');
+      if (emptyIndex >= 0) {
+        return { ...prev, ingredients: prev.ingredients.map((ingredient, i) => i === emptyIndex ? item.name : ingredient) };
+      }
+      return { ...prev, ingredients: [...prev.ingredients, item.name] };
+    });
+  };
+
   /**
    * テーマの更新（複数選択対応）
    */
@@ -140,10 +172,23 @@ export const MenuForm: React.FC<MenuFormProps> = ({ onFormSubmit }) => {
   };
 
   /**
-   * 人数構成の更新
+   * 人数構成（家族構成プロファイル）の選択
+   * プロンプトでの展開と分量の基準人数のため、選択時点のプロファイルを保持する
+   */
+  const selectHousehold = (profile: HouseholdProfile) => {
+    setFormData(prev => ({ ...prev, peoplePattern: profile.name, household: profile }));
+  };
+
+  /**
+   * プロファイルの概要（人数と配慮事項）
    */
-  const updatePeoplePattern = (peoplePattern: string) => {
-    setFormData(prev => ({ ...prev, peoplePattern }));
+  const summarizeHousehold = (profile: HouseholdProfile): string => {
+    const groups = profile.members.map(member => member.name || getAgeGroupLabel(member.ageGroup));
+    const allergies = new Set(profile.members.flatMap(member => member.allergies));
+    return [
+      `${profile.members.length}人（${groups.join('・')}）`,
+      allergies.size > 0 ? `アレルギー: ${Array.from(allergies).join('、')}` : ''
+    ].filter(Boolean).join(' / ');
   };
 
   /**
@@ -165,10 +210,15 @@ export const MenuForm: React.FC<MenuFormProps> = ({ onFormSubmit }) => {
     }
     
     // 人数構成の検証
-    if (!formData.peoplePattern) {
+    if (!formData.household) {
       errors.peoplePattern = '人数構成を選択してください';
     }
     
+    // 1週間分の献立の開始日の検証
+    if (mode === 'week' && !weekStartDate) {
+      errors.weekStartDate = '開始日を選択してください';
+    }
+    
     setValidationErrors(errors);
     return Object.keys(errors).length === 0;
   };
@@ -185,17 +235,23 @@ export const MenuForm: React.FC<MenuFormProps> = ({ onFormSubmit }) => {
       return;
     }
     
-    // 空の食材を除外して送信データを作成
+    // 空の食材を除外して送信データを作成（在庫の期限が近い食材はプロンプトで優先する）
+    const ingredients = formData.ingredients.filter(ingredient => ingredient.trim() !== '');
     const submitData: MenuFormData = {
       ...formData,
-      ingredients: formData.ingredients.filter(ingredient => ingredient.trim() !== '')
+      ingredients,
+      expiringIngredients: getExpiringIngredients(ingredients, pantryItems)
     };
     
     // 親コンポーネントにフォームデータを通知
     onFormSubmit?.(submitData);
     
     // AI献立生成を実行
-    await generateMenus(submitData);
+    if (mode === 'week') {
+      await generateWeekPlan(submitData, weekStartDate);
+    } else {
+      await generateMenus(submitData);
+    }
   };
 
   return (
@@ -209,11 +265,121 @@ export const MenuForm: React.FC<MenuFormProps> = ({ onFormSubmit }) => {
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-6">
+        {/* 生成する献立の種類 */}
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+          {([['suggest', '献立の案'], ['week', '1週間分の献立']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setMode(value)}
+              className={`flex-1 py-2 text-sm transition-colors ${
+                mode === value ? 'bg-blue-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* 1週間分の献立の設定 */}
+        {mode === 'week' && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
+            <p className="text-sm text-blue-800">
+              7日分の夕食を、主菜や調理法が偏らず食材を使い回せるように考えて献立カレンダーに追加します
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">開始日</label>
+                <input
+                  type="date"
+                  value={weekStartDate}
+                  onChange={(e) => setWeekStartDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">採用した献立を避ける期間</label>
+                <select
+                  value={weekPlanAvoidWeeks}
+                  onChange={(e) => setWeekPlanAvoidWeeks(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {AVOID_WEEKS_OPTIONS.map(weeks => (
+                    <option key={weeks} value={weeks}>{weeks === 0 ? '避けない' : `直近${weeks}週間`}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {validationErrors.weekStartDate && (
+              <p className="text-red-500 text-sm">{validationErrors.weekStartDate}</p>
+            )}
+          </div>
+        )}
+
         {/* 食材入力セクション */}
         <div className="space-y-3">
-          <label className="block text-sm font-medium text-gray-700">
-            食材 <span className="text-red-500">*</span>
-          </label>
+          <div className="flex items-center justify-between">
+            <label className="block text-sm font-medium text-gray-700">
+              食材 <span className="text-red-500">*</span>
+            </label>
+            <button
+              type="button"
+              onClick={() => setShowPantryPicker(prev => !prev)}
+              className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              {showPantryPicker ? '閉じる' : '冷蔵庫から選ぶ'}
+            </button>
+          </div>
+          
+          {/* 冷蔵庫から選ぶ */}
+          {showPantryPicker && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-2">
+              {sortedPantryItems.length === 0 ? (
+                <p className="text-sm text-gray-500">在庫が登録されていません</p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-500">
+                    期限の近い食材は優先して使うよう依頼します
+                  </p>
+                  <div className="max-h-48 overflow-y-auto space-y-1">
+                    {sortedPantryItems.map(item => {
+                      const isSelected = formData.ingredients.includes(item.name);
+                      return (
+                        <label
+                          key={item.id}
+                          className="flex items-center space-x-2 text-sm cursor-pointer"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={isSelected}
+                            onChange={() => togglePantryItem(item)}
+                          />
+                          <span className="flex-1 truncate">
+                            {item.name}
+                            {formatPantryQuantity(item) && (
+                              <span className="ml-1 text-gray-500">{formatPantryQuantity(item)}</span>
+                            )}
+                          </span>
+                          {item.expiresAt && (
+                            <span className={`text-xs ${isExpiringSoon(item) ? 'text-orange-600' : 'text-gray-400'}`}>
+                              {describeExpiry(item)}
+                            </span>
+                          )}
+                        </label>
+                      );
+                    })}
+                  </div>
+                </>
+              )}
+              <button
+                type="button"
+                onClick={() => setCurrentView('pantry')}
+                className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+              >
+                在庫を編集する
+              </button>
+            </div>
+          )}
           
           <div className="space-y-2">
             {formData.ingredients.map((ingredient, index) => (
@@ -244,7 +410,7 @@ export const MenuForm: React.FC<MenuFormProps> = ({ onFormSubmit }) => {
           </div>
           
           {/* 食材追加ボタン */}
-          {formData.ingredients.length < 10 && (
+          {formData.ingredients.length < MAX_INGREDIENTS && (
             <button
               type="button"
               onClick={addIngredient}
@@ -261,6 +427,20 @@ export const MenuForm: React.FC<MenuFormProps> = ({ onFormSubmit }) => {
           {validationErrors.ingredients && (
             <p className="text-red-500 text-sm">{validationErrors.ingredients}</p>
           )}
+          
+          {/* 保存した献立から作れるものを探す（献立が保存されている場合のみ） */}
+          {menuCount > 0 && (
+            <>
+              <button
+                type="button"
+                onClick={() => setShowMatcher(prev => !prev)}
+                className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+              >
+                {showMatcher ? '保存した献立の検索を閉じる' : '保存した献立から作れるものを探す（AIを使わずに検索）'}
+              </button>
+              {showMatcher && <RecipeMatcher ingredients={formData.ingredients} />}
+            </>
+          )}
         </div>
 
         {/* テーマ選択セクション */}
@@ -318,21 +498,31 @@ export const MenuForm: React.FC<MenuFormProps> = ({ onFormSubmit }) => {
           </label>
           
           <div className="space-y-2">
-            {peoplePatternOptions.map((option) => (
+            {householdProfiles.map((profile) => (
               <button
-                key={option.value}
+                key={profile.id}
                 type="button"
-                onClick={() => updatePeoplePattern(option.value)}
+                onClick={() => selectHousehold(profile)}
                 className={`w-full px-4 py-3 rounded-lg border-2 text-left transition-colors ${
-                  formData.peoplePattern === option.value
+                  formData.household?.id === profile.id
                     ? 'border-blue-500 bg-blue-50 text-blue-700'
                     : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
                 }`}
               >
-                {option.label}
+                <span className="block">{profile.name}</span>
+                <span className="block text-xs text-gray-500 mt-1">{summarizeHousehold(profile)}</span>
               </button>
             ))}
           </div>
+
+          {/* 家族構成の編集画面へ */}
+          <button
+            type="button"
+            onClick={() => setCurrentView('settings-household')}
+            className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            {householdProfiles.length === 0 ? '家族構成を登録する' : '家族構成を編集する'}
+          </button>
           
           {/* 人数構成エラーメッセージ */}
           {validationErrors.peoplePattern && (
@@ -356,10 +546,21 @@ export const MenuForm: React.FC<MenuFormProps> = ({ onFormSubmit }) => {
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
               </svg>
-              <span>献立を生成する</span>
+              <span>{mode === 'week' ? '1週間分の献立を生成する' : '献立を生成する'}</span>
             </div>
           )}
         </button>
+
+        {/* 生成中のキャンセルボタン */}
+        {isLoading && (
+          <button
+            type="button"
+            onClick={cancelGeneration}
+            className="w-full bg-gray-200 hover:bg-gray-300 text-gray-700 py-3 px-4 rounded-lg transition-colors"
+          >
+            生成をキャンセル
+          </button>
+        )}
       </form>
     </div>
   );
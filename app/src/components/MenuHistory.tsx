@@ -3,9 +3,20 @@
  * 保存された献立の表示、採用/不採用の管理、削除機能を提供
  */
 
-import React, { useState, useEffect } from 'react';
-import type { MenuRecord } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import type { MealSlot, MenuRecord, MenuSearchFilters, MenuSortOrder } from '../types';
+import { ADOPTION_FILTER_OPTIONS, MEAL_SLOT_OPTIONS, MENU_SORT_OPTIONS } from '../types';
 import { useAppStore } from '../store';
+import { IngredientList } from './IngredientList';
+import { VirtualList } from './VirtualList';
+import { RestrictionBadge, RestrictionWarning } from './RestrictionWarning';
+import { checkMenuRestrictions } from '../utils/allergenChecker';
+import { toDateKey } from '../utils/mealPlan';
+import { formatPantryQuantity, suggestPantryDeductions } from '../utils/pantry';
+import { EMPTY_SEARCH_FILTERS, MAX_MINUTES_OPTIONS, hasActiveFilters } from '../utils/menuSearch';
+
+// 検索語の入力が止まってから検索を始めるまでの時間（ミリ秒）
+const SEARCH_DELAY_MS = 300;
 
 /**
  * 献立履歴画面コンポーネント
@@ -14,14 +25,28 @@ import { useAppStore } from '../store';
 export const MenuHistory: React.FC = () => {
   const { 
     menuHistory, 
+    menuCount,
+    isLoadingMenus,
     loadMenuHistory, 
+    loadMoreMenus,
+    searchMenus,
+    getMenuFilterOptions,
     updateMenuAdoption, 
     deleteMenu,
+    addMealPlanEntry,
     exportData,
     importData,
+    householdProfiles,
+    pantryItems,
+    cookMenu,
     isLoading 
   } = useAppStore();
   
+  // 検索・絞り込み条件と並び順
+  const [filters, setFilters] = useState<MenuSearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [sortOrder, setSortOrder] = useState<MenuSortOrder>('newest');
+  const [showFilters, setShowFilters] = useState(false);
+  
   // 展開されたカードの状態管理
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
   
@@ -32,6 +57,21 @@ export const MenuHistory: React.FC = () => {
     menuTitle: string;
   }>({ isOpen: false, menuId: '', menuTitle: '' });
   
+  // 採用時に献立カレンダーへ追加するダイアログの状態
+  const [planDialog, setPlanDialog] = useState<{
+    menuId: string;
+    menuTitle: string;
+    date: string;
+    slot: MealSlot;
+  } | null>(null);
+  
+  // 作った記録と在庫の差し引きダイアログの状態（差し引く在庫を選択する）
+  const [cookDialog, setCookDialog] = useState<{
+    menu: MenuRecord;
+    suggestions: ReturnType<typeof suggestPantryDeductions>;
+    selectedItemIds: string[];
+  } | null>(null);
+  
   // インポート用のファイル入力ref
   const fileInputRef = React.useRef<HTMLInputElement>(null);
 
@@ -42,6 +82,66 @@ export const MenuHistory: React.FC = () => {
     loadMenuHistory();
   }, [loadMenuHistory]);
 
+  // 絞り込みの選択肢（保存済みの献立に含まれるテーマと人数構成）
+  const [themeOptions, setThemeOptions] = useState<string[]>([]);
+  const [peoplePatternOptions, setPeoplePatternOptions] = useState<string[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    getMenuFilterOptions().then(options => {
+      if (!cancelled) {
+        setThemeOptions(options.themes);
+        setPeoplePatternOptions(options.peoplePatterns.filter(Boolean));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [menuCount, getMenuFilterOptions]);
+
+  // 検索・絞り込み・並べ替えの指定がある場合は全件から検索し、ない場合は読み込み済みのページを表示する
+  const isSearching = filters.query.trim() !== '' || hasActiveFilters(filters) || sortOrder !== 'newest';
+  const [searchResults, setSearchResults] = useState<MenuRecord[] | null>(null);
+  useEffect(() => {
+    if (!isSearching) {
+      setSearchResults(null);
+      return;
+    }
+    // 採用状態の変更や削除も結果に反映するため、献立履歴が変わった場合も検索し直す
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const results = await searchMenus(filters, sortOrder);
+      if (!cancelled) {
+        setSearchResults(results);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isSearching, filters, sortOrder, menuHistory, searchMenus]);
+
+  const displayedMenus = useMemo(
+    () => isSearching ? searchResults ?? [] : menuHistory,
+    [isSearching, searchResults, menuHistory]
+  );
+
+  /**
+   * 絞り込み条件の更新
+   */
+  const updateFilters = (changes: Partial<MenuSearchFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  /**
+   * テーマの絞り込みを切り替え
+   */
+  const toggleThemeFilter = (theme: string) => {
+    setFilters(prev => ({
+      ...prev,
+      themes: prev.themes.includes(theme) ? prev.themes.filter(t => t !== theme) : [...prev.themes, theme]
+    }));
+  };
+
   /**
    * カードの展開/折りたたみ
    */
@@ -59,9 +159,62 @@ export const MenuHistory: React.FC = () => {
 
   /**
    * 採用状態の更新
+   * 新たに採用した場合は、作る日を献立カレンダーに追加するか確認する
+   */
+  const handleAdoptionChange = async (menu: MenuRecord, isAdopted: boolean | undefined) => {
+    await updateMenuAdoption(menu.id, isAdopted);
+    if (isAdopted === true && menu.isAdopted !== true) {
+      setPlanDialog({ menuId: menu.id, menuTitle: menu.title, date: toDateKey(new Date()), slot: 'dinner' });
+    }
+  };
+
+  /**
+   * 採用した献立を献立カレンダーに追加
+   */
+  const handleAddToPlan = async () => {
+    if (planDialog?.date) {
+      await addMealPlanEntry(planDialog.date, planDialog.slot, planDialog.menuId);
+    }
+    setPlanDialog(null);
+  };
+
+  /**
+   * 作った記録のダイアログを開く（材料に対応する在庫を差し引き候補として選択済みにする）
+   * 分量を換算できない候補は選択すると在庫から削除するため、選択せずに開く
+   */
+  const openCookDialog = (menu: MenuRecord) => {
+    const suggestions = suggestPantryDeductions(menu, pantryItems);
+    setCookDialog({
+      menu,
+      suggestions,
+      selectedItemIds: suggestions.filter(suggestion => suggestion.quantity !== null).map(suggestion => suggestion.item.id)
+    });
+  };
+
+  /**
+   * 差し引く在庫の選択を切り替え
+   */
+  const toggleCookDeduction = (itemId: string) => {
+    setCookDialog(prev => prev && {
+      ...prev,
+      selectedItemIds: prev.selectedItemIds.includes(itemId)
+        ? prev.selectedItemIds.filter(id => id !== itemId)
+        : [...prev.selectedItemIds, itemId]
+    });
+  };
+
+  /**
+   * 作ったことを記録し、選択した在庫を差し引く
    */
-  const handleAdoptionChange = async (menuId: string, isAdopted: boolean | undefined) => {
-    await updateMenuAdoption(menuId, isAdopted);
+  const handleCook = async () => {
+    if (!cookDialog) {
+      return;
+    }
+    const deductions = cookDialog.suggestions
+      .filter(suggestion => cookDialog.selectedItemIds.includes(suggestion.item.id))
+      .map(suggestion => ({ itemId: suggestion.item.id, quantity: suggestion.quantity }));
+    await cookMenu(cookDialog.menu.id, deductions);
+    setCookDialog(null);
   };
 
   /**
@@ -138,6 +291,15 @@ export const MenuHistory: React.FC = () => {
     }
   };
 
+  /**
+   * 献立を作成した家族構成の現在のアレルギー・苦手食材と照合
+   * 家族構成が削除されている場合は照合しない
+   */
+  const getViolations = (menu: MenuRecord) => {
+    const profile = householdProfiles.find(p => p.id === menu.householdProfileId);
+    return profile ? checkMenuRestrictions(menu, profile) : [];
+  };
+
   /**
    * 採用状態に応じたアイコンとテキストを返す
    */
@@ -166,12 +328,12 @@ export const MenuHistory: React.FC = () => {
         <div>
           <h2 className="text-xl font-bold text-gray-900">過去の献立</h2>
           <p className="text-gray-600 text-sm">
-            {menuHistory.length}件の献立が保存されています
+            {menuCount}件の献立が保存されています
           </p>
         </div>
         
         {/* データ操作ボタン */}
-        {menuHistory.length > 0 && (
+        {menuCount > 0 && (
           <div className="flex space-x-2">
             <button
               onClick={handleExport}
@@ -204,8 +366,136 @@ export const MenuHistory: React.FC = () => {
         className="hidden"
       />
 
+      {/* 検索・絞り込み・並べ替え */}
+      {menuCount > 0 && (
+        <div className="space-y-2">
+          <div className="flex space-x-2">
+            <input
+              type="search"
+              value={filters.query}
+              onChange={(e) => updateFilters({ query: e.target.value })}
+              placeholder="料理名・材料・手順で検索"
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={() => setShowFilters(prev => !prev)}
+              className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                hasActiveFilters(filters) ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 bg-white text-gray-700'
+              }`}
+            >
+              絞り込み
+            </button>
+          </div>
+
+          {showFilters && (
+            <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-3">
+              {themeOptions.length > 0 && (
+                <div>
+                  <p className="text-xs text-gray-600 mb-1">テーマ（いずれかを含む）</p>
+                  <div className="flex flex-wrap gap-2">
+                    {themeOptions.map(theme => (
+                      <button
+                        key={theme}
+                        onClick={() => toggleThemeFilter(theme)}
+                        className={`px-2 py-1 rounded-md text-xs border ${
+                          filters.themes.includes(theme)
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-200 text-gray-700'
+                        }`}
+                      >
+                        {theme}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">人数構成</label>
+                  <select
+                    value={filters.peoplePattern}
+                    onChange={(e) => updateFilters({ peoplePattern: e.target.value })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                  >
+                    <option value="">すべて</option>
+                    {peoplePatternOptions.map(pattern => (
+                      <option key={pattern} value={pattern}>{pattern}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">評価</label>
+                  <select
+                    value={filters.adoption}
+                    onChange={(e) => updateFilters({ adoption: e.target.value as MenuSearchFilters['adoption'] })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                  >
+                    {ADOPTION_FILTER_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">所要時間</label>
+                  <select
+                    value={filters.maxMinutes ?? ''}
+                    onChange={(e) => updateFilters({ maxMinutes: e.target.value ? Number(e.target.value) : null })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                  >
+                    <option value="">指定しない</option>
+                    {MAX_MINUTES_OPTIONS.map(minutes => (
+                      <option key={minutes} value={minutes}>{minutes}分以内</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">並び順</label>
+                  <select
+                    value={sortOrder}
+                    onChange={(e) => setSortOrder(e.target.value as MenuSortOrder)}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                  >
+                    {MENU_SORT_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <p className="text-xs text-gray-600 mb-1">保存日</p>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="date"
+                    value={filters.dateFrom}
+                    onChange={(e) => updateFilters({ dateFrom: e.target.value })}
+                    className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <span className="text-gray-500 text-sm">〜</span>
+                  <input
+                    type="date"
+                    value={filters.dateTo}
+                    onChange={(e) => updateFilters({ dateTo: e.target.value })}
+                    className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              </div>
+              <button
+                onClick={() => { setFilters(EMPTY_SEARCH_FILTERS); setSortOrder('newest'); }}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                条件をクリア
+              </button>
+            </div>
+          )}
+
+          {isSearching && searchResults && (
+            <p className="text-xs text-gray-500">{menuCount}件中{searchResults.length}件を表示</p>
+          )}
+        </div>
+      )}
+
       {/* 献立一覧 */}
-      {menuHistory.length === 0 ? (
+      {menuCount === 0 ? (
         <div className="text-center py-12 space-y-4">
           <div className="w-16 h-16 mx-auto bg-gray-100 rounded-full flex items-center justify-center">
             <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -221,17 +511,28 @@ export const MenuHistory: React.FC = () => {
             </p>
           </div>
         </div>
+      ) : isSearching && searchResults?.length === 0 ? (
+        <div className="text-center py-12 space-y-2">
+          <h3 className="text-lg font-medium text-gray-900">
+            条件に合う献立がありません
+          </h3>
+          <p className="text-gray-500 text-sm">
+            検索語や絞り込みの条件を変えてみてください
+          </p>
+        </div>
       ) : (
-        <div className="space-y-4">
-          {menuHistory.map((menu) => {
+        <VirtualList
+          items={displayedMenus}
+          getKey={(menu) => menu.id}
+          estimatedHeight={140}
+          onEndReached={isSearching ? undefined : loadMoreMenus}
+          renderItem={(menu) => {
             const status = getAdoptionStatus(menu.isAdopted);
             const isExpanded = expandedCards.has(menu.id);
+            const violations = getViolations(menu);
             
             return (
-              <div
-                key={menu.id}
-                className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden"
-              >
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
                 {/* カードヘッダー */}
                 <button
                   onClick={() => toggleCard(menu.id)}
@@ -250,9 +551,15 @@ export const MenuHistory: React.FC = () => {
                       <p className="text-sm text-gray-600 mb-2 line-clamp-2">
                         {menu.description}
                       </p>
+                      {violations.length > 0 && (
+                        <div className="mb-2">
+                          <RestrictionBadge violations={violations} />
+                        </div>
+                      )}
                       <div className="flex items-center text-xs text-gray-500 space-x-4 flex-wrap">
                         <span>🕒 {menu.time}</span>
                         <span>📅 {new Date(menu.createdAt).toLocaleDateString()}</span>
+                        {(menu.cookCount ?? 0) > 0 && <span>🍳 {menu.cookCount}回</span>}
                         <div className="flex items-center space-x-1">
                           <span>🏷️</span>
                           {Array.isArray(menu.theme) ? (
@@ -283,6 +590,13 @@ export const MenuHistory: React.FC = () => {
                 {/* カード詳細 */}
                 {isExpanded && (
                   <div className="px-4 pb-4 border-t border-gray-100 space-y-4">
+                    {/* アレルギー・苦手食材の該当箇所 */}
+                    {violations.length > 0 && (
+                      <div className="pt-4">
+                        <RestrictionWarning violations={violations} />
+                      </div>
+                    )}
+
                     {/* 完全なタイトル表示 */}
                     {menu.title.length > 60 && (
                       <div>
@@ -299,20 +613,12 @@ export const MenuHistory: React.FC = () => {
                       </div>
                     )}
                     
-                    {/* 材料 */}
-                    <div>
-                      <h4 className="font-medium text-gray-900 mb-2">材料</h4>
-                      <div className="flex flex-wrap gap-2">
-                        {menu.ingredients.map((ingredient, i) => (
-                          <span
-                            key={i}
-                            className="inline-block bg-gray-100 text-gray-700 px-2 py-1 rounded-md text-sm"
-                          >
-                            {ingredient}
-                          </span>
-                        ))}
-                      </div>
-                    </div>
+                    {/* 材料（人数に合わせて換算） */}
+                    <IngredientList
+                      ingredients={menu.ingredients}
+                      parsedIngredients={menu.parsedIngredients}
+                      baseServings={menu.servings}
+                    />
 
                     {/* 手順 */}
                     <div>
@@ -331,12 +637,33 @@ export const MenuHistory: React.FC = () => {
                       </ol>
                     </div>
 
+                    {/* 生成に使用したテンプレート */}
+                    {menu.promptTemplate && (
+                      <p className="text-xs text-gray-500">
+                        プロンプト: {menu.promptTemplate.name}（版 {menu.promptTemplate.version}）
+                      </p>
+                    )}
+
+                    {/* 結果画面での修正の経緯 */}
+                    {menu.refinements && menu.refinements.length > 0 && (
+                      <div>
+                        <h4 className="font-medium text-gray-900 mb-2">修正の経緯</h4>
+                        <ol className="space-y-1">
+                          {menu.refinements.map((refinement, i) => (
+                            <li key={i} className="text-xs text-gray-600">
+                              「{refinement.previousTitle}」に{refinement.scope === 'all' ? '（全献立への指示）' : ''}: {refinement.instruction}
+                            </li>
+                          ))}
+                        </ol>
+                      </div>
+                    )}
+
                     {/* 採用・不採用の設定 */}
                     <div>
                       <h4 className="font-medium text-gray-900 mb-2">評価</h4>
                       <div className="flex space-x-2">
                         <button
-                          onClick={() => handleAdoptionChange(menu.id, true)}
+                          onClick={() => handleAdoptionChange(menu, true)}
                           className={`px-3 py-2 rounded-lg text-sm transition-colors ${
                             menu.isAdopted === true
                               ? 'bg-green-500 text-white'
@@ -346,7 +673,7 @@ export const MenuHistory: React.FC = () => {
                           ✅ 採用
                         </button>
                         <button
-                          onClick={() => handleAdoptionChange(menu.id, false)}
+                          onClick={() => handleAdoptionChange(menu, false)}
                           className={`px-3 py-2 rounded-lg text-sm transition-colors ${
                             menu.isAdopted === false
                               ? 'bg-red-500 text-white'
@@ -356,7 +683,7 @@ export const MenuHistory: React.FC = () => {
                           ❌ 不採用
                         </button>
                         <button
-                          onClick={() => handleAdoptionChange(menu.id, undefined)}
+                          onClick={() => handleAdoptionChange(menu, undefined)}
                           className={`px-3 py-2 rounded-lg text-sm transition-colors ${
                             menu.isAdopted === undefined
                               ? 'bg-gray-500 text-white'
@@ -368,6 +695,23 @@ export const MenuHistory: React.FC = () => {
                       </div>
                     </div>
 
+                    {/* 作った記録（採用済みの献立のみ） */}
+                    {menu.isAdopted === true && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-gray-600">
+                          {(menu.cookCount ?? 0) > 0
+                            ? `${menu.cookCount}回作りました（最後: ${new Date(menu.lastCookedAt ?? menu.createdAt).toLocaleDateString()}）`
+                            : 'まだ作っていません'}
+                        </span>
+                        <button
+                          onClick={() => openCookDialog(menu)}
+                          className="px-3 py-2 rounded-lg text-sm bg-orange-50 text-orange-700 hover:bg-orange-100 transition-colors"
+                        >
+                          🍳 作った
+                        </button>
+                      </div>
+                    )}
+
                     {/* 削除ボタン */}
                     <div className="pt-2 border-t border-gray-100">
                       <button
@@ -381,7 +725,127 @@ export const MenuHistory: React.FC = () => {
                 )}
               </div>
             );
-          })}
+          }}
+        />
+      )}
+
+      {/* 続きを読み込み中 */}
+      {isLoadingMenus && menuHistory.length > 0 && !isSearching && (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+
+      {/* 献立カレンダーへの追加ダイアログ */}
+      {planDialog && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl max-w-sm w-full p-6 space-y-4">
+            <div className="text-center">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                作る日を決めますか？
+              </h3>
+              <p className="text-gray-600 text-sm">
+                「{planDialog.menuTitle}」を献立カレンダーに追加します
+              </p>
+            </div>
+            
+            <div className="flex space-x-2">
+              <input
+                type="date"
+                value={planDialog.date}
+                onChange={(e) => setPlanDialog({ ...planDialog, date: e.target.value })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <select
+                value={planDialog.slot}
+                onChange={(e) => setPlanDialog({ ...planDialog, slot: e.target.value as MealSlot })}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {MEAL_SLOT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setPlanDialog(null)}
+                className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-700 py-2 px-4 rounded-lg transition-colors"
+              >
+                追加しない
+              </button>
+              <button
+                onClick={handleAddToPlan}
+                disabled={!planDialog.date}
+                className="flex-1 bg-blue-500 hover:bg-blue-600 text-white py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+              >
+                追加
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 作った記録と在庫の差し引きダイアログ */}
+      {cookDialog && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl max-w-sm w-full p-6 space-y-4">
+            <div className="text-center">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                作ったことを記録します
+              </h3>
+              <p className="text-gray-600 text-sm">
+                「{cookDialog.menu.title}」で使った食材を在庫から差し引けます
+              </p>
+            </div>
+            
+            {cookDialog.suggestions.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center">在庫から差し引く食材はありません</p>
+            ) : (
+              <div className="max-h-60 overflow-y-auto space-y-2">
+                {cookDialog.suggestions.map(({ item, ingredient, quantity }) => (
+                  <label key={item.id} className="flex items-start space-x-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={cookDialog.selectedItemIds.includes(item.id)}
+                      onChange={() => toggleCookDeduction(item.id)}
+                      className="mt-1"
+                    />
+                    <span className="flex-1">
+                      <span className="block text-gray-900">
+                        {item.name}
+                        {formatPantryQuantity(item) && (
+                          <span className="ml-1 text-gray-500">{formatPantryQuantity(item)}</span>
+                        )}
+                        <span className="ml-1 text-orange-600">
+                          {quantity === null ? '使い切り' : `−${formatPantryQuantity({ ...item, quantity })}`}
+                        </span>
+                      </span>
+                      <span className="block text-xs text-gray-500">材料: {ingredient}</span>
+                      {quantity === null && (
+                        <span className="block text-xs text-gray-500">分量を換算できないため、選択すると在庫から削除します</span>
+                      )}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+            
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setCookDialog(null)}
+                className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-700 py-2 px-4 rounded-lg transition-colors"
+              >
+                キャンセル
+              </button>
+              <button
+                onClick={handleCook}
+                className="flex-1 bg-blue-500 hover:bg-blue-600 text-white py-2 px-4 rounded-lg transition-colors"
+              >
+                記録する
+              </button>
+            </div>
+          </div>
         </div>
       )}
 
@@ -0,0 +1,121 @@
+/**
+ * 献立の修正依頼コンポーネント
+ * 表示中の献立について、会話形式でAIに修正を依頼する
+ */
+
+import React, { useState } from 'react';
+import { useAppStore } from '../store';
+
+interface MenuRefinementPanelProps {
+  targetIndex: number | null;                       // 修正対象の献立の位置（nullはすべて）
+  onTargetChange: (targetIndex: number | null) => void;
+}
+
+/**
+ * 修正指示の例（入力欄のプレースホルダー）
+ */
+const INSTRUCTION_PLACEHOLDER = '例: もっと辛くして / 魚料理に変えて / 20分以内で作れるように';
+
+/**
+ * 修正依頼パネル
+ * これまでの修正指示を会話として表示し、次の指示を送信する
+ */
+export const MenuRefinementPanel: React.FC<MenuRefinementPanelProps> = ({ targetIndex, onTargetChange }) => {
+  const { currentMenuResults, currentRefinements, currentConversation, isRefining, replacingIndex, refineMenus, cancelGeneration } = useAppStore();
+  const [instruction, setInstruction] = useState('');
+
+  // 会話履歴がない（生成が完了していない）場合は修正できない
+  if (!currentConversation) {
+    return null;
+  }
+
+  /**
+   * 修正指示を送信
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim() || isRefining) {
+      return;
+    }
+    const text = instruction;
+    setInstruction('');
+    await refineMenus(text, targetIndex);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 space-y-3">
+      <div>
+        <h3 className="font-semibold text-gray-900">献立を修正する</h3>
+        <p className="text-xs text-gray-500 mt-1">
+          提案された献立への要望を入力すると、会話の流れを踏まえてAIが献立を作り直します
+        </p>
+      </div>
+
+      {/* これまでの修正指示 */}
+      {currentRefinements.length > 0 && (
+        <ul className="space-y-2">
+          {currentRefinements.map((turn, index) => (
+            <li key={index} className="bg-blue-50 rounded-lg px-3 py-2">
+              <p className="text-xs text-blue-700">
+                {turn.targetIndex === null
+                  ? 'すべての献立'
+                  : `「${turn.previousTitles[turn.targetIndex]}」`}
+                への指示
+              </p>
+              <p className="text-sm text-gray-800 whitespace-pre-wrap">{turn.instruction}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <select
+          value={targetIndex === null ? '' : String(targetIndex)}
+          onChange={(e) => onTargetChange(e.target.value === '' ? null : Number(e.target.value))}
+          disabled={isRefining}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">すべての献立</option>
+          {currentMenuResults.map((menu, index) => (
+            <option key={index} value={index}>
+              {index + 1}. {menu.title}
+            </option>
+          ))}
+        </select>
+
+        <textarea
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder={INSTRUCTION_PLACEHOLDER}
+          rows={2}
+          disabled={isRefining}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+        />
+
+        {isRefining ? (
+          <div className="flex items-center space-x-3 py-2">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+            <p className="flex-1 text-sm text-gray-600">
+              {replacingIndex === null ? '献立を修正中...' : '別の案を生成中...'}
+            </p>
+            <button
+              type="button"
+              onClick={cancelGeneration}
+              className="text-sm text-gray-600 hover:text-gray-900"
+            >
+              中止
+            </button>
+          </div>
+        ) : (
+          <button
+            type="submit"
+            disabled={!instruction.trim()}
+            className="w-full bg-blue-500 hover:bg-blue-600 text-white py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            修正を依頼
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
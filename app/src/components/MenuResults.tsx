@@ -6,6 +6,12 @@
 import React, { useState } from 'react';
 import type { MenuItem, MenuFormData } from '../types';
 import { useAppStore } from '../store';
+import { providerRegistry } from '../services/providers';
+import { MenuRefinementPanel } from './MenuRefinementPanel';
+import { IngredientList } from './IngredientList';
+import { RestrictionBadge, RestrictionWarning } from './RestrictionWarning';
+import { resolveServings } from '../utils/household';
+import { checkMenuRestrictions, hasAllergyViolation } from '../utils/allergenChecker';
 
 interface MenuResultsProps {
   formData: MenuFormData;
@@ -16,13 +22,16 @@ interface MenuResultsProps {
  * 生成された献立をカード形式で表示し、保存機能を提供
  */
 export const MenuResults: React.FC<MenuResultsProps> = ({ formData }) => {
-  const { currentMenuResults, saveMenu, clearMenuResults, setCurrentView } = useAppStore();
+  const { currentMenuResults, currentResultSource, isLoading, isRefining, replacingIndex, saveMenu, replaceMenu, replaceRestrictedMenus, cancelGeneration, clearMenuResults, setCurrentView } = useAppStore();
   
   // カードの展開状態を管理
   const [expandedCards, setExpandedCards] = useState<Set<number>>(new Set());
   
   // 保存中の状態を管理
   const [savingMenus, setSavingMenus] = useState<Set<number>>(new Set());
+  
+  // 修正を依頼する献立（nullはすべての献立）
+  const [refinementTarget, setRefinementTarget] = useState<number | null>(null);
 
   /**
    * カードの展開/折りたたみ
@@ -39,10 +48,22 @@ export const MenuResults: React.FC<MenuResultsProps> = ({ formData }) => {
     });
   };
 
+  // 家族のアレルギー・苦手食材の確認結果（献立の位置ごと）
+  const violations = currentMenuResults.map(menu =>
+    formData.household ? checkMenuRestrictions(menu, formData.household) : []
+  );
+  const allergyCount = violations.filter(hasAllergyViolation).length;
+
   /**
    * 献立の保存処理
+   * アレルギー食材を含む可能性がある場合は確認してから保存する
    */
   const handleSaveMenu = async (menu: MenuItem, index: number) => {
+    if (hasAllergyViolation(violations[index])
+      && !window.confirm('家族のアレルギー食材が含まれている可能性があります。保存しますか？')) {
+      return;
+    }
+
     setSavingMenus(prev => new Set(prev).add(index));
     
     try {
@@ -56,6 +77,19 @@ export const MenuResults: React.FC<MenuResultsProps> = ({ formData }) => {
     }
   };
 
+  /**
+   * 献立を別の案に差し替え
+   * 展開状態は差し替え後の献立には引き継がない
+   */
+  const handleReplaceMenu = async (index: number) => {
+    setExpandedCards(prev => {
+      const newSet = new Set(prev);
+      newSet.delete(index);
+      return newSet;
+    });
+    await replaceMenu(index, formData);
+  };
+
   /**
    * 新しく献立を作成
    */
@@ -84,8 +118,34 @@ export const MenuResults: React.FC<MenuResultsProps> = ({ formData }) => {
         <p className="text-gray-600 text-sm">
           気に入った献立は保存ボタンでお気に入りに追加できます
         </p>
+        {currentResultSource && (
+          <p className="text-xs text-gray-500">
+            回答: {providerRegistry.get(currentResultSource.provider)?.label || currentResultSource.provider}（{currentResultSource.model}）
+            {currentResultSource.provider !== currentResultSource.requestedProvider && (
+              <span className="text-orange-600">
+                {' '}※{providerRegistry.get(currentResultSource.requestedProvider)?.label || currentResultSource.requestedProvider}で生成できなかったため切り替えました
+              </span>
+            )}
+          </p>
+        )}
       </div>
 
+      {/* アレルギー食材を含む献立の警告（生成完了後に表示） */}
+      {!isLoading && allergyCount > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 space-y-2">
+          <p className="text-sm text-red-800">
+            {allergyCount}件の献立に家族のアレルギー食材が含まれている可能性があります
+          </p>
+          <button
+            onClick={() => replaceRestrictedMenus(formData)}
+            disabled={isRefining}
+            className="text-sm text-red-700 underline hover:text-red-900 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            該当する献立をまとめて差し替える
+          </button>
+        </div>
+      )}
+
       {/* 献立カード一覧 */}
       <div className="space-y-4">
         {currentMenuResults.map((menu, index) => (
@@ -106,6 +166,11 @@ export const MenuResults: React.FC<MenuResultsProps> = ({ formData }) => {
                   <p className="text-sm text-gray-600 mt-1 line-clamp-2">
                     {menu.description}
                   </p>
+                  {violations[index].length > 0 && (
+                    <div className="mt-2">
+                      <RestrictionBadge violations={violations[index]} />
+                    </div>
+                  )}
                   <div className="flex items-center mt-2 space-x-4">
                     <span className="inline-flex items-center text-xs text-gray-500">
                       <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -138,10 +203,40 @@ export const MenuResults: React.FC<MenuResultsProps> = ({ formData }) => {
               </div>
             </button>
 
+            {/* 別の案への差し替え（生成完了後に表示） */}
+            {!isLoading && (
+              <div className="px-4 pb-3 flex justify-end">
+                {replacingIndex === index ? (
+                  <span className="inline-flex items-center text-xs text-gray-500">
+                    <span className="animate-spin rounded-full h-3 w-3 border-b-2 border-blue-600 mr-2"></span>
+                    別の案を生成中...
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handleReplaceMenu(index)}
+                    disabled={isRefining}
+                    className="inline-flex items-center text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    </svg>
+                    別の案
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* カード詳細（展開時に表示） */}
             {expandedCards.has(index) && (
               <div className="px-4 pb-4 border-t border-gray-100">
                 <div className="space-y-4">
+                  {/* アレルギー・苦手食材の該当箇所 */}
+                  {violations[index].length > 0 && (
+                    <div className="pt-4">
+                      <RestrictionWarning violations={violations[index]} />
+                    </div>
+                  )}
+
                   {/* 完全なタイトル表示 */}
                   {menu.title.length > 60 && (
                     <div>
@@ -158,20 +253,11 @@ export const MenuResults: React.FC<MenuResultsProps> = ({ formData }) => {
                     </div>
                   )}
                   
-                  {/* 材料 */}
-                  <div>
-                    <h4 className="font-medium text-gray-900 mb-2">材料</h4>
-                    <div className="flex flex-wrap gap-2">
-                      {menu.ingredients.map((ingredient, i) => (
-                        <span
-                          key={i}
-                          className="inline-block bg-gray-100 text-gray-700 px-2 py-1 rounded-md text-sm"
-                        >
-                          {ingredient}
-                        </span>
-                      ))}
-                    </div>
-                  </div>
+                  {/* 材料（人数に合わせて換算） */}
+                  <IngredientList
+                    ingredients={menu.ingredients}
+                    baseServings={resolveServings(formData)}
+                  />
 
                   {/* 手順 */}
                   <div>
@@ -194,10 +280,19 @@ export const MenuResults: React.FC<MenuResultsProps> = ({ formData }) => {
                   </div>
 
                   {/* 保存ボタン */}
-                  <div className="pt-2">
+                  <div className="pt-2 space-y-2">
+                    {!isLoading && (
+                      <button
+                        onClick={() => setRefinementTarget(index)}
+                        disabled={isRefining}
+                        className="w-full bg-white hover:bg-gray-50 text-blue-600 border border-blue-200 py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        この献立だけ修正する
+                      </button>
+                    )}
                     <button
                       onClick={() => handleSaveMenu(menu, index)}
-                      disabled={savingMenus.has(index)}
+                      disabled={savingMenus.has(index) || isRefining}
                       className="w-full bg-green-500 hover:bg-green-600 text-white py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       {savingMenus.has(index) ? (
@@ -220,24 +315,49 @@ export const MenuResults: React.FC<MenuResultsProps> = ({ formData }) => {
             )}
           </div>
         ))}
+
+        {/* 生成中の次の献立のプレースホルダー */}
+        {isLoading && (
+          <div className="bg-white rounded-xl shadow-sm border border-dashed border-gray-300 px-4 py-6">
+            <div className="flex items-center space-x-3">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+              <p className="flex-1 text-sm text-gray-600">
+                次の献立を生成中...（{currentMenuResults.length}件受信済み）
+              </p>
+              <button
+                onClick={cancelGeneration}
+                className="text-sm text-gray-600 hover:text-gray-900"
+              >
+                中止
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
-      {/* アクションボタン */}
-      <div className="space-y-3">
-        <button
-          onClick={handleCreateNew}
-          className="w-full bg-blue-500 hover:bg-blue-600 text-white py-3 px-4 rounded-lg transition-colors"
-        >
-          別の献立を作成する
-        </button>
+      {/* 修正依頼（生成完了後に表示） */}
+      {!isLoading && (
+        <MenuRefinementPanel targetIndex={refinementTarget} onTargetChange={setRefinementTarget} />
+      )}
+
+      {/* アクションボタン（生成完了後に表示） */}
+      {!isLoading && (
+        <div className="space-y-3">
+          <button
+            onClick={handleCreateNew}
+            className="w-full bg-blue-500 hover:bg-blue-600 text-white py-3 px-4 rounded-lg transition-colors"
+          >
+            別の献立を作成する
+          </button>
         
-        <button
-          onClick={handleGoHome}
-          className="w-full bg-gray-200 hover:bg-gray-300 text-gray-700 py-3 px-4 rounded-lg transition-colors"
-        >
-          ホームに戻る
-        </button>
-      </div>
+          <button
+            onClick={handleGoHome}
+            className="w-full bg-gray-200 hover:bg-gray-300 text-gray-700 py-3 px-4 rounded-lg transition-colors"
+          >
+            ホームに戻る
+          </button>
+        </div>
+      )}
 
       {/* ヒント */}
       <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
@@ -0,0 +1,252 @@
+/**
+ * 冷蔵庫の在庫管理コンポーネント
+ * 食材の数量・購入日・期限を登録し、期限の近い順に表示する
+ */
+
+import React, { useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { PantryItem } from '../types';
+import { useAppStore } from '../store';
+import { toDateKey } from '../utils/mealPlan';
+import { describeExpiry, formatPantryQuantity, getDaysUntilExpiry, isExpiringSoon, sortPantryItems } from '../utils/pantry';
+
+// 単位の入力候補
+const UNIT_SUGGESTIONS = ['g', 'kg', 'ml', '個', '本', '枚', '玉', '株', '丁', 'パック', '袋', '切れ'];
+
+// 編集中の在庫（数量は入力途中の文字列のまま保持する）
+interface PantryDraft {
+  id?: string;
+  name: string;
+  quantity: string;
+  unit: string;
+  purchasedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * 新規登録用の入力内容（購入日は今日）
+ */
+const createDraft = (): PantryDraft => ({
+  name: '',
+  quantity: '',
+  unit: '',
+  purchasedAt: toDateKey(new Date()),
+  expiresAt: ''
+});
+
+/**
+ * 在庫を編集用の入力内容に変換
+ */
+const toDraft = (item: PantryItem): PantryDraft => ({
+  id: item.id,
+  name: item.name,
+  quantity: item.quantity === null ? '' : String(item.quantity),
+  unit: item.unit ?? '',
+  purchasedAt: item.purchasedAt ?? '',
+  expiresAt: item.expiresAt ?? ''
+});
+
+/**
+ * 冷蔵庫の在庫管理画面コンポーネント
+ */
+export const PantryManager: React.FC = () => {
+  const { pantryItems, savePantryItem, deletePantryItem, setCurrentView } = useAppStore();
+
+  const [draft, setDraft] = useState<PantryDraft>(createDraft);
+  const [formError, setFormError] = useState('');
+
+  const sortedItems = useMemo(() => sortPantryItems(pantryItems), [pantryItems]);
+
+  /**
+   * 入力内容の更新
+   */
+  const updateDraft = (changes: Partial<PantryDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  /**
+   * 在庫を保存
+   */
+  const handleSave = async () => {
+    const name = draft.name.trim();
+    if (!name) {
+      setFormError('食材名を入力してください');
+      return;
+    }
+    const quantity = draft.quantity.trim() === '' ? null : Number(draft.quantity);
+    if (quantity !== null && (!Number.isFinite(quantity) || quantity < 0)) {
+      setFormError('数量は0以上の数値で入力してください');
+      return;
+    }
+
+    await savePantryItem({
+      id: draft.id ?? uuidv4(),
+      name,
+      quantity,
+      unit: draft.unit.trim() || null,
+      purchasedAt: draft.purchasedAt || null,
+      expiresAt: draft.expiresAt || null,
+      updatedAt: new Date().toISOString()
+    });
+    setDraft(createDraft());
+    setFormError('');
+  };
+
+  /**
+   * 在庫を削除
+   */
+  const handleDelete = async (item: PantryItem) => {
+    if (!window.confirm(`「${item.name}」を在庫から削除しますか？`)) {
+      return;
+    }
+    await deletePantryItem(item.id);
+    if (draft.id === item.id) {
+      setDraft(createDraft());
+    }
+  };
+
+  /**
+   * 期限の表示色（期限切れは赤、期限が近い場合は橙）
+   */
+  const getExpiryClass = (item: PantryItem): string => {
+    const days = getDaysUntilExpiry(item);
+    if (days !== null && days < 0) {
+      return 'bg-red-100 text-red-700';
+    }
+    return isExpiringSoon(item) ? 'bg-orange-100 text-orange-700' : 'bg-gray-100 text-gray-600';
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* ヘッダー */}
+      <div>
+        <h2 className="text-xl font-bold text-gray-900">冷蔵庫の在庫</h2>
+        <p className="text-gray-600 text-sm">
+          登録した食材は献立作成の「冷蔵庫から選ぶ」で選べます
+        </p>
+      </div>
+
+      {/* 登録・編集 */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-3">
+        <h3 className="font-semibold text-gray-900">{draft.id ? '在庫を編集' : '食材を登録'}</h3>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">食材名</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            placeholder="鶏もも肉"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">数量</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={draft.quantity}
+              onChange={(e) => updateDraft({ quantity: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">単位</label>
+            <input
+              type="text"
+              list="pantry-unit-suggestions"
+              value={draft.unit}
+              onChange={(e) => updateDraft({ unit: e.target.value })}
+              placeholder="g"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <datalist id="pantry-unit-suggestions">
+              {UNIT_SUGGESTIONS.map(unit => <option key={unit} value={unit} />)}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">購入日</label>
+            <input
+              type="date"
+              value={draft.purchasedAt}
+              onChange={(e) => updateDraft({ purchasedAt: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">期限</label>
+            <input
+              type="date"
+              value={draft.expiresAt}
+              onChange={(e) => updateDraft({ expiresAt: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+        {formError && <p className="text-red-500 text-sm">{formError}</p>}
+        <div className="flex space-x-2">
+          {draft.id && (
+            <button
+              onClick={() => { setDraft(createDraft()); setFormError(''); }}
+              className="flex-1 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm"
+            >
+              キャンセル
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            className="flex-1 py-2 rounded-lg bg-blue-500 text-white text-sm hover:bg-blue-600"
+          >
+            {draft.id ? '更新' : '登録'}
+          </button>
+        </div>
+      </div>
+
+      {/* 在庫一覧（期限の近い順） */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <h3 className="font-semibold text-gray-900 mb-2">在庫（{sortedItems.length}件）</h3>
+        {sortedItems.length === 0 ? (
+          <p className="text-sm text-gray-500">登録された食材はありません</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {sortedItems.map(item => (
+              <div key={item.id} className="flex items-center justify-between py-2">
+                <button onClick={() => setDraft(toDraft(item))} className="flex-1 min-w-0 text-left">
+                  <p className="text-sm text-gray-900 truncate">
+                    {item.name}
+                    {formatPantryQuantity(item) && (
+                      <span className="ml-2 text-gray-500">{formatPantryQuantity(item)}</span>
+                    )}
+                  </p>
+                  {item.purchasedAt && (
+                    <p className="text-xs text-gray-400">購入日 {item.purchasedAt}</p>
+                  )}
+                </button>
+                {item.expiresAt && (
+                  <span className={`ml-2 flex-shrink-0 text-xs px-2 py-0.5 rounded ${getExpiryClass(item)}`}>
+                    {describeExpiry(item)}
+                  </span>
+                )}
+                <button
+                  onClick={() => handleDelete(item)}
+                  className="ml-2 flex-shrink-0 text-gray-400 hover:text-red-600"
+                  aria-label={`${item.name}を削除`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={() => setCurrentView('create')}
+        className="w-full py-3 rounded-xl border border-blue-200 bg-white text-blue-600 text-sm font-medium hover:bg-blue-50"
+      >
+        在庫の食材で献立を考える
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+/**
+ * プロバイダー別APIキー入力欄コンポーネント
+ * プロバイダー定義のAPIキー仕様に従って入力・表示切替・接続テストを提供
+ */
+
+import React, { useState } from 'react';
+import type { ApiKeySpec } from '../services/providers';
+
+export type ApiKeyTestStatus = 'idle' | 'testing' | 'success' | 'error';
+
+interface ProviderApiKeyFieldProps {
+  apiKey: ApiKeySpec;
+  value: string;
+  testStatus: ApiKeyTestStatus;
+  onChange: (value: string) => void;
+  onTest: () => void;
+  onDelete?: () => void;
+}
+
+/**
+ * テスト状態に応じたアイコンを表示
+ */
+export const ConnectionTestIcon: React.FC<{ status: ApiKeyTestStatus }> = ({ status }) => {
+  switch (status) {
+    case 'testing':
+      return <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>;
+    case 'success':
+      return <span className="text-green-500">✅</span>;
+    case 'error':
+      return <span className="text-red-500">❌</span>;
+    default:
+      return null;
+  }
+};
+
+/**
+ * APIキー入力欄コンポーネント
+ * キーの表示/非表示はこのコンポーネント内で管理
+ */
+export const ProviderApiKeyField: React.FC<ProviderApiKeyFieldProps> = ({
+  apiKey,
+  value,
+  testStatus,
+  onChange,
+  onTest,
+  onDelete
+}) => {
+  // キーの表示/非表示状態
+  const [showKey, setShowKey] = useState(false);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium text-gray-700">
+          {apiKey.label}
+        </label>
+        {onDelete && value && (
+          <button
+            onClick={onDelete}
+            className="text-sm text-red-600 hover:text-red-800"
+          >
+            削除
+          </button>
+        )}
+      </div>
+      <div className="relative">
+        <input
+          type={showKey ? 'text' : 'password'}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={apiKey.placeholder}
+          className="w-full px-3 py-2 pr-20 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <div className="absolute inset-y-0 right-0 flex items-center pr-3 space-x-1">
+          <ConnectionTestIcon status={testStatus} />
+          <button
+            type="button"
+            onClick={() => setShowKey(prev => !prev)}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              {showKey ? (
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.878 9.878L3 3m6.878 6.878L21 21" />
+              ) : (
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              )}
+            </svg>
+          </button>
+        </div>
+      </div>
+      {value.trim() && (
+        <button
+          onClick={onTest}
+          disabled={testStatus === 'testing'}
+          className="mt-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          接続をテスト
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+/**
+ * プロバイダー固有の接続設定入力コンポーネント
+ * プロバイダー定義の configFields に従って入力欄を描画
+ */
+
+import React from 'react';
+import type { ProviderConfig } from '../types';
+import type { AIProviderDefinition } from '../services/providers';
+
+interface ProviderConfigFieldsProps {
+  provider: AIProviderDefinition;
+  config: ProviderConfig;
+  onChange: (key: string, value: string) => void;
+}
+
+/**
+ * 接続設定入力コンポーネント
+ * 未入力の項目は既定値がプレースホルダーとして表示される
+ */
+export const ProviderConfigFields: React.FC<ProviderConfigFieldsProps> = ({
+  provider,
+  config,
+  onChange
+}) => {
+  const fields = provider.configFields || [];
+
+  return (
+    <div className="space-y-4">
+      {fields.map((field) => (
+        <div key={field.key}>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {field.label}
+          </label>
+          {field.type === 'select' ? (
+            <select
+              value={config[field.key] || field.defaultValue}
+              onChange={(e) => onChange(field.key, e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+            >
+              {field.options?.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type={field.type}
+              value={config[field.key] || ''}
+              onChange={(e) => onChange(field.key, e.target.value)}
+              placeholder={field.placeholder || field.defaultValue}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          )}
+          {field.description && (
+            <p className="text-xs text-gray-500 mt-1">{field.description}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+/**
+ * プロバイダー別の生成パラメーター入力コンポーネント
+ * モデル・最大トークン数・推論レベル・温度を、選択中のモデルが対応する範囲で入力する
+ */
+
+import React from 'react';
+import type { ProviderConfig } from '../types';
+import { providerRegistry } from '../services/providers';
+import type { AIProviderDefinition, ReasoningEffort } from '../services/providers';
+
+interface ProviderGenerationFieldsProps {
+  provider: AIProviderDefinition;
+  config: ProviderConfig;
+  onChange: (key: string, value: string) => void;
+}
+
+// 推論レベルの表示名
+const REASONING_EFFORT_LABELS: Record<ReasoningEffort, string> = {
+  low: '低（速い・安い）',
+  medium: '中',
+  high: '高（遅い・高い）'
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * 生成パラメーター入力コンポーネント
+ * 未入力の項目はモデルの既定値が使われる
+ */
+export const ProviderGenerationFields: React.FC<ProviderGenerationFieldsProps> = ({
+  provider,
+  config,
+  onChange
+}) => {
+  const model = config.model || provider.defaultModel;
+  const limits = providerRegistry.getModelLimits(provider.id, model);
+  const errors = providerRegistry.validateGenerationSettings(provider.id, config);
+
+  /**
+   * モデルを変更し、新しいモデルが対応しない項目はクリア
+   */
+  const changeModel = (nextModel: string) => {
+    onChange('model', nextModel);
+    const nextLimits = providerRegistry.getModelLimits(provider.id, nextModel || provider.defaultModel);
+    if (!nextLimits?.reasoningEfforts && config.reasoningEffort) {
+      onChange('reasoningEffort', '');
+    }
+    if (!nextLimits?.temperatureRange && config.temperature) {
+      onChange('temperature', '');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* モデル */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          モデル
+        </label>
+        {provider.customModelLimits ? (
+          <input
+            type="text"
+            value={config.model || ''}
+            onChange={(e) => changeModel(e.target.value)}
+            placeholder={provider.defaultModel}
+            className={inputClassName}
+          />
+        ) : (
+          <select
+            value={model}
+            onChange={(e) => changeModel(e.target.value)}
+            className={`${inputClassName} bg-white`}
+          >
+            {provider.models.map((info) => (
+              <option key={info.id} value={info.id}>
+                {info.label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* 最大トークン数 */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          最大トークン数
+        </label>
+        <input
+          type="number"
+          min="1"
+          max={limits?.maxOutputTokens}
+          value={config.maxTokens || ''}
+          onChange={(e) => onChange('maxTokens', e.target.value)}
+          placeholder={limits ? String(limits.defaultMaxTokens) : ''}
+          className={inputClassName}
+        />
+        {limits && (
+          <p className="text-xs text-gray-500 mt-1">
+            未入力の場合は{limits.defaultMaxTokens}（上限 {limits.maxOutputTokens}）。少なすぎると献立が途中で切れます
+          </p>
+        )}
+      </div>
+
+      {/* 推論レベル（推論モデルのみ） */}
+      {limits?.reasoningEfforts && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            推論レベル
+          </label>
+          <select
+            value={config.reasoningEffort || limits.defaultReasoningEffort || ''}
+            onChange={(e) => onChange('reasoningEffort', e.target.value)}
+            className={`${inputClassName} bg-white`}
+          >
+            {limits.reasoningEfforts.map((effort) => (
+              <option key={effort} value={effort}>
+                {REASONING_EFFORT_LABELS[effort]}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* 温度（対応モデルのみ） */}
+      {limits?.temperatureRange && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            温度
+          </label>
+          <input
+            type="number"
+            min={limits.temperatureRange[0]}
+            max={limits.temperatureRange[1]}
+            step="0.1"
+            value={config.temperature || ''}
+            onChange={(e) => onChange('temperature', e.target.value)}
+            placeholder="APIの既定値"
+            className={inputClassName}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            {limits.temperatureRange[0]}〜{limits.temperatureRange[1]}。高いほど多様な献立になります
+          </p>
+        </div>
+      )}
+
+      {/* 検証エラー */}
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-1">
+          {errors.map((error) => (
+            <p key={error}>{error}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+/**
+ * 保存済みの献立から作れるものを探すコンポーネント
+ * 手持ちの食材で賄える材料の割合が高い順に表示する（APIを使わずオフラインで動作する）
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { RecipeMatch } from '../types';
+import { useAppStore } from '../store';
+import { IngredientList } from './IngredientList';
+
+// 表示する献立の最大数
+const MAX_RESULTS = 10;
+
+// 入力が止まってから照合を始めるまでの時間（ミリ秒）
+const MATCH_DELAY_MS = 300;
+
+interface RecipeMatcherProps {
+  ingredients: string[];   // フォームに入力された食材
+}
+
+/**
+ * 保存済みの献立の照合結果コンポーネント
+ */
+export const RecipeMatcher: React.FC<RecipeMatcherProps> = ({ ingredients }) => {
+  const { menuCount, pantryItems, matchSavedMenus } = useAppStore();
+
+  // 冷蔵庫の在庫も手持ちとして含めるか、調味料も材料として数えるか
+  const [includePantry, setIncludePantry] = useState(pantryItems.length > 0);
+  const [includeSeasonings, setIncludeSeasonings] = useState(false);
+
+  // 詳細を表示中の献立
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const available = useMemo(
+    () => [...ingredients, ...(includePantry ? pantryItems.map(item => item.name) : [])],
+    [ingredients, includePantry, pantryItems]
+  );
+  const hasInput = available.some(name => name.trim() !== '');
+
+  // 保存済みの献立をデータベースから照合（入力のたびに全件を読まないよう、入力が止まってから行う）
+  const [matches, setMatches] = useState<RecipeMatch[]>([]);
+  useEffect(() => {
+    if (!hasInput) {
+      setMatches([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const results = await matchSavedMenus(available, includeSeasonings);
+      if (!cancelled) {
+        setMatches(results.slice(0, MAX_RESULTS));
+      }
+    }, MATCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [hasInput, available, includeSeasonings, menuCount, matchSavedMenus]);
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+        {pantryItems.length > 0 && (
+          <label className="flex items-center space-x-1 cursor-pointer">
+            <input type="checkbox" checked={includePantry} onChange={(e) => setIncludePantry(e.target.checked)} />
+            <span>冷蔵庫の在庫も使う</span>
+          </label>
+        )}
+        <label className="flex items-center space-x-1 cursor-pointer">
+          <input type="checkbox" checked={includeSeasonings} onChange={(e) => setIncludeSeasonings(e.target.checked)} />
+          <span>調味料も数える</span>
+        </label>
+      </div>
+
+      {!hasInput ? (
+        <p className="text-sm text-gray-500">食材を入力すると、保存した献立から作れるものを探します</p>
+      ) : matches.length === 0 ? (
+        <p className="text-sm text-gray-500">入力した食材を使う保存済みの献立はありません</p>
+      ) : (
+        <div className="space-y-2">
+          {matches.map(({ menu, matched, missing, coverage }) => (
+            <div key={menu.id} className="bg-white rounded-lg border border-gray-200">
+              <button
+                type="button"
+                onClick={() => setExpandedId(prev => prev === menu.id ? null : menu.id)}
+                className="w-full text-left p-3 space-y-1"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900 line-clamp-1">
+                    {menu.isAdopted === true && '✅ '}
+                    {menu.title}
+                  </span>
+                  <span className="ml-2 flex-shrink-0 text-xs text-blue-600">{Math.round(coverage * 100)}%</span>
+                </div>
+                <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-500" style={{ width: `${coverage * 100}%` }}></div>
+                </div>
+                <p className="text-xs text-green-700">あるもの: {matched.join('、')}</p>
+                {missing.length > 0 && (
+                  <p className="text-xs text-gray-500">足りないもの: {missing.join('、')}</p>
+                )}
+              </button>
+              {expandedId === menu.id && (
+                <div className="px-3 pb-3 border-t border-gray-100 space-y-3 pt-3">
+                  <IngredientList
+                    ingredients={menu.ingredients}
+                    parsedIngredients={menu.parsedIngredients}
+                    baseServings={menu.servings}
+                  />
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">作り方</h4>
+                    <ol className="list-decimal list-inside space-y-1 text-sm text-gray-700">
+                      {menu.steps.map((step, i) => <li key={i}>{step}</li>)}
+                    </ol>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+/**
+ * アレルギー・苦手食材の警告表示コンポーネント
+ * 家族構成に登録された食材を含む材料・手順を一覧で示す
+ */
+
+import React from 'react';
+import type { RestrictionViolation } from '../types';
+import { describeViolation, hasAllergyViolation } from '../utils/allergenChecker';
+
+interface RestrictionWarningProps {
+  violations: RestrictionViolation[];
+}
+
+/**
+ * 献立カードの見出しに添える警告バッジ
+ * アレルギーは赤、苦手食材のみの場合は黄色で表示する
+ */
+export const RestrictionBadge: React.FC<RestrictionWarningProps> = ({ violations }) => {
+  if (violations.length === 0) {
+    return null;
+  }
+
+  const isAllergy = hasAllergyViolation(violations);
+  const items = violations.filter(violation => violation.kind === (isAllergy ? 'allergy' : 'dislike'));
+
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs ${
+      isAllergy ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'
+    }`}>
+      ⚠️ {isAllergy ? 'アレルギー' : '苦手'}: {items.map(violation => violation.item).join('、')}
+    </span>
+  );
+};
+
+/**
+ * 該当箇所の詳細
+ */
+export const RestrictionWarning: React.FC<RestrictionWarningProps> = ({ violations }) => {
+  if (violations.length === 0) {
+    return null;
+  }
+
+  const isAllergy = hasAllergyViolation(violations);
+
+  return (
+    <div className={`rounded-lg p-3 border ${isAllergy ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'}`}>
+      <h4 className={`text-sm font-medium mb-1 ${isAllergy ? 'text-red-800' : 'text-yellow-800'}`}>
+        家族のアレルギー・苦手食材が含まれている可能性があります
+      </h4>
+      <ul className="space-y-1">
+        {violations.map((violation) => (
+          <li
+            key={violation.item}
+            className={`text-xs ${violation.kind === 'allergy' ? 'text-red-700' : 'text-yellow-800'}`}
+          >
+            • {describeViolation(violation)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
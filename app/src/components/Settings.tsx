@@ -5,8 +5,25 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAppStore } from '../store';
-import type { AIProvider } from '../types';
+import type { AIProvider, ApiKeyConfig } from '../types';
 import { aiService } from '../services/aiService';
+import { providerRegistry } from '../services/providers';
+import type { AIProviderDefinition } from '../services/providers';
+import { ProviderApiKeyField } from './ProviderApiKeyField';
+import type { ApiKeyTestStatus } from './ProviderApiKeyField';
+
+/**
+ * 保存済みAPIキーをフォーム入力用の値に変換
+ */
+const toFormData = (apiKeys: ApiKeyConfig): ApiKeyConfig => {
+  const formData: ApiKeyConfig = {};
+  for (const { apiKey } of providerRegistry.list()) {
+    if (apiKey) {
+      formData[apiKey.field] = apiKeys[apiKey.field] || '';
+    }
+  }
+  return formData;
+};
 
 /**
  * 設定画面コンポーネント
@@ -22,23 +39,15 @@ export const Settings: React.FC = () => {
     importData 
   } = useAppStore();
   
-  // フォームの状態管理
-  const [formData, setFormData] = useState({
-    openaiKey: apiKeys.openaiKey || '',
-    claudeKey: apiKeys.claudeKey || ''
-  });
-  
-  // キーの表示/非表示状態
-  const [showKeys, setShowKeys] = useState({
-    openai: false,
-    claude: false
-  });
+  // 登録済みのAIプロバイダー
+  const providers = providerRegistry.list();
+  const keyProviders = providers.filter(provider => provider.apiKey);
+
+  // フォームの状態管理（ApiKeyConfigのフィールド名をキーとする）
+  const [formData, setFormData] = useState<ApiKeyConfig>(() => toFormData(apiKeys));
   
   // APIキーのテスト状態
-  const [keyTests, setKeyTests] = useState<{[key: string]: 'idle' | 'testing' | 'success' | 'error'}>({
-    openai: 'idle',
-    claude: 'idle'
-  });
+  const [keyTests, setKeyTests] = useState<{[providerId: string]: ApiKeyTestStatus}>({});
   
   // 保存状態
   const [isSaving, setIsSaving] = useState(false);
@@ -50,53 +59,39 @@ export const Settings: React.FC = () => {
    * コンポーネントマウント時にフォームデータを初期化
    */
   useEffect(() => {
-    setFormData({
-      openaiKey: apiKeys.openaiKey || '',
-      claudeKey: apiKeys.claudeKey || ''
-    });
+    setFormData(toFormData(apiKeys));
   }, [apiKeys]);
 
   /**
    * APIキーの入力値を更新
    */
-  const updateFormData = (provider: 'openaiKey' | 'claudeKey', value: string) => {
+  const updateFormData = (field: string, value: string) => {
     setFormData(prev => ({
       ...prev,
-      [provider]: value
-    }));
-  };
-
-  /**
-   * キーの表示/非表示を切り替え
-   */
-  const toggleKeyVisibility = (provider: 'openai' | 'claude') => {
-    setShowKeys(prev => ({
-      ...prev,
-      [provider]: !prev[provider]
+      [field]: value
     }));
   };
 
   /**
    * APIキーのテスト
    */
-  const testApiKey = async (provider: AIProvider) => {
-    const keyField = provider === 'openai' ? 'openaiKey' : 'claudeKey';
-    const key = formData[keyField];
+  const testApiKey = async (provider: AIProviderDefinition) => {
+    const key = provider.apiKey ? formData[provider.apiKey.field] || '' : '';
     
-    if (!key.trim()) {
+    if (provider.apiKey && !key.trim()) {
       return;
     }
     
-    setKeyTests(prev => ({ ...prev, [provider]: 'testing' }));
+    setKeyTests(prev => ({ ...prev, [provider.id]: 'testing' }));
     
     try {
-      const isValid = await aiService.testApiConnection(provider, key);
+      const isValid = await aiService.testApiConnection(provider.id, key);
       setKeyTests(prev => ({ 
         ...prev, 
-        [provider]: isValid ? 'success' : 'error' 
+        [provider.id]: isValid ? 'success' : 'error' 
       }));
-    } catch (error) {
-      setKeyTests(prev => ({ ...prev, [provider]: 'error' }));
+    } catch {
+      setKeyTests(prev => ({ ...prev, [provider.id]: 'error' }));
     }
   };
 
@@ -107,10 +102,13 @@ export const Settings: React.FC = () => {
     setIsSaving(true);
     
     try {
-      await updateApiKeys({
-        openaiKey: formData.openaiKey.trim() || undefined,
-        claudeKey: formData.claudeKey.trim() || undefined
-      });
+      const nextApiKeys: ApiKeyConfig = { ...apiKeys };
+      for (const { apiKey } of keyProviders) {
+        if (apiKey) {
+          nextApiKeys[apiKey.field] = formData[apiKey.field]?.trim() || undefined;
+        }
+      }
+      await updateApiKeys(nextApiKeys);
     } finally {
       setIsSaving(false);
     }
@@ -162,22 +160,6 @@ export const Settings: React.FC = () => {
     }
   };
 
-  /**
-   * テスト状態に応じたアイコンを返す
-   */
-  const getTestIcon = (status: typeof keyTests[string]) => {
-    switch (status) {
-      case 'testing':
-        return <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>;
-      case 'success':
-        return <span className="text-green-500">✅</span>;
-      case 'error':
-        return <span className="text-red-500">❌</span>;
-      default:
-        return null;
-    }
-  };
-
   return (
     <div className="space-y-6 animate-fade-in">
       {/* ヘッダー */}
@@ -201,35 +183,25 @@ export const Settings: React.FC = () => {
       <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
         <h3 className="font-semibold text-gray-900 mb-3">優先AIプロバイダー</h3>
         <div className="space-y-2">
-          <label className="flex items-center space-x-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50">
-            <input
-              type="radio"
-              name="provider"
-              value="openai"
-              checked={preferredProvider === 'openai'}
-              onChange={(e) => setPreferredProvider(e.target.value as AIProvider)}
-              className="text-blue-600"
-            />
-            <div className="flex-1">
-              <p className="font-medium text-gray-900">OpenAI GPT-4</p>
-              <p className="text-sm text-gray-600">OpenAI APIを使用</p>
-            </div>
-          </label>
-          
-          <label className="flex items-center space-x-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50">
-            <input
-              type="radio"
-              name="provider"
-              value="claude"
-              checked={preferredProvider === 'claude'}
-              onChange={(e) => setPreferredProvider(e.target.value as AIProvider)}
-              className="text-blue-600"
-            />
-            <div className="flex-1">
-              <p className="font-medium text-gray-900">Claude</p>
-              <p className="text-sm text-gray-600">Anthropic Claude APIを使用</p>
-            </div>
-          </label>
+          {providers.map((provider) => (
+            <label
+              key={provider.id}
+              className="flex items-center space-x-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50"
+            >
+              <input
+                type="radio"
+                name="provider"
+                value={provider.id}
+                checked={preferredProvider === provider.id}
+                onChange={(e) => setPreferredProvider(e.target.value as AIProvider)}
+                className="text-blue-600"
+              />
+              <div className="flex-1">
+                <p className="font-medium text-gray-900">{provider.label}</p>
+                <p className="text-sm text-gray-600">{provider.description}</p>
+              </div>
+            </label>
+          ))}
         </div>
       </div>
 
@@ -238,87 +210,16 @@ export const Settings: React.FC = () => {
         <h3 className="font-semibold text-gray-900 mb-3">APIキー設定</h3>
         
         <div className="space-y-4">
-          {/* OpenAI APIキー */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              OpenAI APIキー
-            </label>
-            <div className="relative">
-              <input
-                type={showKeys.openai ? 'text' : 'password'}
-                value={formData.openaiKey}
-                onChange={(e) => updateFormData('openaiKey', e.target.value)}
-                placeholder="sk-..."
-                className="w-full px-3 py-2 pr-20 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-              <div className="absolute inset-y-0 right-0 flex items-center pr-3 space-x-1">
-                {getTestIcon(keyTests.openai)}
-                <button
-                  type="button"
-                  onClick={() => toggleKeyVisibility('openai')}
-                  className="text-gray-400 hover:text-gray-600"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    {showKeys.openai ? (
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.878 9.878L3 3m6.878 6.878L21 21" />
-                    ) : (
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                    )}
-                  </svg>
-                </button>
-              </div>
-            </div>
-            {formData.openaiKey.trim() && (
-              <button
-                onClick={() => testApiKey('openai')}
-                disabled={keyTests.openai === 'testing'}
-                className="mt-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
-              >
-                接続をテスト
-              </button>
-            )}
-          </div>
-
-          {/* Claude APIキー */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Claude APIキー
-            </label>
-            <div className="relative">
-              <input
-                type={showKeys.claude ? 'text' : 'password'}
-                value={formData.claudeKey}
-                onChange={(e) => updateFormData('claudeKey', e.target.value)}
-                placeholder="sk-ant-..."
-                className="w-full px-3 py-2 pr-20 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-              <div className="absolute inset-y-0 right-0 flex items-center pr-3 space-x-1">
-                {getTestIcon(keyTests.claude)}
-                <button
-                  type="button"
-                  onClick={() => toggleKeyVisibility('claude')}
-                  className="text-gray-400 hover:text-gray-600"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    {showKeys.claude ? (
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.878 9.878L3 3m6.878 6.878L21 21" />
-                    ) : (
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                    )}
-                  </svg>
-                </button>
-              </div>
-            </div>
-            {formData.claudeKey.trim() && (
-              <button
-                onClick={() => testApiKey('claude')}
-                disabled={keyTests.claude === 'testing'}
-                className="mt-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
-              >
-                接続をテスト
-              </button>
-            )}
-          </div>
+          {keyProviders.map((provider) => provider.apiKey && (
+            <ProviderApiKeyField
+              key={provider.id}
+              apiKey={provider.apiKey}
+              value={formData[provider.apiKey.field] || ''}
+              testStatus={keyTests[provider.id] || 'idle'}
+              onChange={(value) => updateFormData(provider.apiKey!.field, value)}
+              onTest={() => testApiKey(provider)}
+            />
+          ))}
         </div>
 
         {/* 保存ボタン */}
@@ -334,8 +235,9 @@ export const Settings: React.FC = () => {
         <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
           <h4 className="text-sm font-medium text-blue-900 mb-2">APIキーの取得方法</h4>
           <div className="text-sm text-blue-700 space-y-1">
-            <p><strong>OpenAI:</strong> <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="underline">platform.openai.com</a> でアカウント作成後、APIキーを生成</p>
-            <p><strong>Claude:</strong> <a href="https://console.anthropic.com/" target="_blank" rel="noopener noreferrer" className="underline">console.anthropic.com</a> でアカウント作成後、APIキーを生成</p>
+            {providers.map(({ id, label, apiKey }) => apiKey?.help && (
+              <p key={id}><strong>{label}:</strong> <a href={apiKey.help.url} target="_blank" rel="noopener noreferrer" className="underline">{apiKey.help.linkText}</a> {apiKey.help.text}</p>
+            ))}
           </div>
         </div>
       </div>
@@ -1,12 +1,37 @@
 /**
  * APIトークン設定画面コンポーネント
- * OpenAI・Claude APIトークンの管理
+ * 登録済みAIプロバイダーのAPIトークンの管理
  */
 
 import React, { useState, useEffect } from 'react';
 import { useAppStore } from '../store';
-import type { AIProvider } from '../types';
+import type { AIProvider, ApiKeyConfig, ProviderConfig, ProviderConfigMap } from '../types';
 import { aiService } from '../services/aiService';
+import { providerRegistry, GENERATION_CONFIG_KEYS } from '../services/providers';
+import type { AIProviderDefinition } from '../services/providers';
+import { ProviderApiKeyField, ConnectionTestIcon } from './ProviderApiKeyField';
+import type { ApiKeyTestStatus } from './ProviderApiKeyField';
+import { ProviderConfigFields } from './ProviderConfigFields';
+import { ProviderGenerationFields } from './ProviderGenerationFields';
+
+// 再試行回数の選択肢
+const RETRY_COUNT_OPTIONS = [0, 1, 2, 3, 5];
+
+// 初回の待機時間の選択肢（ミリ秒）
+const RETRY_DELAY_OPTIONS = [1000, 2000, 5000];
+
+/**
+ * 保存済みAPIキーをフォーム入力用の値に変換
+ */
+const toFormData = (apiKeys: ApiKeyConfig): ApiKeyConfig => {
+  const formData: ApiKeyConfig = {};
+  for (const { apiKey } of providerRegistry.list()) {
+    if (apiKey) {
+      formData[apiKey.field] = apiKeys[apiKey.field] || '';
+    }
+  }
+  return formData;
+};
 
 /**
  * APIトークン設定画面コンポーネント
@@ -16,28 +41,27 @@ export const SettingsApi: React.FC = () => {
   const { 
     apiKeys, 
     preferredProvider, 
+    providerConfigs,
+    retrySettings,
     updateApiKeys, 
     setPreferredProvider,
+    updateProviderConfig,
+    updateRetrySettings,
     setCurrentView 
   } = useAppStore();
   
-  // フォームの状態管理
-  const [formData, setFormData] = useState({
-    openaiKey: apiKeys.openaiKey || '',
-    claudeKey: apiKeys.claudeKey || ''
-  });
+  // 登録済みのAIプロバイダー
+  const providers = providerRegistry.list();
+  const keyProviders = providers.filter(provider => provider.apiKey);
+
+  // フォームの状態管理（ApiKeyConfigのフィールド名をキーとする）
+  const [formData, setFormData] = useState<ApiKeyConfig>(() => toFormData(apiKeys));
   
-  // キーの表示/非表示状態
-  const [showKeys, setShowKeys] = useState({
-    openai: false,
-    claude: false
-  });
+  // 接続設定フォームの状態管理（プロバイダーIDをキーとする）
+  const [configForm, setConfigForm] = useState<ProviderConfigMap>(providerConfigs);
   
   // APIキーのテスト状態
-  const [keyTests, setKeyTests] = useState<{[key: string]: 'idle' | 'testing' | 'success' | 'error'}>({
-    openai: 'idle',
-    claude: 'idle'
-  });
+  const [keyTests, setKeyTests] = useState<{[providerId: string]: ApiKeyTestStatus}>({});
   
   // 保存状態
   const [isSaving, setIsSaving] = useState(false);
@@ -47,61 +71,60 @@ export const SettingsApi: React.FC = () => {
    * コンポーネントマウント時にフォームデータを初期化
    */
   useEffect(() => {
-    setFormData({
-      openaiKey: apiKeys.openaiKey || '',
-      claudeKey: apiKeys.claudeKey || ''
-    });
+    setFormData(toFormData(apiKeys));
   }, [apiKeys]);
 
   /**
    * APIキーの入力値を更新
    */
-  const updateFormData = (provider: 'openaiKey' | 'claudeKey', value: string) => {
+  const updateFormData = (field: string, value: string) => {
     setFormData(prev => ({
       ...prev,
-      [provider]: value
+      [field]: value
     }));
   };
 
   /**
-   * キーの表示/非表示を切り替え
+   * 接続設定の入力値を更新
    */
-  const toggleKeyVisibility = (provider: 'openai' | 'claude') => {
-    setShowKeys(prev => ({
+  const updateConfigForm = (providerId: string, key: string, value: string) => {
+    setConfigForm(prev => ({
       ...prev,
-      [provider]: !prev[provider]
+      [providerId]: { ...prev[providerId], [key]: value }
     }));
   };
 
   /**
-   * APIキーのテスト
+   * APIキー（APIキー不要のプロバイダーは接続設定）のテスト
    */
-  const testApiKey = async (provider: AIProvider) => {
-    const keyField = provider === 'openai' ? 'openaiKey' : 'claudeKey';
-    const key = formData[keyField];
+  const testApiKey = async (provider: AIProviderDefinition) => {
+    const key = provider.apiKey ? formData[provider.apiKey.field] || '' : '';
     
-    if (!key.trim()) {
+    if (provider.apiKey && !key.trim()) {
       return;
     }
     
-    setKeyTests(prev => ({ ...prev, [provider]: 'testing' }));
+    setKeyTests(prev => ({ ...prev, [provider.id]: 'testing' }));
     
     try {
-      const isValid = await aiService.testApiConnection(provider, key);
+      const isValid = await aiService.testApiConnection(provider.id, key, configForm[provider.id]);
       setKeyTests(prev => ({ 
         ...prev, 
-        [provider]: isValid ? 'success' : 'error' 
+        [provider.id]: isValid ? 'success' : 'error' 
       }));
-    } catch (error) {
-      setKeyTests(prev => ({ ...prev, [provider]: 'error' }));
+    } catch {
+      setKeyTests(prev => ({ ...prev, [provider.id]: 'error' }));
     }
   };
 
   /**
    * APIキーの削除
    */
-  const deleteApiKey = async (provider: 'openai' | 'claude') => {
-    const keyField = provider === 'openai' ? 'openaiKey' : 'claudeKey';
+  const deleteApiKey = async (provider: AIProviderDefinition) => {
+    if (!provider.apiKey) {
+      return;
+    }
+    const keyField = provider.apiKey.field;
     
     setFormData(prev => ({
       ...prev,
@@ -114,8 +137,8 @@ export const SettingsApi: React.FC = () => {
       [keyField]: undefined
     });
     
-    setKeyTests(prev => ({ ...prev, [provider]: 'idle' }));
-    setSaveMessage(`${provider === 'openai' ? 'OpenAI' : 'Claude'}のAPIキーを削除しました`);
+    setKeyTests(prev => ({ ...prev, [provider.id]: 'idle' }));
+    setSaveMessage(`${provider.label}のAPIキーを削除しました`);
     setTimeout(() => setSaveMessage(''), 3000);
   };
 
@@ -127,14 +150,17 @@ export const SettingsApi: React.FC = () => {
     setSaveMessage('');
     
     try {
-      await updateApiKeys({
-        openaiKey: formData.openaiKey.trim() || undefined,
-        claudeKey: formData.claudeKey.trim() || undefined
-      });
+      const nextApiKeys: ApiKeyConfig = { ...apiKeys };
+      for (const { apiKey } of keyProviders) {
+        if (apiKey) {
+          nextApiKeys[apiKey.field] = formData[apiKey.field]?.trim() || undefined;
+        }
+      }
+      await updateApiKeys(nextApiKeys);
       
       setSaveMessage('APIキーを保存しました');
       setTimeout(() => setSaveMessage(''), 3000);
-    } catch (error) {
+    } catch {
       setSaveMessage('保存に失敗しました');
     } finally {
       setIsSaving(false);
@@ -142,26 +168,33 @@ export const SettingsApi: React.FC = () => {
   };
 
   /**
-   * 戻るボタンの処理
+   * モデル・接続設定を保存
+   * 生成パラメーターがモデルの対応範囲外の場合は保存しない
    */
-  const handleBack = () => {
-    setCurrentView('home');
+  const handleSaveConfig = (provider: AIProviderDefinition) => {
+    const config = configForm[provider.id] || {};
+    if (providerRegistry.validateGenerationSettings(provider.id, config).length > 0) {
+      setSaveMessage(`${provider.label}の設定に誤りがあるため保存に失敗しました`);
+      setTimeout(() => setSaveMessage(''), 3000);
+      return;
+    }
+    
+    const keys = [...(provider.configFields || []).map(field => field.key), ...GENERATION_CONFIG_KEYS];
+    const trimmed: ProviderConfig = {};
+    for (const key of keys) {
+      trimmed[key] = config[key]?.trim() || undefined;
+    }
+    updateProviderConfig(provider.id, trimmed);
+    
+    setSaveMessage(`${provider.label}の設定を保存しました`);
+    setTimeout(() => setSaveMessage(''), 3000);
   };
 
   /**
-   * テスト状態に応じたアイコンを返す
+   * 戻るボタンの処理
    */
-  const getTestIcon = (status: typeof keyTests[string]) => {
-    switch (status) {
-      case 'testing':
-        return <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>;
-      case 'success':
-        return <span className="text-green-500">✅</span>;
-      case 'error':
-        return <span className="text-red-500">❌</span>;
-      default:
-        return null;
-    }
+  const handleBack = () => {
+    setCurrentView('home');
   };
 
   return (
@@ -191,33 +224,83 @@ export const SettingsApi: React.FC = () => {
       <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
         <h3 className="font-semibold text-gray-900 mb-3">優先AIプロバイダー</h3>
         <div className="space-y-2">
-          <label className="flex items-center space-x-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50">
-            <input
-              type="radio"
-              name="provider"
-              value="openai"
-              checked={preferredProvider === 'openai'}
-              onChange={(e) => setPreferredProvider(e.target.value as AIProvider)}
-              className="text-blue-600"
-            />
-            <div className="flex-1">
-              <p className="font-medium text-gray-900">OpenAI GPT-4</p>
-              <p className="text-sm text-gray-600">OpenAI APIを使用</p>
-            </div>
-          </label>
-          
-          <label className="flex items-center space-x-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50">
+          {providers.map((provider) => (
+            <label
+              key={provider.id}
+              className="flex items-center space-x-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50"
+            >
+              <input
+                type="radio"
+                name="provider"
+                value={provider.id}
+                checked={preferredProvider === provider.id}
+                onChange={(e) => setPreferredProvider(e.target.value as AIProvider)}
+                className="text-blue-600"
+              />
+              <div className="flex-1">
+                <p className="font-medium text-gray-900">{provider.label}</p>
+                <p className="text-sm text-gray-600">{provider.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* エラー時の再試行・フェイルオーバー */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <h3 className="font-semibold text-gray-900 mb-4">エラー時の再試行</h3>
+        
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              再試行回数
+            </label>
+            <select
+              value={retrySettings.maxRetries}
+              onChange={(e) => updateRetrySettings({ maxRetries: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+            >
+              {RETRY_COUNT_OPTIONS.map((count) => (
+                <option key={count} value={count}>
+                  {count === 0 ? '再試行しない' : `${count}回`}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              利用制限や一時的な障害で失敗した場合に、待機時間を倍にしながら再試行します（サーバーから待機時間が指定された場合はそれに従います）
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              初回の待機時間
+            </label>
+            <select
+              value={retrySettings.baseDelayMs}
+              onChange={(e) => updateRetrySettings({ baseDelayMs: Number(e.target.value) })}
+              disabled={retrySettings.maxRetries === 0}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white disabled:opacity-50"
+            >
+              {RETRY_DELAY_OPTIONS.map((delay) => (
+                <option key={delay} value={delay}>
+                  {delay / 1000}秒
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-start space-x-3 cursor-pointer">
             <input
-              type="radio"
-              name="provider"
-              value="claude"
-              checked={preferredProvider === 'claude'}
-              onChange={(e) => setPreferredProvider(e.target.value as AIProvider)}
-              className="text-blue-600"
+              type="checkbox"
+              checked={retrySettings.failover}
+              onChange={(e) => updateRetrySettings({ failover: e.target.checked })}
+              className="mt-1 text-blue-600"
             />
-            <div className="flex-1">
-              <p className="font-medium text-gray-900">Claude</p>
-              <p className="text-sm text-gray-600">Anthropic Claude APIを使用</p>
+            <div>
+              <p className="text-sm font-medium text-gray-900">他のプロバイダーに切り替える</p>
+              <p className="text-xs text-gray-500">
+                優先プロバイダーで生成できなかった場合、APIキーを設定済みの他のプロバイダーで生成します
+              </p>
             </div>
           </label>
         </div>
@@ -228,107 +311,17 @@ export const SettingsApi: React.FC = () => {
         <h3 className="font-semibold text-gray-900 mb-4">APIキー設定</h3>
         
         <div className="space-y-6">
-          {/* OpenAI APIキー */}
-          <div>
-            <div className="flex items-center justify-between mb-2">
-              <label className="text-sm font-medium text-gray-700">
-                OpenAI APIキー
-              </label>
-              {formData.openaiKey && (
-                <button
-                  onClick={() => deleteApiKey('openai')}
-                  className="text-sm text-red-600 hover:text-red-800"
-                >
-                  削除
-                </button>
-              )}
-            </div>
-            <div className="relative">
-              <input
-                type={showKeys.openai ? 'text' : 'password'}
-                value={formData.openaiKey}
-                onChange={(e) => updateFormData('openaiKey', e.target.value)}
-                placeholder="sk-..."
-                className="w-full px-3 py-2 pr-20 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-              <div className="absolute inset-y-0 right-0 flex items-center pr-3 space-x-1">
-                {getTestIcon(keyTests.openai)}
-                <button
-                  type="button"
-                  onClick={() => toggleKeyVisibility('openai')}
-                  className="text-gray-400 hover:text-gray-600"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    {showKeys.openai ? (
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.878 9.878L3 3m6.878 6.878L21 21" />
-                    ) : (
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                    )}
-                  </svg>
-                </button>
-              </div>
-            </div>
-            {formData.openaiKey.trim() && (
-              <button
-                onClick={() => testApiKey('openai')}
-                disabled={keyTests.openai === 'testing'}
-                className="mt-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
-              >
-                接続をテスト
-              </button>
-            )}
-          </div>
-
-          {/* Claude APIキー */}
-          <div>
-            <div className="flex items-center justify-between mb-2">
-              <label className="text-sm font-medium text-gray-700">
-                Claude APIキー
-              </label>
-              {formData.claudeKey && (
-                <button
-                  onClick={() => deleteApiKey('claude')}
-                  className="text-sm text-red-600 hover:text-red-800"
-                >
-                  削除
-                </button>
-              )}
-            </div>
-            <div className="relative">
-              <input
-                type={showKeys.claude ? 'text' : 'password'}
-                value={formData.claudeKey}
-                onChange={(e) => updateFormData('claudeKey', e.target.value)}
-                placeholder="sk-ant-..."
-                className="w-full px-3 py-2 pr-20 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-              <div className="absolute inset-y-0 right-0 flex items-center pr-3 space-x-1">
-                {getTestIcon(keyTests.claude)}
-                <button
-                  type="button"
-                  onClick={() => toggleKeyVisibility('claude')}
-                  className="text-gray-400 hover:text-gray-600"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    {showKeys.claude ? (
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.878 9.878L3 3m6.878 6.878L21 21" />
-                    ) : (
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                    )}
-                  </svg>
-                </button>
-              </div>
-            </div>
-            {formData.claudeKey.trim() && (
-              <button
-                onClick={() => testApiKey('claude')}
-                disabled={keyTests.claude === 'testing'}
-                className="mt-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
-              >
-                接続をテスト
-              </button>
-            )}
-          </div>
+          {keyProviders.map((provider) => provider.apiKey && (
+            <ProviderApiKeyField
+              key={provider.id}
+              apiKey={provider.apiKey}
+              value={formData[provider.apiKey.field] || ''}
+              testStatus={keyTests[provider.id] || 'idle'}
+              onChange={(value) => updateFormData(provider.apiKey!.field, value)}
+              onTest={() => testApiKey(provider)}
+              onDelete={() => deleteApiKey(provider)}
+            />
+          ))}
         </div>
 
         {/* 保存ボタン */}
@@ -341,12 +334,55 @@ export const SettingsApi: React.FC = () => {
         </button>
       </div>
 
+      {/* モデル・接続設定（モデル、生成パラメーター、ベースURLなど） */}
+      {providers.map((provider) => (
+        <div key={provider.id} className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold text-gray-900">{provider.label}の設定</h3>
+            {!provider.apiKey && <ConnectionTestIcon status={keyTests[provider.id] || 'idle'} />}
+          </div>
+          
+          <div className="space-y-4">
+            {!!provider.configFields?.length && (
+              <ProviderConfigFields
+                provider={provider}
+                config={configForm[provider.id] || {}}
+                onChange={(key, value) => updateConfigForm(provider.id, key, value)}
+              />
+            )}
+            <ProviderGenerationFields
+              provider={provider}
+              config={configForm[provider.id] || {}}
+              onChange={(key, value) => updateConfigForm(provider.id, key, value)}
+            />
+          </div>
+
+          {!provider.apiKey && (
+            <button
+              onClick={() => testApiKey(provider)}
+              disabled={keyTests[provider.id] === 'testing'}
+              className="mt-3 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              接続をテスト
+            </button>
+          )}
+
+          <button
+            onClick={() => handleSaveConfig(provider)}
+            className="w-full mt-4 bg-blue-500 hover:bg-blue-600 text-white py-2 px-4 rounded-lg transition-colors"
+          >
+            設定を保存
+          </button>
+        </div>
+      ))}
+
       {/* APIキー取得方法の説明 */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h4 className="text-sm font-medium text-blue-900 mb-2">APIキーの取得方法</h4>
         <div className="text-sm text-blue-700 space-y-1">
-          <p><strong>OpenAI:</strong> <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="underline">platform.openai.com</a> でアカウント作成後、APIキーを生成</p>
-          <p><strong>Claude:</strong> <a href="https://console.anthropic.com/" target="_blank" rel="noopener noreferrer" className="underline">console.anthropic.com</a> でアカウント作成後、APIキーを生成</p>
+          {providers.map(({ id, label, apiKey }) => apiKey?.help && (
+            <p key={id}><strong>{label}:</strong> <a href={apiKey.help.url} target="_blank" rel="noopener noreferrer" className="underline">{apiKey.help.linkText}</a> {apiKey.help.text}</p>
+          ))}
         </div>
       </div>
     </div>
@@ -11,7 +11,7 @@ import { useAppStore } from '../store';
  * 献立データのエクスポート・インポート機能を管理
  */
 export const SettingsData: React.FC = () => {
-  const { exportData, importData, setCurrentView, menuHistory } = useAppStore();
+  const { exportData, importData, setCurrentView, menuCount, adoptedMenuCount } = useAppStore();
   
   // インポート用のファイル入力ref
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -133,12 +133,12 @@ export const SettingsData: React.FC = () => {
         <h3 className="font-semibold text-gray-900 mb-3">保存データ統計</h3>
         <div className="grid grid-cols-2 gap-4">
           <div className="text-center">
-            <p className="text-2xl font-bold text-blue-600">{menuHistory.length}</p>
+            <p className="text-2xl font-bold text-blue-600">{menuCount}</p>
             <p className="text-sm text-gray-500">保存済み献立</p>
           </div>
           <div className="text-center">
             <p className="text-2xl font-bold text-green-600">
-              {menuHistory.filter(menu => menu.isAdopted === true).length}
+              {adoptedMenuCount}
             </p>
             <p className="text-sm text-gray-500">採用済み献立</p>
           </div>
@@ -153,7 +153,7 @@ export const SettingsData: React.FC = () => {
         </p>
         <button
           onClick={handleExport}
-          disabled={isExporting || menuHistory.length === 0}
+          disabled={isExporting || menuCount === 0}
           className="w-full bg-green-500 hover:bg-green-600 text-white py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
         >
           {isExporting ? (
@@ -170,7 +170,7 @@ export const SettingsData: React.FC = () => {
             </>
           )}
         </button>
-        {menuHistory.length === 0 && (
+        {menuCount === 0 && (
           <p className="text-xs text-gray-500 mt-2 text-center">
             エクスポートできるデータがありません
           </p>
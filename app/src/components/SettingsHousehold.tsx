@@ -0,0 +1,430 @@
+/**
+ * 家族構成設定画面コンポーネント
+ * 献立作成時に人数構成として選ぶ家族構成プロファイルの編集
+ */
+
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { useAppStore } from '../store';
+import type { AgeGroup, AppetiteLevel, HouseholdMember, HouseholdProfile } from '../types';
+import { AGE_GROUP_OPTIONS, APPETITE_OPTIONS } from '../types';
+import { createHouseholdMember, describeHousehold, splitListInput } from '../utils/household';
+import { MAJOR_ALLERGENS } from '../utils/allergenChecker';
+
+// 編集中のメンバー（一覧項目は「、」区切りの文字列で編集する）
+interface MemberDraft extends Omit<HouseholdMember, 'allergies' | 'dislikes' | 'restrictions'> {
+  allergies: string;
+  dislikes: string;
+  restrictions: string;
+}
+
+// 編集中のプロファイル（idがない場合は新規作成）
+interface ProfileDraft {
+  id?: string;
+  name: string;
+  members: MemberDraft[];
+}
+
+/**
+ * メンバーを編集用の値に変換
+ */
+const toMemberDraft = (member: HouseholdMember): MemberDraft => ({
+  ...member,
+  allergies: member.allergies.join('、'),
+  dislikes: member.dislikes.join('、'),
+  restrictions: member.restrictions.join('、')
+});
+
+/**
+ * 編集用の値をメンバーに変換
+ */
+const fromMemberDraft = (draft: MemberDraft): HouseholdMember => ({
+  ...draft,
+  name: draft.name.trim(),
+  allergies: splitListInput(draft.allergies),
+  dislikes: splitListInput(draft.dislikes),
+  restrictions: splitListInput(draft.restrictions)
+});
+
+/**
+ * 新しいプロファイルの初期値
+ */
+const createDraft = (): ProfileDraft => ({
+  name: '',
+  members: [toMemberDraft(createHouseholdMember())]
+});
+
+/**
+ * 家族構成設定画面コンポーネント
+ * プロファイルの一覧・メンバーの編集フォーム・プロンプトへの展開例を表示
+ */
+export const SettingsHousehold: React.FC = () => {
+  const {
+    householdProfiles,
+    allergenCheckMode,
+    saveHouseholdProfile,
+    deleteHouseholdProfile,
+    setAllergenCheckMode,
+    setCurrentView
+  } = useAppStore();
+
+  // 編集中のプロファイル
+  const [draft, setDraft] = useState<ProfileDraft>(() =>
+    householdProfiles[0]
+      ? { id: householdProfiles[0].id, name: householdProfiles[0].name, members: householdProfiles[0].members.map(toMemberDraft) }
+      : createDraft()
+  );
+
+  // 保存メッセージ
+  const [saveMessage, setSaveMessage] = useState('');
+
+  // プロンプトへの展開例
+  const preview = describeHousehold({
+    id: draft.id ?? 'preview',
+    name: draft.name || '（名前未入力）',
+    members: draft.members.map(fromMemberDraft),
+    updatedAt: ''
+  });
+
+  /**
+   * 保存メッセージを一定時間表示
+   */
+  const showMessage = (message: string) => {
+    setSaveMessage(message);
+    setTimeout(() => setSaveMessage(''), 3000);
+  };
+
+  /**
+   * 編集するプロファイルを選択
+   */
+  const selectProfile = (profile: HouseholdProfile) => {
+    setDraft({ id: profile.id, name: profile.name, members: profile.members.map(toMemberDraft) });
+  };
+
+  /**
+   * メンバーの項目を更新
+   */
+  const updateMember = (index: number, changes: Partial<MemberDraft>) => {
+    setDraft(prev => ({
+      ...prev,
+      members: prev.members.map((member, i) => i === index ? { ...member, ...changes } : member)
+    }));
+  };
+
+  /**
+   * 特定原材料をアレルギーに追加（登録済みの場合は何もしない）
+   */
+  const addAllergen = (index: number, allergen: string) => {
+    const allergies = splitListInput(draft.members[index].allergies);
+    if (!allergies.includes(allergen)) {
+      updateMember(index, { allergies: [...allergies, allergen].join('、') });
+    }
+  };
+
+  /**
+   * メンバーを追加
+   */
+  const addMember = () => {
+    setDraft(prev => ({ ...prev, members: [...prev.members, toMemberDraft(createHouseholdMember())] }));
+  };
+
+  /**
+   * メンバーを削除（最低1人は残す）
+   */
+  const removeMember = (index: number) => {
+    setDraft(prev => prev.members.length > 1
+      ? { ...prev, members: prev.members.filter((_, i) => i !== index) }
+      : prev);
+  };
+
+  /**
+   * プロファイルを保存
+   */
+  const handleSave = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      showMessage('家族構成の名前を入力してください（保存に失敗しました）');
+      return;
+    }
+    if (householdProfiles.some(profile => profile.name === name && profile.id !== draft.id)) {
+      showMessage('同じ名前の家族構成があります（保存に失敗しました）');
+      return;
+    }
+
+    const id = draft.id ?? uuidv4();
+    saveHouseholdProfile({ id, name, members: draft.members.map(fromMemberDraft), updatedAt: '' });
+    setDraft(prev => ({ ...prev, id, name }));
+    showMessage('家族構成を保存しました');
+  };
+
+  /**
+   * プロファイルを削除
+   */
+  const handleDelete = () => {
+    if (!draft.id || !window.confirm(`「${draft.name}」を削除しますか？`)) {
+      return;
+    }
+
+    deleteHouseholdProfile(draft.id);
+    const next = householdProfiles.find(profile => profile.id !== draft.id);
+    setDraft(next ? { id: next.id, name: next.name, members: next.members.map(toMemberDraft) } : createDraft());
+    showMessage('家族構成を削除しました');
+  };
+
+  /**
+   * 戻るボタンの処理
+   */
+  const handleBack = () => {
+    setCurrentView('home');
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* ヘッダー */}
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={handleBack}
+          className="p-2 text-gray-600 hover:text-gray-900 transition-colors"
+          aria-label="戻る"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h2 className="text-xl font-bold text-gray-900">家族構成</h2>
+      </div>
+
+      {/* 保存メッセージ */}
+      {saveMessage && (
+        <div className={`p-3 rounded-lg ${saveMessage.includes('失敗') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+          {saveMessage}
+        </div>
+      )}
+
+      {/* プロファイル一覧 */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-gray-900">登録済みの家族構成</h3>
+          <button
+            onClick={() => setDraft(createDraft())}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            ＋ 新規作成
+          </button>
+        </div>
+        {householdProfiles.length === 0 ? (
+          <p className="text-sm text-gray-500">まだ登録されていません</p>
+        ) : (
+          <div className="space-y-2">
+            {householdProfiles.map((profile) => (
+              <button
+                key={profile.id}
+                onClick={() => selectProfile(profile)}
+                className={`w-full text-left p-3 rounded-lg border ${
+                  profile.id === draft.id ? 'border-blue-400 bg-blue-50' : 'border-gray-200'
+                }`}
+              >
+                <p className="font-medium text-gray-900">{profile.name}</p>
+                <p className="text-xs text-gray-500">{profile.members.length}人</p>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* プロファイル編集 */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <h3 className="font-semibold text-gray-900 mb-4">
+          {draft.id ? `「${householdProfiles.find(profile => profile.id === draft.id)?.name ?? draft.name}」を編集` : '新しい家族構成'}
+        </h3>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              名前（献立作成画面に表示されます）
+            </label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="例: 夫婦＋中高生3人"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {/* メンバー */}
+          {draft.members.map((member, index) => (
+            <div key={member.id} className="p-3 bg-gray-50 rounded-lg space-y-3">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={member.name}
+                  onChange={(e) => updateMember(index, { name: e.target.value })}
+                  placeholder={`メンバー${index + 1}（父、長男など）`}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                {draft.members.length > 1 && (
+                  <button
+                    onClick={() => removeMember(index)}
+                    className="text-red-500 hover:text-red-700 p-1"
+                    aria-label={`${member.name || `メンバー${index + 1}`}を削除`}
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">年齢層</label>
+                  <select
+                    value={member.ageGroup}
+                    onChange={(e) => updateMember(index, { ageGroup: e.target.value as AgeGroup })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {AGE_GROUP_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">食べる量</label>
+                  <select
+                    value={member.appetite}
+                    onChange={(e) => updateMember(index, { appetite: e.target.value as AppetiteLevel })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {APPETITE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">アレルギー（必ず除外）</label>
+                <input
+                  type="text"
+                  value={member.allergies}
+                  onChange={(e) => updateMember(index, { allergies: e.target.value })}
+                  placeholder="例: えび、かに、卵"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {MAJOR_ALLERGENS.map(allergen => (
+                    <button
+                      key={allergen}
+                      onClick={() => addAllergen(index, allergen)}
+                      className="px-2 py-0.5 rounded-full text-xs bg-white border border-gray-300 text-gray-600 hover:bg-gray-100"
+                    >
+                      ＋{allergen}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">苦手な食材（なるべく避ける）</label>
+                <input
+                  type="text"
+                  value={member.dislikes}
+                  onChange={(e) => updateMember(index, { dislikes: e.target.value })}
+                  placeholder="例: ピーマン、セロリ"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">食事制限</label>
+                <input
+                  type="text"
+                  value={member.restrictions}
+                  onChange={(e) => updateMember(index, { restrictions: e.target.value })}
+                  placeholder="例: 減塩、ベジタリアン"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={addMember}
+            className="flex items-center space-x-2 text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg>
+            <span className="text-sm">メンバーを追加</span>
+          </button>
+          <p className="text-xs text-gray-500">複数の食材は「、」で区切って入力してください</p>
+        </div>
+
+        <div className="flex space-x-3 mt-6">
+          <button
+            onClick={handleSave}
+            className="flex-1 bg-blue-500 hover:bg-blue-600 text-white py-2 px-4 rounded-lg transition-colors"
+          >
+            保存
+          </button>
+          {draft.id && (
+            <button
+              onClick={handleDelete}
+              className="px-4 py-2 text-red-600 hover:text-red-800 transition-colors"
+            >
+              削除
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* アレルギー・苦手食材の確認 */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <h3 className="font-semibold text-gray-900 mb-1">生成後の食材チェック</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          生成された献立の材料・作り方に、登録した食材（別名を含む）が使われていないか確認します
+        </p>
+        <div className="space-y-2">
+          <label className="flex items-start space-x-2">
+            <input
+              type="radio"
+              name="allergenCheckMode"
+              checked={allergenCheckMode === 'warn'}
+              onChange={() => setAllergenCheckMode('warn')}
+              className="mt-1"
+            />
+            <span className="text-sm text-gray-700">警告を表示する</span>
+          </label>
+          <label className="flex items-start space-x-2">
+            <input
+              type="radio"
+              name="allergenCheckMode"
+              checked={allergenCheckMode === 'replace'}
+              onChange={() => setAllergenCheckMode('replace')}
+              className="mt-1"
+            />
+            <span className="text-sm text-gray-700">
+              アレルギー食材を含む献立は自動で別の案に差し替える
+              <span className="block text-xs text-gray-500">苦手な食材は警告のみ表示します</span>
+            </span>
+          </label>
+        </div>
+      </div>
+
+      {/* プロンプトへの展開例 */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <h3 className="font-semibold text-gray-900 mb-2">AIに伝わる内容</h3>
+        <pre className="text-xs text-gray-700 bg-gray-50 rounded-lg p-3 whitespace-pre-wrap">* {preview}</pre>
+      </div>
+
+      {/* 説明 */}
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <h4 className="text-sm font-medium text-blue-900 mb-2">家族構成について</h4>
+        <div className="text-sm text-blue-700 space-y-1">
+          <p>• 献立作成時に人数構成として選択でき、メンバーの条件がAIへの指示に含まれます</p>
+          <p>• 人数は材料の分量を換算する基準になります</p>
+          <p>• 変更しても保存済みの献立には影響しません</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -22,7 +22,7 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({ isOpen, onClose }) =
    * メニュー項目クリック時の処理
    * 対応する設定画面に遷移してメニューを閉じる
    */
-  const handleMenuClick = (view: 'settings-options' | 'settings-api' | 'settings-data' | 'settings-version') => {
+  const handleMenuClick = (view: 'settings-options' | 'settings-api' | 'settings-data' | 'settings-usage' | 'settings-prompts' | 'settings-household' | 'settings-version') => {
     setCurrentView(view);
     onClose();
   };
@@ -51,7 +51,21 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({ isOpen, onClose }) =
             </svg>
             <div>
               <p className="font-medium text-gray-900">選択肢設定</p>
-              <p className="text-sm text-gray-500">テーマ・人数構成の選択肢</p>
+              <p className="text-sm text-gray-500">テーマの選択肢</p>
+            </div>
+          </button>
+
+          {/* 家族構成 */}
+          <button
+            onClick={() => handleMenuClick('settings-household')}
+            className="w-full px-4 py-3 text-left hover:bg-gray-50 transition-colors flex items-center space-x-3"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+            </svg>
+            <div>
+              <p className="font-medium text-gray-900">家族構成</p>
+              <p className="text-sm text-gray-500">人数・アレルギー・苦手な食材</p>
             </div>
           </button>
 
@@ -69,6 +83,20 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({ isOpen, onClose }) =
             </div>
           </button>
 
+          {/* プロンプト設定 */}
+          <button
+            onClick={() => handleMenuClick('settings-prompts')}
+            className="w-full px-4 py-3 text-left hover:bg-gray-50 transition-colors flex items-center space-x-3"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+            <div>
+              <p className="font-medium text-gray-900">プロンプト設定</p>
+              <p className="text-sm text-gray-500">献立生成のテンプレート</p>
+            </div>
+          </button>
+
           {/* データ管理 */}
           <button
             onClick={() => handleMenuClick('settings-data')}
@@ -83,6 +111,20 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({ isOpen, onClose }) =
             </div>
           </button>
 
+          {/* 使用量 */}
+          <button
+            onClick={() => handleMenuClick('settings-usage')}
+            className="w-full px-4 py-3 text-left hover:bg-gray-50 transition-colors flex items-center space-x-3"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+            <div>
+              <p className="font-medium text-gray-900">使用量</p>
+              <p className="text-sm text-gray-500">トークン・推定コスト・予算</p>
+            </div>
+          </button>
+
           {/* 区切り線 */}
           <hr className="my-2 border-gray-200" />
 
@@ -1,6 +1,6 @@
 /**
  * 選択肢設定画面コンポーネント
- * テーマと人数構成の選択肢を管理
+ * テーマの選択肢を管理（人数構成は家族構成画面で管理）
  */
 
 import React, { useState, useEffect } from 'react';
@@ -8,20 +8,17 @@ import { useAppStore } from '../store';
 
 /**
  * 選択肢設定画面コンポーネント
- * テーマと人数構成のカスタム選択肢を設定・管理
+ * テーマのカスタム選択肢を設定・管理
  */
 export const SettingsOptions: React.FC = () => {
   const { setCurrentView } = useAppStore();
   
   // デフォルトの選択肢
   const DEFAULT_THEMES = ['春', '夏', '秋', '冬', 'がっつり', 'あっさり'];
-  const DEFAULT_PEOPLE_PATTERNS = ['夫婦2人', '夫婦＋中高生3人', '中高生3人'];
   
   // フォーム状態
   const [themes, setThemes] = useState<string[]>(DEFAULT_THEMES);
-  const [peoplePatterns, setPeoplePatterns] = useState<string[]>(DEFAULT_PEOPLE_PATTERNS);
   const [newTheme, setNewTheme] = useState('');
-  const [newPeoplePattern, setNewPeoplePattern] = useState('');
   
   // 保存状態
   const [isSaving, setIsSaving] = useState(false);
@@ -39,7 +36,6 @@ export const SettingsOptions: React.FC = () => {
    */
   const loadSavedOptions = () => {
     const savedThemes = localStorage.getItem('customThemes');
-    const savedPeoplePatterns = localStorage.getItem('customPeoplePatterns');
     
     if (savedThemes) {
       try {
@@ -48,14 +44,7 @@ export const SettingsOptions: React.FC = () => {
         console.error('テーマ選択肢の読み込みエラー:', error);
       }
     }
-    
-    if (savedPeoplePatterns) {
-      try {
-        setPeoplePatterns(JSON.parse(savedPeoplePatterns));
-      } catch (error) {
-        console.error('人数構成選択肢の読み込みエラー:', error);
-      }
-    }
+
   };
 
   /**
@@ -67,7 +56,6 @@ export const SettingsOptions: React.FC = () => {
     
     try {
       localStorage.setItem('customThemes', JSON.stringify(themes));
-      localStorage.setItem('customPeoplePatterns', JSON.stringify(peoplePatterns));
       
       setSaveMessage('設定を保存しました');
       setTimeout(() => setSaveMessage(''), 3000);
@@ -96,29 +84,11 @@ export const SettingsOptions: React.FC = () => {
     setThemes(themes.filter((_, i) => i !== index));
   };
 
-  /**
-   * 人数構成の追加
-   */
-  const addPeoplePattern = () => {
-    if (newPeoplePattern.trim() && !peoplePatterns.includes(newPeoplePattern.trim())) {
-      setPeoplePatterns([...peoplePatterns, newPeoplePattern.trim()]);
-      setNewPeoplePattern('');
-    }
-  };
-
-  /**
-   * 人数構成の削除
-   */
-  const removePeoplePattern = (index: number) => {
-    setPeoplePatterns(peoplePatterns.filter((_, i) => i !== index));
-  };
-
   /**
    * デフォルトに戻す
    */
   const resetToDefaults = () => {
     setThemes(DEFAULT_THEMES);
-    setPeoplePatterns(DEFAULT_PEOPLE_PATTERNS);
     setSaveMessage('デフォルト設定に戻しました');
     setTimeout(() => setSaveMessage(''), 3000);
   };
@@ -195,46 +165,18 @@ export const SettingsOptions: React.FC = () => {
         </div>
       </div>
 
-      {/* 人数構成設定 */}
+      {/* 人数構成（家族構成画面へ） */}
       <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
-        <h3 className="font-semibold text-gray-900 mb-4">人数構成選択肢</h3>
-        
-        {/* 現在の人数構成一覧 */}
-        <div className="space-y-2 mb-4">
-          {peoplePatterns.map((pattern, index) => (
-            <div key={index} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
-              <span className="text-gray-900">{pattern}</span>
-              <button
-                onClick={() => removePeoplePattern(index)}
-                className="text-red-500 hover:text-red-700 p-1"
-                aria-label={`${pattern}を削除`}
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                </svg>
-              </button>
-            </div>
-          ))}
-        </div>
-
-        {/* 新しい人数構成追加 */}
-        <div className="flex space-x-2">
-          <input
-            type="text"
-            value={newPeoplePattern}
-            onChange={(e) => setNewPeoplePattern(e.target.value)}
-            placeholder="新しい人数構成を入力"
-            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            onKeyPress={(e) => e.key === 'Enter' && addPeoplePattern()}
-          />
-          <button
-            onClick={addPeoplePattern}
-            disabled={!newPeoplePattern.trim() || peoplePatterns.includes(newPeoplePattern.trim())}
-            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            追加
-          </button>
-        </div>
+        <h3 className="font-semibold text-gray-900 mb-2">人数構成</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          人数構成は、メンバーごとのアレルギーや苦手な食材を含む家族構成として管理します
+        </p>
+        <button
+          onClick={() => setCurrentView('settings-household')}
+          className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+        >
+          家族構成を編集する
+        </button>
       </div>
 
       {/* アクションボタン */}
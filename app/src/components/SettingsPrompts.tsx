@@ -0,0 +1,350 @@
+/**
+ * プロンプト設定画面コンポーネント
+ * 献立生成に使用するプロンプトテンプレートの編集・切り替え
+ */
+
+import React, { useState, useRef } from 'react';
+import { useAppStore } from '../store';
+import type { PromptTemplate } from '../types';
+import { DEFAULT_MENU_COUNT } from '../services/aiService';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  PROMPT_VARIABLES,
+  SAMPLE_FORM_DATA,
+  buildPromptVariables,
+  renderPromptTemplate,
+  findUnknownVariables
+} from '../utils/promptTemplate';
+
+// 編集中のテンプレート（idがない場合は新規作成）
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+/**
+ * テンプレートを編集用の値に変換
+ */
+const toDraft = ({ id, name, systemPrompt, userPrompt }: PromptTemplate): TemplateDraft => ({
+  id,
+  name,
+  systemPrompt,
+  userPrompt
+});
+
+/**
+ * プロンプト設定画面コンポーネント
+ * テンプレートの一覧・編集フォーム・サンプル入力によるプレビューを表示
+ */
+export const SettingsPrompts: React.FC = () => {
+  const {
+    promptTemplates,
+    activePromptTemplateId,
+    savePromptTemplate,
+    deletePromptTemplate,
+    resetPromptTemplate,
+    setActivePromptTemplate,
+    setCurrentView
+  } = useAppStore();
+
+  // 編集中のテンプレート
+  const [draft, setDraft] = useState<TemplateDraft>(() =>
+    toDraft(promptTemplates.find(t => t.id === activePromptTemplateId) ?? DEFAULT_PROMPT_TEMPLATE)
+  );
+
+  // 変数の挿入位置を取得するためのユーザープロンプト入力欄
+  const userPromptRef = useRef<HTMLTextAreaElement>(null);
+
+  // 保存メッセージ
+  const [saveMessage, setSaveMessage] = useState('');
+
+  // プレビュー用にサンプル入力で展開したプロンプト
+  const previewVariables = buildPromptVariables(SAMPLE_FORM_DATA, DEFAULT_MENU_COUNT);
+  const previewSystem = renderPromptTemplate(draft.systemPrompt, previewVariables);
+  const previewUser = renderPromptTemplate(draft.userPrompt, previewVariables);
+
+  // 入力内容の警告
+  const unknownVariables = findUnknownVariables(`${draft.systemPrompt}\n${draft.userPrompt}`);
+  const missingIngredients = !/\{\{\s*ingredients\s*\}\}/.test(draft.userPrompt);
+
+  const editingTemplate = promptTemplates.find(t => t.id === draft.id);
+
+  /**
+   * 保存メッセージを一定時間表示
+   */
+  const showMessage = (message: string) => {
+    setSaveMessage(message);
+    setTimeout(() => setSaveMessage(''), 3000);
+  };
+
+  /**
+   * 編集するテンプレートを選択
+   */
+  const selectTemplate = (template: PromptTemplate) => {
+    setDraft(toDraft(template));
+  };
+
+  /**
+   * 編集中のテンプレートを元に新しいテンプレートを作成
+   */
+  const createTemplate = () => {
+    setDraft({
+      name: `${draft.name}のコピー`,
+      systemPrompt: draft.systemPrompt,
+      userPrompt: draft.userPrompt
+    });
+  };
+
+  /**
+   * カーソル位置に変数を挿入
+   */
+  const insertVariable = (name: string) => {
+    const placeholder = `{{${name}}}`;
+    const textarea = userPromptRef.current;
+    const start = textarea?.selectionStart ?? draft.userPrompt.length;
+    const end = textarea?.selectionEnd ?? draft.userPrompt.length;
+
+    setDraft(prev => ({
+      ...prev,
+      userPrompt: prev.userPrompt.slice(0, start) + placeholder + prev.userPrompt.slice(end)
+    }));
+
+    // 挿入した変数の直後にカーソルを移動
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  /**
+   * テンプレートを保存（既存のテンプレートは版が1つ上がる）
+   */
+  const handleSave = () => {
+    if (!draft.name.trim() || !draft.userPrompt.trim()) {
+      showMessage('テンプレート名とユーザープロンプトを入力してください（保存に失敗しました）');
+      return;
+    }
+
+    const id = savePromptTemplate({ ...draft, name: draft.name.trim() });
+    setDraft(prev => ({ ...prev, id, name: prev.name.trim() }));
+    showMessage('テンプレートを保存しました');
+  };
+
+  /**
+   * テンプレートの内容を既定に戻す
+   */
+  const handleReset = () => {
+    if (!window.confirm('このテンプレートの内容を既定に戻しますか？')) {
+      return;
+    }
+
+    if (draft.id) {
+      resetPromptTemplate(draft.id);
+    }
+    setDraft(prev => ({
+      ...prev,
+      systemPrompt: DEFAULT_PROMPT_TEMPLATE.systemPrompt,
+      userPrompt: DEFAULT_PROMPT_TEMPLATE.userPrompt
+    }));
+    showMessage('既定の内容に戻しました');
+  };
+
+  /**
+   * テンプレートを削除
+   */
+  const handleDelete = () => {
+    if (!draft.id || !window.confirm(`「${draft.name}」を削除しますか？`)) {
+      return;
+    }
+
+    deletePromptTemplate(draft.id);
+    selectTemplate(promptTemplates.find(t => t.id === DEFAULT_PROMPT_TEMPLATE_ID) ?? DEFAULT_PROMPT_TEMPLATE);
+    showMessage('テンプレートを削除しました');
+  };
+
+  /**
+   * 戻るボタンの処理
+   */
+  const handleBack = () => {
+    setCurrentView('home');
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* ヘッダー */}
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={handleBack}
+          className="p-2 text-gray-600 hover:text-gray-900 transition-colors"
+          aria-label="戻る"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h2 className="text-xl font-bold text-gray-900">プロンプト設定</h2>
+      </div>
+
+      {/* 保存メッセージ */}
+      {saveMessage && (
+        <div className={`p-3 rounded-lg ${saveMessage.includes('失敗') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+          {saveMessage}
+        </div>
+      )}
+
+      {/* テンプレート一覧 */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-gray-900">テンプレート</h3>
+          <button
+            onClick={createTemplate}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            ＋ 新規作成
+          </button>
+        </div>
+        <div className="space-y-2">
+          {promptTemplates.map((template) => (
+            <div
+              key={template.id}
+              className={`flex items-center space-x-3 p-3 rounded-lg border ${
+                template.id === draft.id ? 'border-blue-400 bg-blue-50' : 'border-gray-200'
+              }`}
+            >
+              <input
+                type="radio"
+                name="activeTemplate"
+                checked={template.id === activePromptTemplateId}
+                onChange={() => setActivePromptTemplate(template.id)}
+                aria-label={`${template.name}を使用する`}
+                className="text-blue-600"
+              />
+              <button
+                onClick={() => selectTemplate(template)}
+                className="flex-1 text-left"
+              >
+                <p className="font-medium text-gray-900">{template.name}</p>
+                <p className="text-xs text-gray-500">
+                  版 {template.version}
+                  {template.id === activePromptTemplateId && ' ・ 使用中'}
+                </p>
+              </button>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          ラジオボタンで献立生成に使用するテンプレートを選び、名前をタップすると編集できます
+        </p>
+      </div>
+
+      {/* テンプレート編集 */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <h3 className="font-semibold text-gray-900 mb-4">
+          {editingTemplate ? `「${editingTemplate.name}」を編集（版 ${editingTemplate.version}）` : '新しいテンプレート'}
+        </h3>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              テンプレート名
+            </label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              システムプロンプト
+            </label>
+            <textarea
+              value={draft.systemPrompt}
+              onChange={(e) => setDraft(prev => ({ ...prev, systemPrompt: e.target.value }))}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              ユーザープロンプト
+            </label>
+            <textarea
+              ref={userPromptRef}
+              value={draft.userPrompt}
+              onChange={(e) => setDraft(prev => ({ ...prev, userPrompt: e.target.value }))}
+              rows={12}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm font-mono"
+            />
+            <div className="flex flex-wrap gap-2 mt-2">
+              {PROMPT_VARIABLES.map((variable) => (
+                <button
+                  key={variable.name}
+                  onClick={() => insertVariable(variable.name)}
+                  title={variable.description}
+                  className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded font-mono"
+                >
+                  {`{{${variable.name}}}`}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              変数をタップするとカーソル位置に挿入します。応答形式（JSON）の指定は自動で追加されます。
+            </p>
+          </div>
+
+          {/* 入力内容の警告 */}
+          {(unknownVariables.length > 0 || missingIngredients) && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 space-y-1">
+              {missingIngredients && <p>ユーザープロンプトに {'{{ingredients}}'} が含まれていません。入力した食材がAIに伝わりません。</p>}
+              {unknownVariables.length > 0 && (
+                <p>未定義の変数があります（そのまま送信されます）: {unknownVariables.map(name => `{{${name}}}`).join(', ')}</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex space-x-3 mt-6">
+          <button
+            onClick={handleSave}
+            className="flex-1 bg-blue-500 hover:bg-blue-600 text-white py-2 px-4 rounded-lg transition-colors"
+          >
+            保存
+          </button>
+          <button
+            onClick={handleReset}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            既定に戻す
+          </button>
+          {draft.id && draft.id !== DEFAULT_PROMPT_TEMPLATE_ID && (
+            <button
+              onClick={handleDelete}
+              className="px-4 py-2 text-red-600 hover:text-red-800 transition-colors"
+            >
+              削除
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* プレビュー */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <h3 className="font-semibold text-gray-900 mb-1">プレビュー</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          サンプル入力（食材: {SAMPLE_FORM_DATA.ingredients.join('、')} / テーマ: {SAMPLE_FORM_DATA.theme.join('、')} / 人数構成: {SAMPLE_FORM_DATA.peoplePattern}）で展開した内容
+        </p>
+        <p className="text-xs font-medium text-gray-700 mb-1">システム</p>
+        <pre className="p-3 bg-gray-50 rounded-lg text-xs text-gray-800 whitespace-pre-wrap break-words mb-3">{previewSystem}</pre>
+        <p className="text-xs font-medium text-gray-700 mb-1">ユーザー</p>
+        <pre className="p-3 bg-gray-50 rounded-lg text-xs text-gray-800 whitespace-pre-wrap break-words">{previewUser}</pre>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,360 @@
+/**
+ * 使用量画面コンポーネント
+ * AI APIのトークン使用量と推定コストの集計、月間予算と料金表の設定
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useAppStore } from '../store';
+import type { UsageRecord, PriceTable } from '../types';
+import { databaseService } from '../services/database';
+import { providerRegistry } from '../services/providers';
+import { DEFAULT_PRICE_TABLE, summarizeUsage, getMonthStart, toMonthKey, formatCost } from '../utils/usage';
+import type { UsageSummary } from '../utils/usage';
+
+// 月別集計で表示する月数
+const MONTHS_TO_SHOW = 12;
+
+// 料金表の入力値（入力途中の文字列を保持する）
+interface PriceForm {
+  [model: string]: { input: string; output: string };
+}
+
+/**
+ * 料金表をフォーム入力用の値に変換
+ * 登録済みプロバイダーのモデルは料金表になくても入力欄を用意する
+ */
+const toPriceForm = (priceTable: PriceTable): PriceForm => {
+  const models = new Set([
+    ...Object.keys(priceTable),
+    ...providerRegistry.list().flatMap(provider => provider.models.map(model => model.id))
+  ]);
+  const form: PriceForm = {};
+  for (const model of models) {
+    form[model] = {
+      input: priceTable[model]?.input.toString() ?? '',
+      output: priceTable[model]?.output.toString() ?? ''
+    };
+  }
+  return form;
+};
+
+/**
+ * トークン数を桁区切りで表示
+ */
+const formatTokens = (tokens: number): string => tokens.toLocaleString('ja-JP');
+
+/**
+ * 集計行コンポーネント
+ */
+const UsageRow: React.FC<{ summary: UsageSummary; label: string }> = ({ summary, label }) => (
+  <div className="flex items-center justify-between py-2 border-b border-gray-100 last:border-b-0">
+    <div>
+      <p className="text-sm font-medium text-gray-900">{label}</p>
+      <p className="text-xs text-gray-500">
+        {summary.requests}回 / 入力 {formatTokens(summary.promptTokens)} / 出力 {formatTokens(summary.completionTokens)}
+        {summary.reasoningTokens > 0 && `（うち推論 ${formatTokens(summary.reasoningTokens)}）`}
+      </p>
+    </div>
+    <span className="text-sm font-semibold text-gray-900">{formatCost(summary.estimatedCost)}</span>
+  </div>
+);
+
+/**
+ * 使用量画面コンポーネント
+ * 今月の日別集計と月別集計を表示し、予算と料金表を設定する
+ */
+export const SettingsUsage: React.FC = () => {
+  const {
+    priceTable,
+    budgetSettings,
+    updatePriceTable,
+    updateBudgetSettings,
+    setCurrentView
+  } = useAppStore();
+
+  // 集計対象の使用量記録
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [isLoadingRecords, setIsLoadingRecords] = useState(true);
+
+  // 予算フォームの状態管理（空欄は予算なし）
+  const [budgetInput, setBudgetInput] = useState(budgetSettings.monthlyBudget?.toString() ?? '');
+  const [budgetAction, setBudgetAction] = useState(budgetSettings.action);
+
+  // 料金表フォームの状態管理
+  const [priceForm, setPriceForm] = useState<PriceForm>(() => toPriceForm(priceTable));
+
+  // 保存メッセージ
+  const [saveMessage, setSaveMessage] = useState('');
+
+  /**
+   * 表示期間の使用量記録を読み込み
+   */
+  useEffect(() => {
+    const now = new Date();
+    const since = new Date(now.getFullYear(), now.getMonth() - (MONTHS_TO_SHOW - 1), 1);
+
+    databaseService.getUsageRecordsSince(since)
+      .then(setRecords)
+      .catch(error => console.error('使用量の読み込みに失敗しました:', error))
+      .finally(() => setIsLoadingRecords(false));
+  }, []);
+
+  // 今月分の日別集計と、月別集計
+  const monthStart = getMonthStart();
+  const dailySummaries = summarizeUsage(records.filter(record => new Date(record.createdAt) >= monthStart), 'day');
+  const monthlySummaries = summarizeUsage(records, 'month');
+  const currentMonth = monthlySummaries.find(summary => summary.period === toMonthKey(monthStart));
+  const spent = currentMonth?.estimatedCost ?? 0;
+  const budget = budgetSettings.monthlyBudget;
+
+  /**
+   * 保存メッセージを一定時間表示
+   */
+  const showMessage = (message: string) => {
+    setSaveMessage(message);
+    setTimeout(() => setSaveMessage(''), 3000);
+  };
+
+  /**
+   * 予算設定を保存
+   */
+  const handleSaveBudget = () => {
+    const trimmed = budgetInput.trim();
+    const value = Number(trimmed);
+    if (trimmed && (!Number.isFinite(value) || value <= 0)) {
+      showMessage('予算は0より大きい金額を入力してください（保存に失敗しました）');
+      return;
+    }
+
+    updateBudgetSettings({
+      monthlyBudget: trimmed ? value : null,
+      action: budgetAction
+    });
+    showMessage('予算設定を保存しました');
+  };
+
+  /**
+   * 料金表の入力値を更新
+   */
+  const updatePriceForm = (model: string, field: 'input' | 'output', value: string) => {
+    setPriceForm(prev => ({
+      ...prev,
+      [model]: { ...prev[model], [field]: value }
+    }));
+  };
+
+  /**
+   * 料金表を保存
+   * 入力・出力の両方が数値のモデルのみ保存する
+   */
+  const handleSavePrices = () => {
+    const nextTable: PriceTable = {};
+    for (const [model, price] of Object.entries(priceForm)) {
+      const input = Number(price.input);
+      const output = Number(price.output);
+      if (price.input.trim() && price.output.trim() && input >= 0 && output >= 0) {
+        nextTable[model] = { input, output };
+      }
+    }
+    updatePriceTable(nextTable);
+    showMessage('料金表を保存しました');
+  };
+
+  /**
+   * 料金表を既定値に戻す
+   */
+  const handleResetPrices = () => {
+    updatePriceTable(DEFAULT_PRICE_TABLE);
+    setPriceForm(toPriceForm(DEFAULT_PRICE_TABLE));
+    showMessage('料金表を既定値に戻しました');
+  };
+
+  /**
+   * 戻るボタンの処理
+   */
+  const handleBack = () => {
+    setCurrentView('home');
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* ヘッダー */}
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={handleBack}
+          className="p-2 text-gray-600 hover:text-gray-900 transition-colors"
+          aria-label="戻る"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h2 className="text-xl font-bold text-gray-900">使用量</h2>
+      </div>
+
+      {/* 保存メッセージ */}
+      {saveMessage && (
+        <div className={`p-3 rounded-lg ${saveMessage.includes('失敗') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+          {saveMessage}
+        </div>
+      )}
+
+      {/* 今月の使用額 */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <h3 className="font-semibold text-gray-900 mb-3">今月の推定コスト</h3>
+        <p className="text-3xl font-bold text-gray-900">{formatCost(spent)}</p>
+        {budget !== null && (
+          <div className="mt-3">
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${spent >= budget ? 'bg-red-500' : spent >= budget * 0.8 ? 'bg-orange-400' : 'bg-blue-500'}`}
+                style={{ width: `${Math.min(100, spent / budget * 100)}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">予算 {formatCost(budget)} のうち {Math.round(spent / budget * 100)}%</p>
+          </div>
+        )}
+        <p className="text-xs text-gray-500 mt-3">
+          料金表をもとにした推定値です。実際の請求額は各サービスの管理画面で確認してください。
+        </p>
+      </div>
+
+      {/* 今月の日別集計 */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <h3 className="font-semibold text-gray-900 mb-2">日別（今月）</h3>
+        {isLoadingRecords ? (
+          <p className="text-sm text-gray-500">読み込み中...</p>
+        ) : dailySummaries.length === 0 ? (
+          <p className="text-sm text-gray-500">今月の使用記録はありません</p>
+        ) : (
+          dailySummaries.map(summary => (
+            <UsageRow key={summary.period} summary={summary} label={summary.period} />
+          ))
+        )}
+      </div>
+
+      {/* 月別集計 */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <h3 className="font-semibold text-gray-900 mb-2">月別（過去{MONTHS_TO_SHOW}か月）</h3>
+        {isLoadingRecords ? (
+          <p className="text-sm text-gray-500">読み込み中...</p>
+        ) : monthlySummaries.length === 0 ? (
+          <p className="text-sm text-gray-500">使用記録はありません</p>
+        ) : (
+          monthlySummaries.map(summary => (
+            <UsageRow key={summary.period} summary={summary} label={summary.period} />
+          ))
+        )}
+      </div>
+
+      {/* 月間予算 */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <h3 className="font-semibold text-gray-900 mb-4">月間予算</h3>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              予算（USD）
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              placeholder="未設定（制限なし）"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">予算を超える見込みのとき</p>
+            <label className="flex items-center space-x-3 cursor-pointer">
+              <input
+                type="radio"
+                name="budgetAction"
+                checked={budgetAction === 'warn'}
+                onChange={() => setBudgetAction('warn')}
+                className="text-blue-600"
+              />
+              <span className="text-sm text-gray-900">警告を表示して生成する</span>
+            </label>
+            <label className="flex items-center space-x-3 cursor-pointer">
+              <input
+                type="radio"
+                name="budgetAction"
+                checked={budgetAction === 'block'}
+                onChange={() => setBudgetAction('block')}
+                className="text-blue-600"
+              />
+              <span className="text-sm text-gray-900">生成を停止する</span>
+            </label>
+            <p className="text-xs text-gray-500">
+              今月の使用額に1回あたりの平均額を加えた見込み額で判定します。予算の80%を超える見込みの場合も警告を表示します。
+            </p>
+          </div>
+        </div>
+
+        <button
+          onClick={handleSaveBudget}
+          className="w-full mt-4 bg-blue-500 hover:bg-blue-600 text-white py-2 px-4 rounded-lg transition-colors"
+        >
+          予算を保存
+        </button>
+      </div>
+
+      {/* 料金表 */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-900">料金表（USD / 100万トークン）</h3>
+          <button
+            onClick={handleResetPrices}
+            className="text-sm text-gray-600 hover:text-gray-800"
+          >
+            既定値に戻す
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {Object.entries(priceForm).map(([model, price]) => (
+            <div key={model}>
+              <p className="text-sm font-medium text-gray-700 mb-2">{model}</p>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={price.input}
+                  onChange={(e) => updatePriceForm(model, 'input', e.target.value)}
+                  placeholder="入力"
+                  aria-label={`${model}の入力料金`}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={price.output}
+                  onChange={(e) => updatePriceForm(model, 'output', e.target.value)}
+                  placeholder="出力"
+                  aria-label={`${model}の出力料金`}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-3">
+          料金表にないモデル（ローカルLLMなど）のコストは0として記録します。変更は以降の記録に適用されます。
+        </p>
+
+        <button
+          onClick={handleSavePrices}
+          className="w-full mt-4 bg-blue-500 hover:bg-blue-600 text-white py-2 px-4 rounded-lg transition-colors"
+        >
+          料金表を保存
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,307 @@
+/**
+ * 買い物リストコンポーネント
+ * 保存済みの献立の材料をまとめた買い物リストの作成・チェック・書き出しを行う
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { ShoppingList } from '../types';
+import { STORE_SECTION_OPTIONS } from '../types';
+import { useAppStore } from '../store';
+import { formatDateLabel } from '../utils/mealPlan';
+import { mergeMenuLists } from '../utils/menuSearch';
+import { formatAmounts, formatShoppingListText } from '../utils/shoppingList';
+
+/**
+ * 買い物リスト画面コンポーネント
+ * チェック状態はIndexedDBに保存されるため、オフラインの店内でも使える
+ */
+export const ShoppingLists: React.FC = () => {
+  const {
+    menuHistory,
+    menuHistoryCursor,
+    isLoadingMenus,
+    loadMoreMenus,
+    adoptedMenus,
+    shoppingLists,
+    createShoppingList,
+    toggleShoppingItem,
+    deleteShoppingList
+  } = useAppStore();
+
+  // 表示中のリスト（未選択の場合は最新のリスト）
+  const [activeListId, setActiveListId] = useState<string | null>(null);
+  const activeList: ShoppingList | undefined =
+    shoppingLists.find(list => list.id === activeListId) ?? shoppingLists[0];
+
+  // 新規作成フォームの状態
+  const [isCreating, setIsCreating] = useState(false);
+  const [listName, setListName] = useState('');
+  const [selectedMenuIds, setSelectedMenuIds] = useState<string[]>([]);
+
+  // 書き出し結果のメッセージ
+  const [message, setMessage] = useState('');
+
+  // 採用済みの献立を先頭にした献立一覧（残りは読み込み済みの献立履歴）
+  const selectableMenus = useMemo(() => mergeMenuLists(adoptedMenus, menuHistory), [adoptedMenus, menuHistory]);
+
+  const showForm = isCreating || shoppingLists.length === 0;
+
+  /**
+   * 献立の選択を切り替え
+   */
+  const toggleMenu = (menuId: string) => {
+    setSelectedMenuIds(prev => prev.includes(menuId) ? prev.filter(id => id !== menuId) : [...prev, menuId]);
+  };
+
+  /**
+   * 選択した献立から買い物リストを作成
+   */
+  const handleCreate = async () => {
+    const name = listName.trim() || `${formatDateLabel(new Date())}の買い物`;
+    const id = await createShoppingList(name, selectedMenuIds);
+    if (id) {
+      setActiveListId(id);
+      setIsCreating(false);
+      setListName('');
+      setSelectedMenuIds([]);
+    }
+  };
+
+  /**
+   * 表示中のリストを削除
+   */
+  const handleDelete = async (list: ShoppingList) => {
+    if (!window.confirm(`「${list.name}」を削除しますか？`)) {
+      return;
+    }
+    await deleteShoppingList(list.id);
+    setActiveListId(null);
+  };
+
+  /**
+   * リストをテキストとしてクリップボードにコピー
+   */
+  const handleCopy = async (list: ShoppingList) => {
+    try {
+      await navigator.clipboard.writeText(formatShoppingListText(list));
+      setMessage('クリップボードにコピーしました');
+      setTimeout(() => setMessage(''), 3000);
+    } catch (error) {
+      console.error('コピーエラー:', error);
+      setMessage('コピーに失敗しました');
+    }
+  };
+
+  /**
+   * リストをテキストファイルとして保存
+   */
+  const handleDownload = (list: ShoppingList) => {
+    try {
+      const blob = new Blob([formatShoppingListText(list)], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `shopping-list-${list.createdAt.split('T')[0]}.txt`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('エクスポートエラー:', error);
+      setMessage('テキストの保存に失敗しました');
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* ヘッダー */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">買い物リスト</h2>
+          <p className="text-gray-600 text-sm">
+            献立の材料をまとめて、売り場ごとに確認できます
+          </p>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            ＋ 新規作成
+          </button>
+        )}
+      </div>
+
+      {/* メッセージ */}
+      {message && (
+        <div className={`p-3 rounded-lg text-sm ${
+          message.includes('失敗')
+            ? 'bg-red-50 text-red-700 border border-red-200'
+            : 'bg-green-50 text-green-700 border border-green-200'
+        }`}>
+          {message}
+        </div>
+      )}
+
+      {/* 新規作成 */}
+      {showForm && (
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-4">
+          <h3 className="font-semibold text-gray-900">新しい買い物リスト</h3>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">リスト名</label>
+            <input
+              type="text"
+              value={listName}
+              onChange={(e) => setListName(e.target.value)}
+              placeholder={`${formatDateLabel(new Date())}の買い物`}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">
+              献立を選択（{selectedMenuIds.length}件）
+            </p>
+            {selectableMenus.length === 0 ? (
+              <p className="text-sm text-gray-500">保存された献立がありません</p>
+            ) : (
+              <div className="max-h-60 overflow-y-auto space-y-1">
+                {selectableMenus.map(menu => (
+                  <label
+                    key={menu.id}
+                    className="flex items-center space-x-2 px-3 py-2 rounded-lg border border-gray-200 text-sm cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedMenuIds.includes(menu.id)}
+                      onChange={() => toggleMenu(menu.id)}
+                    />
+                    <span className="line-clamp-1">
+                      {menu.isAdopted === true && '✅ '}
+                      {menu.title}
+                    </span>
+                  </label>
+                ))}
+                {menuHistoryCursor && (
+                  <button
+                    onClick={loadMoreMenus}
+                    disabled={isLoadingMenus}
+                    className="w-full py-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    さらに表示
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+          <div className="flex space-x-2">
+            {shoppingLists.length > 0 && (
+              <button
+                onClick={() => setIsCreating(false)}
+                className="flex-1 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm"
+              >
+                キャンセル
+              </button>
+            )}
+            <button
+              onClick={handleCreate}
+              disabled={selectedMenuIds.length === 0}
+              className="flex-1 py-2 rounded-lg bg-blue-500 text-white text-sm hover:bg-blue-600 disabled:opacity-50"
+            >
+              作成
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            献立カレンダーの「この期間の買い物リストを作る」から、予定した献立でまとめて作成することもできます
+          </p>
+        </div>
+      )}
+
+      {/* 表示中のリスト */}
+      {!showForm && activeList && (
+        <>
+          {shoppingLists.length > 1 && (
+            <select
+              value={activeList.id}
+              onChange={(e) => setActiveListId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              {shoppingLists.map(list => (
+                <option key={list.id} value={list.id}>{list.name}</option>
+              ))}
+            </select>
+          )}
+
+          <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-gray-900">{activeList.name}</h3>
+              <span className="text-xs text-gray-500">
+                {activeList.items.filter(item => item.checked).length} / {activeList.items.length} 購入済み
+              </span>
+            </div>
+
+            {activeList.items.length === 0 && (
+              <p className="text-sm text-gray-500">材料の分量が記録された献立がありません</p>
+            )}
+
+            {STORE_SECTION_OPTIONS.map(({ value: section, label }) => {
+              const items = activeList.items.filter(item => item.section === section);
+              if (items.length === 0) {
+                return null;
+              }
+              return (
+                <div key={section}>
+                  <h4 className="text-xs font-semibold text-gray-500 mb-1">{label}</h4>
+                  <div className="space-y-1">
+                    {items.map(item => (
+                      <label
+                        key={item.id}
+                        className="flex items-start space-x-2 px-2 py-1 rounded-lg cursor-pointer hover:bg-gray-50"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={item.checked}
+                          onChange={() => toggleShoppingItem(activeList.id, item.id)}
+                          className="mt-1"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className={`text-sm ${item.checked ? 'line-through text-gray-400' : 'text-gray-900'}`}>
+                            {item.name}
+                            {item.amounts.length > 0 && (
+                              <span className="ml-2 text-gray-500">{formatAmounts(item.amounts)}</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-400 truncate">{item.menuTitles.join('、')}</p>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={() => handleCopy(activeList)}
+              className="py-2 rounded-lg border border-gray-300 bg-white text-gray-700 text-sm hover:bg-gray-50"
+            >
+              コピー
+            </button>
+            <button
+              onClick={() => handleDownload(activeList)}
+              className="py-2 rounded-lg border border-gray-300 bg-white text-gray-700 text-sm hover:bg-gray-50"
+            >
+              テキスト保存
+            </button>
+            <button
+              onClick={() => handleDelete(activeList)}
+              className="py-2 rounded-lg border border-red-200 bg-white text-red-600 text-sm hover:bg-red-50"
+            >
+              削除
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+/**
+ * 仮想化リストコンポーネント
+ * 画面（ウィンドウのスクロール範囲）付近の項目だけを描画し、件数が多い一覧でも軽く表示する
+ */
+
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  estimatedHeight: number;  // 未計測の項目の高さの見込み（px）
+  gap?: number;             // 項目の間隔（px）
+  overscan?: number;        // 画面の上下に余分に描画する範囲（px）
+  onEndReached?: () => void; // 末尾付近までスクロールしたときに呼ばれる（続きの読み込み）
+}
+
+interface MeasuredItemProps {
+  itemKey: string;
+  gap: number;
+  onMeasure: (key: string, height: number) => void;
+  children: React.ReactNode;
+}
+
+/**
+ * 高さを計測する項目（展開などで高さが変わった場合も計測し直す）
+ */
+const MeasuredItem: React.FC<MeasuredItemProps> = ({ itemKey, gap, onMeasure, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element) {
+      return;
+    }
+    const observer = new ResizeObserver(() => onMeasure(itemKey, element.offsetHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [itemKey, onMeasure]);
+
+  return (
+    <div ref={ref} style={{ paddingBottom: gap }}>
+      {children}
+    </div>
+  );
+};
+
+/**
+ * 仮想化リスト
+ * 描画しない範囲は上下の余白で高さを確保する（計測済みの高さ、未計測の項目は見込みの高さを使う）
+ */
+export function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimatedHeight,
+  gap = 16,
+  overscan = 600,
+  onEndReached
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+
+  // 計測した高さが変わった回数（再描画のきっかけ）
+  const [, setMeasureVersion] = useState(0);
+
+  // リストの先頭を基準にした、画面に表示されている範囲
+  const [viewport, setViewport] = useState({ start: 0, end: window.innerHeight });
+
+  /**
+   * 表示範囲を現在のスクロール位置から更新
+   */
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const start = -container.getBoundingClientRect().top;
+    const end = start + window.innerHeight;
+    setViewport(prev => prev.start === start && prev.end === end ? prev : { start, end });
+  }, []);
+
+  /**
+   * 項目の高さを記録
+   */
+  const handleMeasure = useCallback((key: string, height: number) => {
+    if (heightsRef.current.get(key) !== height) {
+      heightsRef.current.set(key, height);
+      setMeasureVersion(version => version + 1);
+    }
+  }, []);
+
+  useEffect(() => {
+    window.addEventListener('scroll', updateViewport, { passive: true });
+    window.addEventListener('resize', updateViewport);
+    return () => {
+      window.removeEventListener('scroll', updateViewport);
+      window.removeEventListener('resize', updateViewport);
+    };
+  }, [updateViewport]);
+
+  // 項目が増減するとリストの位置も変わりうるため、表示範囲を計算し直す
+  useLayoutEffect(() => {
+    updateViewport();
+  }, [items, updateViewport]);
+
+  // 各項目の開始位置（末尾はリスト全体の高さ）
+  const offsets = [0];
+  for (const item of items) {
+    const height = heightsRef.current.get(getKey(item)) ?? estimatedHeight + gap;
+    offsets.push(offsets[offsets.length - 1] + height);
+  }
+  const totalHeight = offsets[items.length];
+
+  let first = 0;
+  while (first < items.length && offsets[first + 1] < viewport.start - overscan) {
+    first++;
+  }
+  let last = first;
+  while (last < items.length && offsets[last] < viewport.end + overscan) {
+    last++;
+  }
+
+  const isNearEnd = items.length > 0 && viewport.end + overscan >= totalHeight;
+  useEffect(() => {
+    if (isNearEnd) {
+      onEndReached?.();
+    }
+  }, [isNearEnd, items.length, onEndReached]);
+
+  return (
+    <div
+      ref={containerRef}
+      style={{ paddingTop: offsets[first], paddingBottom: totalHeight - offsets[last] }}
+    >
+      {items.slice(first, last).map(item => {
+        const key = getKey(item);
+        return (
+          <MeasuredItem key={key} itemKey={key} gap={gap} onMeasure={handleMeasure}>
+            {renderItem(item)}
+          </MeasuredItem>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * AI API連携サービスのテスト
+ * モックプロバイダーに応答を登録し、献立の解析と不足分の再依頼を確認する
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AIRequestOptions, MenuItem } from '../types';
+import type { AICompletionRequest } from './providers';
+import { mockProvider } from './providers/mock';
+import { MenuParseError, aiService } from './aiService';
+
+/**
+ * テスト用の献立
+ */
+function createMenu(title: string): MenuItem {
+  return { title, description: '説明', detail: '', ingredients: ['豚肉 200g'], steps: ['焼く。'], time: '15分' };
+}
+
+const OPTIONS: AIRequestOptions = {
+  provider: 'mock',
+  apiKey: '',
+  config: { mode: 'template', delayMs: '0' },
+  prompt: '# 食材\n- 豚肉',
+  count: 3
+};
+
+afterEach(() => {
+  mockProvider.clearQueuedResponses();
+  vi.restoreAllMocks();
+});
+
+describe('aiService.generateMenus', () => {
+  it('不足分の再依頼で届いた献立は逐次通知せず、最終的な結果にまとめる', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockProvider.queueResponses([
+      JSON.stringify({ menus: [createMenu('A'), createMenu('B')] }),
+      JSON.stringify({ menus: [createMenu('C'), createMenu('D')] })
+    ]);
+    const onMenu = vi.fn();
+
+    const result = await aiService.generateMenus(OPTIONS, onMenu);
+
+    expect(onMenu.mock.calls.map(([menu]) => menu.title)).toEqual(['A', 'B']);
+    expect(result.menus.map(menu => menu.title)).toEqual(['A', 'B', 'C']);
+  });
+});
+
+describe('aiService.generateMenus（応答の修復と不足分の再依頼）', () => {
+  /**
+   * プロバイダーに送られた最後のユーザーの依頼
+   */
+  const getLastPrompts = (calls: [AICompletionRequest][]) =>
+    calls.map(([request]) => request.messages[request.messages.length - 1].content);
+
+  it('項目が欠けた献立を除き、読み取れなかった数だけ再依頼する', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const complete = vi.spyOn(mockProvider, 'complete');
+    const withoutSteps = { ...createMenu('作り方なし'), steps: undefined };
+    const withoutDescription = { ...createMenu('説明なし'), description: undefined };
+    mockProvider.queueResponses([
+      `\`\`\`json\n${JSON.stringify({ menus: [createMenu('A'), withoutSteps, withoutDescription] })}\n\`\`\``,
+      JSON.stringify({ menus: [createMenu('B'), createMenu('C')] })
+    ]);
+
+    const result = await aiService.generateMenus(OPTIONS);
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(getLastPrompts(complete.mock.calls)[1]).toBe(
+      '先ほどの回答から正しく読み取れた献立は1個でした。「A」と重複しない献立をあと2個、同じ形式のみで回答してください。'
+    );
+    expect(result.menus.map(menu => menu.title)).toEqual(['A', 'B', 'C']);
+    expect(result.messages[result.messages.length - 1]).toEqual({ role: 'assistant', content: JSON.stringify({ menus: result.menus }) });
+  });
+
+  it('途中で切れた応答は完成している献立を残して再依頼する', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const complete = vi.spyOn(mockProvider, 'complete');
+    mockProvider.queueResponses([
+      `{"menus": [${JSON.stringify(createMenu('A'))}, ${JSON.stringify(createMenu('B'))}, {"title": "C", "descr`,
+      JSON.stringify({ menus: [createMenu('C')] })
+    ]);
+
+    const result = await aiService.generateMenus(OPTIONS);
+
+    expect(getLastPrompts(complete.mock.calls)[1]).toContain('あと1個');
+    expect(result.menus.map(menu => menu.title)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('再依頼に失敗した場合は読み取れた献立だけを返す', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockProvider.queueResponses([JSON.stringify({ menus: [createMenu('A')] })]);
+    const complete = mockProvider.complete.bind(mockProvider);
+    vi.spyOn(mockProvider, 'complete')
+      .mockImplementationOnce(complete)
+      .mockRejectedValueOnce(new Error('接続エラー'));
+
+    const result = await aiService.generateMenus(OPTIONS);
+
+    expect(result.menus.map(menu => menu.title)).toEqual(['A']);
+  });
+
+  it('再依頼しても献立を読み取れない場合はMenuParseErrorにする', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockProvider.queueResponses(['献立を提案できません。', '{"menus": []}']);
+
+    await expect(aiService.generateMenus(OPTIONS)).rejects.toBeInstanceOf(MenuParseError);
+  });
+});
@@ -1,375 +1,274 @@
 /**
  * AI API連携サービス
- * OpenAI GPT-4およびClaude APIとの通信を管理
+ * プロバイダーレジストリを介してAI APIとの通信を管理
  */
 
-import type { MenuItem, AIRequestOptions, AIProvider } from '../types';
+import type { MenuItem, AIRequestOptions, AIProvider, ChatMessage, MenuGenerationResult, ProviderConfig } from '../types';
+import { providerRegistry, completeWithRetry } from './providers';
+import type { AIProviderDefinition, AICompletionResult } from './providers';
+import { JsonArrayStreamParser } from '../utils/jsonArrayStream';
+import { repairMenuResponse } from '../utils/menuResponseRepair';
+import { MENU_LIST_OUTPUT, MENU_FORMAT_INSTRUCTION } from './menuSchema';
+import { DEFAULT_SYSTEM_PROMPT } from '../utils/promptTemplate';
 
 /**
- * OpenAI API呼び出し用の設定（o3-mini推論モデル用）
+ * 1回の生成で提案する献立の既定数
  */
-const OPENAI_CONFIG = {
-  apiUrl: 'https://api.openai.com/v1/chat/completions',
-  model: 'o3-mini',
-  maxCompletionTokens: 6000,  // 5つの献立生成に対応してトークン数を増加
-  reasoningEffort: 'medium'   // 5つの詳細な献立生成のためmediumに変更
-};
+export const DEFAULT_MENU_COUNT = 5;
 
 /**
- * Claude API呼び出し用の設定
+ * AIの応答から献立を読み取れなかった場合のエラー
  */
-const CLAUDE_CONFIG = {
-  apiUrl: 'https://api.anthropic.com/v1/messages',
-  model: 'claude-3-5-sonnet-20241022',
-  maxTokens: 2000
-};
+export class MenuParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MenuParseError';
+  }
+}
 
 class AIService {
   /**
    * AI APIを使用して献立を生成
-   * プロバイダーに応じて適切なAPIを呼び出す
+   * レジストリから取得したプロバイダーに処理を委譲する
+   * onMenuを指定するとストリーミングで受信し、献立が1つ完成するごとに通知する
    */
-  async generateMenus(options: AIRequestOptions): Promise<MenuItem[]> {
-    const { provider, apiKey, prompt } = options;
+  async generateMenus(options: AIRequestOptions, onMenu?: (menu: MenuItem) => void): Promise<MenuGenerationResult> {
+    const provider = this.getProvider(options.provider);
+    return this.requestMenus(provider, options, [], options.prompt, options.count ?? DEFAULT_MENU_COUNT, onMenu);
+  }
 
-    // プロバイダーに応じた処理を実行
-    switch (provider) {
-      case 'openai':
-        return this.callOpenAI(apiKey, prompt);
-      case 'claude':
-        return this.callClaude(apiKey, prompt);
-      default:
-        throw new Error(`未対応のAIプロバイダー: ${provider}`);
-    }
+  /**
+   * これまでの会話を踏まえて献立を修正
+   * targetを指定するとその献立だけを修正し、修正後の1つのみを返す
+   * options.promptにはユーザーの修正指示を渡す
+   */
+  async refineMenus(
+    options: AIRequestOptions,
+    history: ChatMessage[],
+    target?: MenuItem,
+    onMenu?: (menu: MenuItem) => void
+  ): Promise<MenuGenerationResult> {
+    const provider = this.getProvider(options.provider);
+    const count = target ? 1 : options.count ?? DEFAULT_MENU_COUNT;
+    const prompt = target
+      ? `先ほどの献立のうち「${target.title}」だけを次の指示に従って修正し、修正後の献立1つのみを同じ形式で回答してください。\n指示: ${options.prompt}`
+      : `次の指示に従って、先ほどの${count}つの献立をすべて修正してください。指示に関係しない部分は元の内容を維持し、同じ数・同じ順序・同じ形式で回答してください。\n指示: ${options.prompt}`;
+    return this.requestMenus(provider, options, history, prompt, count, onMenu);
   }
 
   /**
-   * OpenAI GPT-4 APIを呼び出し
+   * 表示中の献立と重複しない代わりの献立を1つ生成
+   * options.promptには元の献立生成と同じ条件のプロンプトを渡す
+   * avoidIngredientsを指定すると使用禁止の食材としてプロンプトに明記する
    */
-  private async callOpenAI(apiKey: string, prompt: string): Promise<MenuItem[]> {
-    try {
-      const response = await fetch(OPENAI_CONFIG.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-          model: OPENAI_CONFIG.model,
-          messages: [
-            {
-              role: 'system',
-              content: 'あなたは料理の専門家です。ユーザーの要求に応じて、実用的で美味しい献立を提案してください。'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          max_completion_tokens: OPENAI_CONFIG.maxCompletionTokens,
-          reasoning_effort: OPENAI_CONFIG.reasoningEffort
-        })
-      });
+  async generateReplacement(
+    options: AIRequestOptions,
+    others: MenuItem[],
+    avoidIngredients: string[] = [],
+    onMenu?: (menu: MenuItem) => void
+  ): Promise<MenuGenerationResult> {
+    const provider = this.getProvider(options.provider);
+    const titles = others.map(menu => `「${menu.title}」`).join('');
+    let prompt = titles
+      ? `${options.prompt}\n\n# 除外する献立\n次の献立とは主菜・味付け・調理法が重ならない献立にしてください: ${titles}`
+      : options.prompt;
+    if (avoidIngredients.length > 0) {
+      prompt += `\n\n# 使用禁止の食材\n次の食材は材料・調味料・だしを含めて絶対に使わないでください: ${avoidIngredients.join('、')}`;
+    }
+    return this.requestMenus(provider, options, [], prompt, 1, onMenu);
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        
-        // o3-mini固有のエラー処理
-        let errorMessage = errorData.error?.message || 'Unknown error';
-        
-        if (response.status === 429) {
-          errorMessage = 'o3-miniモデルの利用制限に達しました。少し時間をおいて再試行してください。';
-        } else if (response.status === 400 && errorMessage.includes('reasoning_effort')) {
-          errorMessage = 'reasoning_effortパラメータの値が無効です。';
-        } else if (response.status === 400 && errorMessage.includes('model')) {
-          errorMessage = 'o3-miniモデルへのアクセス権限がありません。APIプランを確認してください。';
+  /**
+   * 候補のプロバイダーを順に試して献立を生成
+   * 先頭の候補が失敗した場合、次の候補に切り替える前にonFailoverで通知する
+   */
+  async generateMenusWithFailover(
+    candidates: AIRequestOptions[],
+    onMenu?: (menu: MenuItem) => void,
+    onFailover?: (from: AIProvider, to: AIProvider) => void
+  ): Promise<MenuGenerationResult> {
+    for (let index = 0; ; index++) {
+      const options = candidates[index];
+      const next = candidates[index + 1];
+      try {
+        return await this.generateMenus(options, onMenu);
+      } catch (error) {
+        if (!next || options.signal?.aborted) {
+          throw error;
         }
-        
-        throw new Error(`OpenAI o3-mini API エラー: ${response.status} - ${errorMessage}`);
+        console.warn(`${options.provider}での献立生成に失敗したため、${next.provider}に切り替えます:`, error);
+        onFailover?.(options.provider, next.provider);
       }
+    }
+  }
 
-      const data = await response.json();
-      
-      // o3-miniのレスポンス構造を常に確認（問題解決のため）
-      console.log('OpenAI o3-mini 完全レスポンス:', JSON.stringify(data, null, 2));
-      
-      const choice = data.choices?.[0];
-      const content = choice?.message?.content;
-
-      // o3-miniの詳細なレスポンス分析
-      console.log('OpenAI o3-mini レスポンス分析:', {
-        choices_length: data.choices?.length,
-        first_choice: choice,
-        finish_reason: choice?.finish_reason,
-        message: choice?.message,
-        content_type: typeof content,
-        content_length: content?.length,
-        usage: data.usage,
-        model: data.model
-      });
-
-      // contentが空でもfinish_reasonが'length'の場合は推論中に制限に達した可能性
-      if (!content || content.trim() === '') {
-        // o3-mini特有の問題の詳細分析
-        const errorDetails = {
-          choices: data.choices,
-          first_choice_message: choice?.message,
-          finish_reason: choice?.finish_reason,
-          usage: data.usage,
-          model: data.model,
-          possible_issues: [] as string[]
-        };
-
-        // finish_reasonによる問題分析
-        if (choice?.finish_reason === 'length') {
-          errorDetails.possible_issues.push('トークン制限に達した - max_completion_tokensを増やすか、プロンプトを短縮してください');
-        }
-        if (choice?.finish_reason === 'content_filter') {
-          errorDetails.possible_issues.push('コンテンツフィルターによる制限');
-        }
-        if (choice?.finish_reason === 'stop') {
-          errorDetails.possible_issues.push('正常終了したがcontentが空');
-        }
-        if (!choice?.message) {
-          errorDetails.possible_issues.push('messageフィールドが存在しない');
-        }
-        if (choice?.message && !choice.message.content) {
-          errorDetails.possible_issues.push('message.contentが空またはnull');
-        }
-
-        console.error('OpenAI o3-mini 空レスポンス詳細分析:', errorDetails);
-        
-        // 特定のfinish_reasonの場合はより具体的なエラーメッセージ
-        if (choice?.finish_reason === 'length') {
-          throw new Error('o3-miniがトークン制限に達しました。プロンプトを短縮するか、max_completion_tokensを増やしてください。');
+  /**
+   * 会話履歴に依頼を追加して献立を取得
+   * 読み取れた献立が不足している場合は不足分だけを再依頼し、
+   * 次の依頼で使えるよう応答までを含めた会話履歴を返す
+   */
+  private async requestMenus(
+    provider: AIProviderDefinition,
+    options: AIRequestOptions,
+    history: ChatMessage[],
+    prompt: string,
+    count: number,
+    onMenu?: (menu: MenuItem) => void
+  ): Promise<MenuGenerationResult> {
+    // 構造化出力に対応しないプロバイダーには応答形式をプロンプトで指示
+    const content = provider.supportsStructuredOutput ? prompt : `${prompt}\n\n${MENU_FORMAT_INSTRUCTION}`;
+    const messages: ChatMessage[] = [...history, { role: 'user', content }];
+
+    const result = await this.requestCompletion(provider, options, messages, onMenu);
+    let menus = this.parseMenuResponse(result.content);
+
+    // 読み取れた献立が不足している場合は、不足分だけを再依頼
+    // 再依頼の献立は逐次通知しない（通知済みの献立と合わせて依頼数を超えないよう、最終的な結果でまとめて置き換える）
+    if (menus.length < count) {
+      try {
+        const retry = await this.requestCompletion(provider, options, [
+          ...messages,
+          { role: 'assistant', content: result.content },
+          { role: 'user', content: this.buildMissingMenusPrompt(menus, count - menus.length) }
+        ]);
+        menus = [...menus, ...this.parseMenuResponse(retry.content)].slice(0, count);
+      } catch (error) {
+        if (options.signal?.aborted) {
+          throw error;
         }
-        
-        throw new Error(`OpenAI o3-mini APIからの応答が空です。finish_reason: ${choice?.finish_reason || 'unknown'}`);
-      }
-
-      // 開発環境でのみ使用統計情報をログ出力（推論トークンを含む）
-      if (import.meta.env.DEV && data.usage) {
-        console.log('OpenAI o3-mini トークン使用量:', {
-          prompt_tokens: data.usage.prompt_tokens,
-          completion_tokens: data.usage.completion_tokens,
-          reasoning_tokens: data.usage.reasoning_tokens,
-          total_tokens: data.usage.total_tokens
-        });
+        console.error('不足分の献立の再取得に失敗しました:', error);
       }
+    }
 
-      // JSONレスポンスをパース
-      return this.parseMenuResponse(content);
-    } catch (error) {
-      console.error('OpenAI API呼び出しエラー:', error);
-      
-      if (error instanceof Error) {
-        // API固有のエラーメッセージを保持
-        throw error;
-      }
-      
-      throw new Error('OpenAI APIとの通信に失敗しました');
+    if (menus.length === 0) {
+      throw new MenuParseError('AIの応答から献立を読み取れませんでした。');
     }
+
+    return {
+      menus,
+      provider: provider.id,
+      model: result.model,
+      // 再依頼を含む応答は、最終的に採用した献立としてまとめて履歴に残す
+      messages: [...messages, { role: 'assistant', content: JSON.stringify({ menus }) }]
+    };
   }
 
   /**
-   * Claude APIを呼び出し
+   * プロバイダーに補完をリクエスト
+   * onMenuが指定された場合は完成した献立を逐次通知する
+   * 応答に使用量が含まれる場合はonUsageで通知する（献立の解析に失敗しても課金されるため）
    */
-  private async callClaude(apiKey: string, prompt: string): Promise<MenuItem[]> {
-    try {
-      const response = await fetch(CLAUDE_CONFIG.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-          model: CLAUDE_CONFIG.model,
-          max_tokens: CLAUDE_CONFIG.maxTokens,
-          messages: [
-            {
-              role: 'user',
-              content: `あなたは料理の専門家です。以下の要求に応じて、実用的で美味しい献立を提案してください。\n\n${prompt}`
+  private async requestCompletion(
+    provider: AIProviderDefinition,
+    options: AIRequestOptions,
+    messages: ChatMessage[],
+    onMenu?: (menu: MenuItem) => void
+  ): Promise<AICompletionResult> {
+    const streamParser = onMenu ? new JsonArrayStreamParser() : null;
+
+    const result = await completeWithRetry(provider, {
+      apiKey: options.apiKey,
+      config: providerRegistry.resolveConfig(provider.id, options.config),
+      generation: providerRegistry.resolveGenerationSettings(provider.id, options.config),
+      systemPrompt: options.systemPrompt || DEFAULT_SYSTEM_PROMPT,
+      messages,
+      responseFormat: provider.supportsStructuredOutput ? MENU_LIST_OUTPUT : undefined,
+      signal: options.signal,
+      onDelta: streamParser
+        ? (delta) => {
+            for (const item of streamParser.push(delta)) {
+              if (this.isValidMenuItem(item)) {
+                onMenu?.(this.toMenuItem(item));
+              }
             }
-          ]
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`Claude API エラー: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
-      }
-
-      const data = await response.json();
-      const content = data.content[0]?.text;
+          }
+        : undefined
+    }, {
+      maxRetries: options.retry?.maxRetries ?? 0,
+      baseDelayMs: options.retry?.baseDelayMs ?? 0
+    });
+
+    if (result.usage) {
+      options.onUsage?.(provider.id, result.model, result.usage);
+    }
+    return result;
+  }
 
-      if (!content) {
-        throw new Error('Claude APIからの応答が空です');
-      }
+  /**
+   * 不足分の献立を再依頼するプロンプトを作成
+   */
+  private buildMissingMenusPrompt(menus: MenuItem[], missing: number): string {
+    const titles = menus.map(menu => `「${menu.title}」`).join('');
+    const exclusion = titles ? `${titles}と重複しない献立を` : '献立を';
+    return `先ほどの回答から正しく読み取れた献立は${menus.length}個でした。${exclusion}あと${missing}個、同じ形式のみで回答してください。`;
+  }
 
-      // JSONレスポンスをパース
-      return this.parseMenuResponse(content);
-    } catch (error) {
-      console.error('Claude API呼び出しエラー:', error);
-      
-      if (error instanceof Error) {
-        // API固有のエラーメッセージを保持
-        throw error;
-      }
-      
-      throw new Error('Claude APIとの通信に失敗しました');
+  /**
+   * IDからプロバイダー定義を取得
+   * 未登録のIDの場合はエラー
+   */
+  private getProvider(id: AIProvider): AIProviderDefinition {
+    const provider = providerRegistry.get(id);
+    if (!provider) {
+      throw new Error(`未対応のAIプロバイダー: ${id}`);
     }
+    return provider;
   }
 
   /**
    * AI APIからのレスポンスをパースしてMenuItem配列に変換
-   * JSONフォーマットの検証とエラーハンドリングを含む
+   * 応答を修復した上で、形式が正しい献立だけを取り出す（定型の献立で補うことはしない）
    */
   private parseMenuResponse(content: string): MenuItem[] {
-    try {
-      // JSONの前後にあるかもしれないテキストを除去
-      const jsonMatch = content.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error('JSON配列が見つかりません');
-      }
-
-      const jsonString = jsonMatch[0];
-      const parsedData = JSON.parse(jsonString);
-
-      // 配列かどうかチェック
-      if (!Array.isArray(parsedData)) {
-        throw new Error('レスポンスが配列形式ではありません');
-      }
-
-      // 各アイテムの形式を検証
-      const menus: MenuItem[] = parsedData.map((item, index) => {
-        if (!this.isValidMenuItem(item)) {
-          throw new Error(`献立 ${index + 1} の形式が正しくありません`);
-        }
-
-        return {
-          title: item.title,
-          description: item.description,
-          detail: item.detail || '',
-          ingredients: Array.isArray(item.ingredients) ? item.ingredients : [],
-          steps: Array.isArray(item.steps) ? item.steps : [],
-          time: item.time || '30分'
-        };
+    const { items, truncated } = repairMenuResponse(content);
+    const menus = items.filter(item => this.isValidMenuItem(item)).map(item => this.toMenuItem(item));
+
+    if (truncated || menus.length < items.length) {
+      console.warn('献立レスポンスの一部のみ解析できました:', {
+        truncated,
+        parsed: menus.length,
+        invalid: items.length - menus.length
       });
-
-      // 最低1つの献立が含まれているかチェック
-      if (menus.length === 0) {
-        throw new Error('献立が生成されませんでした');
-      }
-
-      return menus;
-    } catch (error) {
-      console.error('献立レスポンス解析エラー:', error);
-      
-      // フォールバック: 手動でパースを試行
-      try {
-        return this.fallbackParseMenuResponse();
-      } catch (fallbackError) {
-        console.error('フォールバック解析も失敗:', fallbackError);
-        throw new Error('AI APIからの応答を解析できませんでした。再度お試しください。');
-      }
     }
+    if (items.length === 0) {
+      console.error('献立レスポンス解析エラー: JSONを取り出せませんでした', content.slice(0, 500));
+    }
+
+    return menus;
   }
 
   /**
-   * MenuItemオブジェクトの形式を検証
+   * 検証済みのオブジェクトをMenuItemに正規化
    */
-  private isValidMenuItem(item: any): item is MenuItem {
-    return (
-      typeof item === 'object' &&
-      item !== null &&
-      typeof item.title === 'string' &&
-      typeof item.description === 'string' &&
-      typeof item.detail === 'string' &&
-      Array.isArray(item.ingredients) &&
-      Array.isArray(item.steps) &&
-      (typeof item.time === 'string' || typeof item.time === 'number' || typeof item.time === 'undefined')
-    );
+  private toMenuItem(item: MenuItem): MenuItem {
+    return {
+      title: item.title,
+      description: item.description,
+      detail: item.detail || '',
+      ingredients: Array.isArray(item.ingredients) ? item.ingredients : [],
+      steps: Array.isArray(item.steps) ? item.steps : [],
+      time: typeof item.time === 'number' ? `${item.time}分` : item.time || '30分'
+    };
   }
 
-
   /**
-   * フォールバック用のレスポンス解析
-   * JSONパースが失敗した場合の代替処理（仕様に準拠して5つの献立）
+   * MenuItemオブジェクトの形式を検証
+   * detailとtimeは省略されていても正規化時に補う
    */
-  private fallbackParseMenuResponse(): MenuItem[] {
-    // アプリ仕様に準拠したフォールバック献立（5つ、味付けがわかるタイトル・見出し文）
-    return [
-      {
-        title: '醤油バター炒め',
-        description: '醤油とバターのコクが決め手の濃厚炒め物',
-        detail: 'しっかりとした醤油ベースの味付けにバターのコクをプラスし、野菜の甘みと肉の旨みが調和した栄養バランスの良い一品です。',
-        ingredients: ['野菜 適量', '肉類 200g', '醤油 大さじ2', 'バター 20g', '油 大さじ1'],
-        steps: [
-          '野菜を適当な大きさに切る',
-          'フライパンに油を熱する',
-          '肉類を炒める',
-          '野菜を加えて炒める',
-          '醤油とバターで味を整える'
-        ],
-        time: '15分'
-      },
-      {
-        title: 'ソース焼きそば',
-        description: '甘辛ソースが食欲をそそる定番焼きそば',
-        detail: '甘辛い専用ソースでシンプルに仕上げた、家族みんなが喜ぶ定番料理です。野菜と麺がソースに絡んで絶品です。',
-        ingredients: ['焼きそば麺 2玉', 'キャベツ 200g', '豚肉 100g', '焼きそばソース 大さじ3'],
-        steps: [
-          'キャベツを千切りにする',
-          '豚肉を一口大に切る',
-          'フライパンで豚肉を炒める',
-          'キャベツと麺を加えて炒める',
-          'ソースで味付けする'
-        ],
-        time: '10分'
-      },
-      {
-        title: '醤油だし卵かけご飯',
-        description: '醤油の旨みが引き立つシンプル和食',
-        detail: '新鮮な卵と温かいご飯に醤油の旨みをプラスした、手軽で栄養満点の和食の原点とも言える一品です。',
-        ingredients: ['ご飯 1膳分', '卵 1個', '醤油 小さじ1', 'のり 適量'],
-        steps: [
-          '温かいご飯を茶碗に盛る',
-          '卵を割り入れる',
-          '醤油をかける',
-          'よく混ぜて完成'
-        ],
-        time: '2分'
-      },
-      {
-        title: '塩胡椒野菜炒め',
-        description: 'シンプルな塩胡椒で素材の味を活かした炒め物',
-        detail: 'シンプルな塩胡椒の味付けで野菜本来の甘みと食感を楽しめる、ヘルシーで軽やかな炒め物です。',
-        ingredients: ['ミックス野菜 300g', '塩 小さじ1', '胡椒 少々', '油 大さじ1'],
-        steps: [
-          '野菜を食べやすい大きさに切る',
-          'フライパンを強火で熱する',
-          '油を入れて野菜を炒める',
-          '塩胡椒で味を整える',
-          'シャキシャキ感を残して完成'
-        ],
-        time: '8分'
-      },
-      {
-        title: '甘辛照り焼きチキン',
-        description: '甘辛い照り焼きソースが絶品のジューシーチキン',
-        detail: '醤油ベースの甘辛い照り焼きソースがチキンによく絡み、ご飯との相性も抜群の満足感ある一品です。',
-        ingredients: ['鶏もも肉 300g', '醤油 大さじ2', 'みりん 大さじ2', '砂糖 大さじ1', '油 大さじ1'],
-        steps: [
-          '鶏肉を一口大に切る',
-          'フライパンに油を熱する',
-          '鶏肉の皮目から焼く',
-          '調味料を混ぜてタレを作る',
-          'タレを絡めて照りよく仕上げる'
-        ],
-        time: '20分'
-      }
-    ];
+  private isValidMenuItem(item: unknown): item is MenuItem {
+    if (typeof item !== 'object' || item === null) {
+      return false;
+    }
+    const candidate = item as Record<string, unknown>;
+    return (
+      typeof candidate.title === 'string' &&
+      candidate.title.trim() !== '' &&
+      typeof candidate.description === 'string' &&
+      (typeof candidate.detail === 'string' || typeof candidate.detail === 'undefined') &&
+      Array.isArray(candidate.ingredients) &&
+      Array.isArray(candidate.steps) &&
+      (typeof candidate.time === 'string' || typeof candidate.time === 'number' || typeof candidate.time === 'undefined')
+    );
   }
 
   /**
@@ -381,62 +280,24 @@ class AIService {
       return false;
     }
 
-    switch (provider) {
-      case 'openai':
-        // OpenAI APIキーは'sk-'で始まる（o3-miniでも同様）
-        return apiKey.startsWith('sk-') && apiKey.length > 20;
-      case 'claude':
-        // Claude APIキーは'sk-ant-'で始まる
-        return apiKey.startsWith('sk-ant-') && apiKey.length > 30;
-      default:
-        return false;
-    }
+    const definition = providerRegistry.get(provider);
+    return definition ? definition.validateApiKey(apiKey) : false;
   }
 
   /**
    * APIの利用可能性をテスト
    * 軽量なリクエストを送信してAPIの動作を確認
    */
-  async testApiConnection(provider: AIProvider, apiKey: string): Promise<boolean> {
+  async testApiConnection(provider: AIProvider, apiKey: string, config?: ProviderConfig): Promise<boolean> {
     try {
-      const testPrompt = 'こんにちは';
-      
-      switch (provider) {
-        case 'openai':
-          const openaiResponse = await fetch(OPENAI_CONFIG.apiUrl, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${apiKey}`
-            },
-            body: JSON.stringify({
-              model: OPENAI_CONFIG.model,
-              messages: [{ role: 'user', content: testPrompt }],
-              max_completion_tokens: 10,
-              reasoning_effort: 'low'  // テスト用は低コストで実行
-            })
-          });
-          return openaiResponse.ok;
-
-        case 'claude':
-          const claudeResponse = await fetch(CLAUDE_CONFIG.apiUrl, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-api-key': apiKey,
-              'anthropic-version': '2023-06-01'
-            },
-            body: JSON.stringify({
-              model: CLAUDE_CONFIG.model,
-              max_tokens: 10,
-              messages: [{ role: 'user', content: testPrompt }]
-            })
-          });
-          return claudeResponse.ok;
-
-        default:
-          return false;
-      }
+      const definition = providerRegistry.get(provider);
+      return definition
+        ? await definition.testConnection(
+            apiKey,
+            providerRegistry.resolveConfig(provider, config),
+            providerRegistry.resolveGenerationSettings(provider, config).model
+          )
+        : false;
     } catch (error) {
       console.error('API接続テストエラー:', error);
       return false;
@@ -5,17 +5,23 @@
 
 import { openDB } from 'idb';
 import type { DBSchema, IDBPDatabase } from 'idb';
-import type { MenuRecord, ApiKeyConfig } from '../types';
+import type { MenuRecord, ApiKeyConfig, UsageRecord, MealPlanEntry, ShoppingList, PantryItem, AdoptionStatus, MenuPageCursor, HouseholdProfile } from '../types';
+import { parseIngredients } from '../utils/ingredientParser';
+import { estimateServings } from '../utils/servings';
+import { LATEST_DB_VERSION, runMigrations, withIndexFields } from './migrations';
 
-// IndexedDBのスキーマ定義
-interface MenuAppDB extends DBSchema {
+// IndexedDBのスキーマ定義（バージョンごとの変更はmigrations.tsに定義する）
+export interface MenuAppDB extends DBSchema {
   // 献立データを保存するオブジェクトストア
   menus: {
     key: string;           // UUIDをキーとして使用
     value: MenuRecord;     // 献立レコード
     indexes: {
       'by-created': string;  // 作成日時でのインデックス
-      'by-theme': string;    // テーマでのインデックス
+      'by-theme': string;    // テーマでのインデックス（配列の要素ごとに登録）
+      'by-adoption': AdoptionStatus; // 採用状態でのインデックス
+      'by-people': string;   // 人数構成でのインデックス
+      'by-title': string;    // タイトルでのインデックス
     };
   };
   
@@ -24,32 +30,71 @@ interface MenuAppDB extends DBSchema {
     key: string;
     value: any;
   };
+  
+  // AI API呼び出しごとのトークン使用量を保存するオブジェクトストア
+  usage: {
+    key: string;
+    value: UsageRecord;
+    indexes: {
+      'by-created': string;  // 記録日時でのインデックス（期間集計用）
+    };
+  };
+  
+  // 献立カレンダーの予定を保存するオブジェクトストア
+  mealPlans: {
+    key: string;
+    value: MealPlanEntry;
+    indexes: {
+      'by-date': string;     // 予定日でのインデックス（表示期間の取得用）
+      'by-menu': string;     // 献立でのインデックス（献立削除時の後始末用）
+    };
+  };
+  
+  // 買い物リストを保存するオブジェクトストア
+  shoppingLists: {
+    key: string;
+    value: ShoppingList;
+    indexes: {
+      'by-created': string;  // 作成日時でのインデックス
+    };
+  };
+  
+  // 冷蔵庫の在庫を保存するオブジェクトストア
+  pantry: {
+    key: string;
+    value: PantryItem;
+  };
+}
+
+// エクスポート・インポートするデータ
+export interface ExportedData {
+  menus: MenuRecord[];
+  settings: ApiKeyConfig;
+  mealPlans?: MealPlanEntry[];  // 献立カレンダー導入前のエクスポートにはない
+  shoppingLists?: ShoppingList[];  // 買い物リスト導入前のエクスポートにはない
+  pantry?: PantryItem[];  // 在庫管理導入前のエクスポートにはない
+  householdProfiles?: HouseholdProfile[];  // 家族構成プロファイル導入前のエクスポートにはない
 }
 
 class DatabaseService {
   private db: IDBPDatabase<MenuAppDB> | null = null;
   private readonly dbName = 'MenuAppDB';
-  private readonly dbVersion = 1;
+  private readonly dbVersion = LATEST_DB_VERSION;
 
   /**
    * データベースの初期化
-   * アプリ開始時に一度だけ実行される
+   * アプリ開始時に一度だけ実行される（インポート後の再初期化では接続済みの接続をそのまま使う）
    */
   async initialize(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+
     try {
       this.db = await openDB<MenuAppDB>(this.dbName, this.dbVersion, {
-        upgrade(db) {
-          // 献立データ用のオブジェクトストアを作成
-          const menuStore = db.createObjectStore('menus', {
-            keyPath: 'id'
-          });
-          
-          // インデックスを作成（検索とソート用）
-          menuStore.createIndex('by-created', 'createdAt');
-          menuStore.createIndex('by-theme', 'theme');
-          
-          // 設定データ用のオブジェクトストアを作成
-          db.createObjectStore('settings');
+        async upgrade(db, oldVersion, newVersion, transaction) {
+          // 既存のバージョンから1段階ずつ移行する（新規作成時はバージョン0から）
+          await runMigrations(db, oldVersion, newVersion ?? LATEST_DB_VERSION, transaction);
         },
       });
     } catch (error) {
@@ -83,7 +128,7 @@ class DatabaseService {
         throw new Error('同じIDの献立が既に存在します');
       }
       
-      await db.add('menus', menuRecord);
+      await db.add('menus', withIndexFields(menuRecord));
     } catch (error) {
       console.error('献立の保存に失敗しました:', error);
       throw error;
@@ -108,6 +153,105 @@ class DatabaseService {
     }
   }
 
+  /**
+   * 献立データのページ単位の取得
+   * 作成日時の降順で、afterの次からlimit件を返す（afterがnullの場合は先頭から）
+   */
+  async getMenuPage(after: MenuPageCursor | null, limit: number): Promise<{ menus: MenuRecord[]; nextCursor: MenuPageCursor | null }> {
+    const db = this.ensureDB();
+    
+    try {
+      const range = after ? IDBKeyRange.upperBound(after.createdAt) : undefined;
+      let cursor = await db.transaction('menus').store.index('by-created').openCursor(range, 'prev');
+      const menus: MenuRecord[] = [];
+      while (cursor && menus.length < limit) {
+        // 作成日時が同じ献立はIDの降順に並ぶため、読み込み済みのIDまでを読み飛ばす
+        const menu = cursor.value;
+        if (!after || menu.createdAt < after.createdAt || menu.id < after.id) {
+          menus.push(menu);
+        }
+        cursor = await cursor.continue();
+      }
+      
+      const last = menus[menus.length - 1];
+      return {
+        menus,
+        nextCursor: cursor && last ? { createdAt: last.createdAt, id: last.id } : null
+      };
+    } catch (error) {
+      console.error('献立一覧の取得に失敗しました:', error);
+      throw new Error('献立一覧の取得に失敗しました');
+    }
+  }
+
+  /**
+   * 全献立を新しい順に1件ずつ処理（全件を配列に読み込まずに検索する場合に使用）
+   */
+  async forEachMenu(callback: (menu: MenuRecord) => void): Promise<void> {
+    const db = this.ensureDB();
+    
+    try {
+      let cursor = await db.transaction('menus').store.index('by-created').openCursor(null, 'prev');
+      while (cursor) {
+        callback(cursor.value);
+        cursor = await cursor.continue();
+      }
+    } catch (error) {
+      console.error('献立の検索に失敗しました:', error);
+      throw new Error('献立の検索に失敗しました');
+    }
+  }
+
+  /**
+   * 献立の件数（採用状態を指定した場合はその状態の件数）
+   */
+  async countMenus(status?: AdoptionStatus): Promise<number> {
+    const db = this.ensureDB();
+    
+    try {
+      return status ? await db.countFromIndex('menus', 'by-adoption', status) : await db.count('menus');
+    } catch (error) {
+      console.error('献立の件数の取得に失敗しました:', error);
+      throw new Error('献立の件数の取得に失敗しました');
+    }
+  }
+
+  /**
+   * 指定したIDの献立をIDの順に取得（存在しない献立は除く）
+   */
+  async getMenusByIds(ids: string[]): Promise<MenuRecord[]> {
+    const db = this.ensureDB();
+    
+    try {
+      const tx = db.transaction('menus');
+      const menus = await Promise.all(ids.map(id => tx.store.get(id)));
+      return menus.filter((menu): menu is MenuRecord => menu !== undefined);
+    } catch (error) {
+      console.error('献立の取得に失敗しました:', error);
+      throw new Error('献立の取得に失敗しました');
+    }
+  }
+
+  /**
+   * 保存済みの献立に含まれるテーマ・人数構成の一覧（絞り込みの選択肢用）
+   */
+  async getDistinctMenuValues(index: 'by-theme' | 'by-people'): Promise<string[]> {
+    const db = this.ensureDB();
+    
+    try {
+      const values: string[] = [];
+      let cursor = await db.transaction('menus').store.index(index).openKeyCursor(null, 'nextunique');
+      while (cursor) {
+        values.push(cursor.key);
+        cursor = await cursor.continue();
+      }
+      return values;
+    } catch (error) {
+      console.error('絞り込みの選択肢の取得に失敗しました:', error);
+      throw new Error('絞り込みの選択肢の取得に失敗しました');
+    }
+  }
+
   /**
    * 特定の献立データの取得
    */
@@ -130,7 +274,7 @@ class DatabaseService {
     const db = this.ensureDB();
     
     try {
-      await db.put('menus', menuRecord);
+      await db.put('menus', withIndexFields(menuRecord));
     } catch (error) {
       console.error('献立の更新に失敗しました:', error);
       throw new Error('献立の更新に失敗しました');
@@ -139,12 +283,21 @@ class DatabaseService {
 
   /**
    * 献立データの削除
+   * 献立カレンダーに割り当てた予定も合わせて削除する
    */
   async deleteMenu(id: string): Promise<void> {
     const db = this.ensureDB();
     
     try {
-      await db.delete('menus', id);
+      const tx = db.transaction(['menus', 'mealPlans'], 'readwrite');
+      await tx.objectStore('menus').delete(id);
+      
+      const planKeys = await tx.objectStore('mealPlans').index('by-menu').getAllKeys(id);
+      for (const key of planKeys) {
+        await tx.objectStore('mealPlans').delete(key);
+      }
+      
+      await tx.done;
     } catch (error) {
       console.error('献立の削除に失敗しました:', error);
       throw new Error('献立の削除に失敗しました');
@@ -166,6 +319,242 @@ class DatabaseService {
     }
   }
 
+  /**
+   * 採用状態別献立の検索
+   */
+  async getMenusByAdoption(status: AdoptionStatus): Promise<MenuRecord[]> {
+    const db = this.ensureDB();
+    
+    try {
+      const menus = await db.getAllFromIndex('menus', 'by-adoption', status);
+      return menus.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    } catch (error) {
+      console.error('採用状態別献立の取得に失敗しました:', error);
+      throw new Error('採用状態別献立の取得に失敗しました');
+    }
+  }
+
+  /**
+   * 人数構成別献立の検索
+   */
+  async getMenusByPeoplePattern(peoplePattern: string): Promise<MenuRecord[]> {
+    const db = this.ensureDB();
+    
+    try {
+      const menus = await db.getAllFromIndex('menus', 'by-people', peoplePattern);
+      return menus.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    } catch (error) {
+      console.error('人数構成別献立の取得に失敗しました:', error);
+      throw new Error('人数構成別献立の取得に失敗しました');
+    }
+  }
+
+  /**
+   * タイトルが一致する献立の検索（保存時の重複確認用）
+   */
+  async getMenusByTitle(title: string): Promise<MenuRecord[]> {
+    const db = this.ensureDB();
+    
+    try {
+      return await db.getAllFromIndex('menus', 'by-title', title);
+    } catch (error) {
+      console.error('タイトルでの献立の取得に失敗しました:', error);
+      throw new Error('タイトルでの献立の取得に失敗しました');
+    }
+  }
+
+  /**
+   * トークン使用量の記録
+   */
+  async addUsageRecord(record: UsageRecord): Promise<void> {
+    const db = this.ensureDB();
+    
+    try {
+      await db.add('usage', record);
+    } catch (error) {
+      console.error('使用量の記録に失敗しました:', error);
+      throw new Error('使用量の記録に失敗しました');
+    }
+  }
+
+  /**
+   * 指定日時以降のトークン使用量の取得
+   * 記録日時の昇順で返す
+   */
+  async getUsageRecordsSince(since: Date): Promise<UsageRecord[]> {
+    const db = this.ensureDB();
+    
+    try {
+      return await db.getAllFromIndex('usage', 'by-created', IDBKeyRange.lowerBound(since.toISOString()));
+    } catch (error) {
+      console.error('使用量の取得に失敗しました:', error);
+      throw new Error('使用量の取得に失敗しました');
+    }
+  }
+
+  /**
+   * 指定期間の献立カレンダーの予定の取得
+   * from・toはYYYY-MM-DD形式（両端を含む）で、予定日の昇順で返す
+   */
+  async getMealPlanEntries(from: string, to: string): Promise<MealPlanEntry[]> {
+    const db = this.ensureDB();
+    
+    try {
+      return await db.getAllFromIndex('mealPlans', 'by-date', IDBKeyRange.bound(from, to));
+    } catch (error) {
+      console.error('献立カレンダーの取得に失敗しました:', error);
+      throw new Error('献立カレンダーの取得に失敗しました');
+    }
+  }
+
+  /**
+   * 献立カレンダーの予定の保存（同じIDがあれば上書き）
+   */
+  async saveMealPlanEntry(entry: MealPlanEntry): Promise<void> {
+    const db = this.ensureDB();
+    
+    try {
+      await db.put('mealPlans', entry);
+    } catch (error) {
+      console.error('献立カレンダーの保存に失敗しました:', error);
+      throw new Error('献立カレンダーの保存に失敗しました');
+    }
+  }
+
+  /**
+   * 1週間分の献立と献立カレンダーの予定をまとめて保存
+   * 1つのトランザクションで保存し、途中で失敗した場合は何も保存しない
+   */
+  async saveWeekPlan(menus: MenuRecord[], entries: MealPlanEntry[]): Promise<void> {
+    const db = this.ensureDB();
+    
+    try {
+      const tx = db.transaction(['menus', 'mealPlans'], 'readwrite');
+      await Promise.all([
+        ...menus.map(menu => tx.objectStore('menus').add(withIndexFields(menu))),
+        ...entries.map(entry => tx.objectStore('mealPlans').put(entry)),
+        tx.done
+      ]);
+    } catch (error) {
+      console.error('1週間分の献立の保存に失敗しました:', error);
+      throw new Error('1週間分の献立の保存に失敗しました');
+    }
+  }
+
+  /**
+   * 献立を割り当てた予定の件数
+   */
+  async countMealPlanEntriesForMenu(menuId: string): Promise<number> {
+    const db = this.ensureDB();
+    
+    try {
+      return await db.countFromIndex('mealPlans', 'by-menu', menuId);
+    } catch (error) {
+      console.error('献立カレンダーの取得に失敗しました:', error);
+      throw new Error('献立カレンダーの取得に失敗しました');
+    }
+  }
+
+  /**
+   * 献立カレンダーの予定の削除
+   */
+  async deleteMealPlanEntry(id: string): Promise<void> {
+    const db = this.ensureDB();
+    
+    try {
+      await db.delete('mealPlans', id);
+    } catch (error) {
+      console.error('献立カレンダーの削除に失敗しました:', error);
+      throw new Error('献立カレンダーの削除に失敗しました');
+    }
+  }
+
+  /**
+   * 全買い物リストの取得
+   * 作成日時の降順（新しい順）で返す
+   */
+  async getAllShoppingLists(): Promise<ShoppingList[]> {
+    const db = this.ensureDB();
+    
+    try {
+      const lists = await db.getAllFromIndex('shoppingLists', 'by-created');
+      return lists.reverse();
+    } catch (error) {
+      console.error('買い物リストの取得に失敗しました:', error);
+      throw new Error('買い物リストの取得に失敗しました');
+    }
+  }
+
+  /**
+   * 買い物リストの保存（同じIDがあれば上書き）
+   */
+  async saveShoppingList(list: ShoppingList): Promise<void> {
+    const db = this.ensureDB();
+    
+    try {
+      await db.put('shoppingLists', list);
+    } catch (error) {
+      console.error('買い物リストの保存に失敗しました:', error);
+      throw new Error('買い物リストの保存に失敗しました');
+    }
+  }
+
+  /**
+   * 買い物リストの削除
+   */
+  async deleteShoppingList(id: string): Promise<void> {
+    const db = this.ensureDB();
+    
+    try {
+      await db.delete('shoppingLists', id);
+    } catch (error) {
+      console.error('買い物リストの削除に失敗しました:', error);
+      throw new Error('買い物リストの削除に失敗しました');
+    }
+  }
+
+  /**
+   * 冷蔵庫の全在庫の取得
+   */
+  async getAllPantryItems(): Promise<PantryItem[]> {
+    const db = this.ensureDB();
+    
+    try {
+      return await db.getAll('pantry');
+    } catch (error) {
+      console.error('在庫の取得に失敗しました:', error);
+      throw new Error('在庫の取得に失敗しました');
+    }
+  }
+
+  /**
+   * 在庫の保存（同じIDがあれば上書き）
+   */
+  async savePantryItem(item: PantryItem): Promise<void> {
+    const db = this.ensureDB();
+    
+    try {
+      await db.put('pantry', item);
+    } catch (error) {
+      console.error('在庫の保存に失敗しました:', error);
+      throw new Error('在庫の保存に失敗しました');
+    }
+  }
+
+  /**
+   * 在庫の削除
+   */
+  async deletePantryItem(id: string): Promise<void> {
+    const db = this.ensureDB();
+    
+    try {
+      await db.delete('pantry', id);
+    } catch (error) {
+      console.error('在庫の削除に失敗しました:', error);
+      throw new Error('在庫の削除に失敗しました');
+    }
+  }
+
   /**
    * APIキー設定の保存
    */
@@ -197,16 +586,23 @@ class DatabaseService {
 
   /**
    * 全データのエクスポート
-   * JSON形式で全献立データを返す
+   * JSON形式で全献立データを返す（家族構成プロファイルはlocalStorageに保存しているため呼び出し側から渡す）
    */
-  async exportAllData(): Promise<{ menus: MenuRecord[], settings: ApiKeyConfig }> {
+  async exportAllData(householdProfiles: HouseholdProfile[]): Promise<ExportedData> {
     try {
       const menus = await this.getAllMenus();
       const settings = await this.getApiKeys();
+      const mealPlans = await this.ensureDB().getAll('mealPlans');
+      const shoppingLists = await this.getAllShoppingLists();
+      const pantry = await this.getAllPantryItems();
       
       return {
         menus,
-        settings
+        settings,
+        mealPlans,
+        shoppingLists,
+        pantry,
+        householdProfiles
       };
     } catch (error) {
       console.error('データのエクスポートに失敗しました:', error);
@@ -216,21 +612,43 @@ class DatabaseService {
 
   /**
    * データのインポート
-   * エクスポートされたJSONデータからデータを復元
+   * エクスポートされたJSONデータからデータを復元（家族構成プロファイルは呼び出し側で復元する）
    */
-  async importData(data: { menus: MenuRecord[], settings: ApiKeyConfig }): Promise<void> {
+  async importData(data: ExportedData): Promise<void> {
     const db = this.ensureDB();
     
     try {
       // トランザクションを使用して一括更新
-      const tx = db.transaction(['menus', 'settings'], 'readwrite');
+      const tx = db.transaction(['menus', 'settings', 'mealPlans', 'shoppingLists', 'pantry'], 'readwrite');
       
       // 既存データをクリア
       await tx.objectStore('menus').clear();
+      await tx.objectStore('mealPlans').clear();
+      await tx.objectStore('shoppingLists').clear();
+      await tx.objectStore('pantry').clear();
       
-      // 献立データを復元
+      // 献立データを復元（材料の解析結果・基準人数がない古いデータは補う）
       for (const menu of data.menus) {
-        await tx.objectStore('menus').add(menu);
+        await tx.objectStore('menus').add(withIndexFields({
+          ...menu,
+          parsedIngredients: menu.parsedIngredients ?? parseIngredients(menu.ingredients),
+          servings: menu.servings ?? estimateServings(menu.peoplePattern)
+        }));
+      }
+      
+      // 献立カレンダーを復元
+      for (const entry of data.mealPlans ?? []) {
+        await tx.objectStore('mealPlans').add(entry);
+      }
+      
+      // 買い物リストを復元
+      for (const list of data.shoppingLists ?? []) {
+        await tx.objectStore('shoppingLists').add(list);
+      }
+      
+      // 冷蔵庫の在庫を復元
+      for (const item of data.pantry ?? []) {
+        await tx.objectStore('pantry').add(item);
       }
       
       // 設定データを復元
@@ -0,0 +1,55 @@
+/**
+ * 献立（MenuItem）の応答スキーマ
+ * 構造化出力に対応するプロバイダーにはJSON Schemaとして渡し、
+ * 対応しないプロバイダーには同じ定義から作った形式指示をプロンプトに添える
+ */
+
+import type { StructuredOutputSpec } from './providers';
+
+/**
+ * MenuItem 1件分のJSON Schema
+ */
+export const MENU_ITEM_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: '献立名（味付けがわかるように記載）' },
+    description: { type: 'string', description: '見出し文（味付けがわかるように記載）' },
+    detail: { type: 'string', description: '献立の詳細な説明' },
+    ingredients: { type: 'array', items: { type: 'string' }, description: '材料とその分量' },
+    steps: { type: 'array', items: { type: 'string' }, description: '料理手順' },
+    time: { type: 'string', description: '所要時間（例: 20分）' }
+  },
+  required: ['title', 'description', 'detail', 'ingredients', 'steps', 'time'],
+  additionalProperties: false
+} as const;
+
+/**
+ * 献立一覧の構造化出力指定
+ * ルートをobjectにする必要があるため、配列はmenusプロパティに入れる
+ */
+export const MENU_LIST_OUTPUT: StructuredOutputSpec = {
+  name: 'menu_list',
+  description: '提案する献立の一覧',
+  schema: {
+    type: 'object',
+    properties: {
+      menus: { type: 'array', items: MENU_ITEM_SCHEMA }
+    },
+    required: ['menus'],
+    additionalProperties: false
+  }
+};
+
+/**
+ * 構造化出力に対応しないプロバイダー向けの形式指示
+ * スキーマの説明文を値にした1件分の例を示す
+ */
+export const MENU_FORMAT_INSTRUCTION = (() => {
+  const example = Object.fromEntries(
+    Object.entries(MENU_ITEM_SCHEMA.properties).map(([key, property]) => [
+      key,
+      property.type === 'array' ? [`${property.description}1`, `${property.description}2`] : property.description
+    ])
+  );
+  return `以下の形式のオブジェクトを要素とするJSON配列のみで回答してください:\n[\n${JSON.stringify(example, null, 2)}\n]`;
+})();
@@ -0,0 +1,225 @@
+/**
+ * スキーマ移行のテスト
+ * 各バージョン時点のスキーマで作成したデータベースを、最新のバージョンへ移行できることを確認する
+ */
+
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { deleteDB, openDB } from 'idb';
+import type { IDBPDatabase } from 'idb';
+import type { MealPlanEntry, MenuRecord, ParsedIngredient } from '../types';
+import { databaseService } from './database';
+import { LATEST_DB_VERSION } from './migrations';
+
+const DB_NAME = 'MenuAppDB';
+
+// 移行前の献立（バージョンによって存在しない項目は除いて保存する）
+type LegacyMenu = Omit<MenuRecord, 'parsedIngredients' | 'servings' | 'adoptionStatus'> & {
+  parsedIngredients?: ParsedIngredient[];
+  servings?: number;
+};
+
+const LEGACY_MENUS: LegacyMenu[] = [
+  {
+    id: 'menu-adopted',
+    title: '豚肉と玉ねぎの生姜焼き',
+    description: 'ご飯がすすむ定番の味',
+    detail: '',
+    ingredients: ['豚こま切れ肉 200g', '醤油 大さじ2', '玉ねぎ 1/2個', 'しょうが（チューブ） 小さじ1'],
+    steps: ['豚肉を焼く。', 'タレをからめる。'],
+    time: '15分',
+    theme: ['夏', 'がっつり'],
+    peoplePattern: '夫婦2人',
+    createdAt: '2025-01-03T10:00:00.000Z',
+    inputIngredients: ['豚肉'],
+    isAdopted: true
+  },
+  {
+    id: 'menu-rejected',
+    title: '鮭のちゃんちゃん焼き',
+    description: '味噌のコクで体が温まる',
+    detail: '',
+    ingredients: ['鮭 2〜3切れ', '塩 少々', 'キャベツ 1/4玉'],
+    steps: ['鮭とキャベツを蒸し焼きにする。'],
+    time: '20分',
+    theme: ['冬'],
+    peoplePattern: '夫婦＋子ども2人の4人',
+    createdAt: '2025-01-02T10:00:00.000Z',
+    inputIngredients: ['鮭'],
+    isAdopted: false
+  },
+  {
+    id: 'menu-unset',
+    title: '卵スープ',
+    description: 'さっと作れる',
+    detail: '',
+    ingredients: ['卵 1個', '水 400ml', 'しょうゆ…小さじ1'],
+    steps: ['卵を溶き入れる。'],
+    time: '5分',
+    theme: [],
+    peoplePattern: 'ひとり暮らし',
+    createdAt: '2025-01-01T10:00:00.000Z',
+    inputIngredients: []
+  }
+];
+
+// v3の移行で追加される材料の解析結果
+const EXPECTED_PARSED: Record<string, ParsedIngredient[]> = {
+  'menu-adopted': [
+    { name: '豚こま切れ肉', quantity: 200, unit: 'g', note: null },
+    { name: '醤油', quantity: 2, unit: '大さじ', note: null },
+    { name: '玉ねぎ', quantity: 0.5, unit: '個', note: null },
+    { name: 'しょうが', quantity: 1, unit: '小さじ', note: 'チューブ' }
+  ],
+  'menu-rejected': [
+    { name: '鮭', quantity: 2, quantityMax: 3, unit: '切れ', note: null },
+    { name: '塩', quantity: null, unit: '少々', note: null },
+    { name: 'キャベツ', quantity: 0.25, unit: '玉', note: null }
+  ],
+  'menu-unset': [
+    { name: '卵', quantity: 1, unit: '個', note: null },
+    { name: '水', quantity: 400, unit: 'ml', note: null },
+    { name: 'しょうゆ', quantity: 1, unit: '小さじ', note: null }
+  ]
+};
+
+// v4の移行で追加される基準人数
+const EXPECTED_SERVINGS: Record<string, number> = {
+  'menu-adopted': 2,
+  'menu-rejected': 4,
+  'menu-unset': 2
+};
+
+// v3以降のデータベースに保存済みの解析結果（移行で上書きされないことを確認する）
+const SAVED_PARSED: ParsedIngredient[] = [{ name: '保存済み', quantity: 1, unit: '個', note: null }];
+
+const MEAL_PLAN_ENTRY: MealPlanEntry = {
+  id: 'plan-1',
+  date: '2025-01-04',
+  slot: 'dinner',
+  menuId: 'menu-adopted',
+  createdAt: '2025-01-03T12:00:00.000Z'
+};
+
+/**
+ * 指定したバージョン時点のスキーマとデータでデータベースを作成
+ * 移行処理を使わず、各バージョンで公開していたスキーマをそのまま再現する
+ */
+async function createFixtureDatabase(version: number): Promise<void> {
+  const db: IDBPDatabase = await openDB(DB_NAME, version, {
+    upgrade(db) {
+      const menuStore = db.createObjectStore('menus', { keyPath: 'id' });
+      menuStore.createIndex('by-created', 'createdAt');
+      menuStore.createIndex('by-theme', 'theme');
+      db.createObjectStore('settings');
+      if (version >= 2) {
+        db.createObjectStore('usage', { keyPath: 'id' }).createIndex('by-created', 'createdAt');
+      }
+      if (version >= 5) {
+        const mealPlanStore = db.createObjectStore('mealPlans', { keyPath: 'id' });
+        mealPlanStore.createIndex('by-date', 'date');
+        mealPlanStore.createIndex('by-menu', 'menuId');
+      }
+      if (version >= 6) {
+        db.createObjectStore('shoppingLists', { keyPath: 'id' }).createIndex('by-created', 'createdAt');
+      }
+      if (version >= 7) {
+        db.createObjectStore('pantry', { keyPath: 'id' });
+      }
+    }
+  });
+
+  for (const menu of LEGACY_MENUS) {
+    await db.add('menus', {
+      ...menu,
+      ...(version >= 3 && { parsedIngredients: SAVED_PARSED }),
+      ...(version >= 4 && { servings: 3 })
+    });
+  }
+  await db.put('settings', { openai: 'sk-test' }, 'apiKeys');
+  if (version >= 5) {
+    await db.add('mealPlans', MEAL_PLAN_ENTRY);
+  }
+  db.close();
+}
+
+/**
+ * 移行後のデータベースを直接開く（インデックスの定義を確認するため）
+ */
+async function openMigratedDatabase(): Promise<IDBPDatabase> {
+  databaseService.close();
+  return openDB(DB_NAME);
+}
+
+describe('IndexedDBのスキーマ移行', () => {
+  beforeEach(async () => {
+    await deleteDB(DB_NAME);
+  });
+
+  afterEach(() => {
+    databaseService.close();
+  });
+
+  it('新規作成時は最新のスキーマで作成する', async () => {
+    await databaseService.initialize();
+    const db = await openMigratedDatabase();
+
+    expect(db.version).toBe(LATEST_DB_VERSION);
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(['mealPlans', 'menus', 'pantry', 'settings', 'shoppingLists', 'usage']);
+    db.close();
+  });
+
+  describe.each([1, 2, 3, 4, 5, 6, 7])('バージョン%iから移行する場合', (version) => {
+    beforeEach(async () => {
+      await createFixtureDatabase(version);
+      await databaseService.initialize();
+    });
+
+    it('テーマのインデックスを配列の要素ごとに作り直す', async () => {
+      expect((await databaseService.getMenusByTheme('夏')).map(menu => menu.id)).toEqual(['menu-adopted']);
+      expect((await databaseService.getMenusByTheme('がっつり')).map(menu => menu.id)).toEqual(['menu-adopted']);
+      expect(await databaseService.getDistinctMenuValues('by-theme')).toEqual(['がっつり', '冬', '夏']);
+
+      const db = await openMigratedDatabase();
+      expect(db.version).toBe(LATEST_DB_VERSION);
+      expect(db.transaction('menus').store.index('by-theme').multiEntry).toBe(true);
+      db.close();
+    });
+
+    it('採用状態・人数構成・タイトルのインデックスを追加する', async () => {
+      const db = await openMigratedDatabase();
+      const menuStore = db.transaction('menus').store;
+      expect(Array.from(menuStore.indexNames).sort()).toEqual(['by-adoption', 'by-created', 'by-people', 'by-theme', 'by-title']);
+      expect(menuStore.index('by-adoption').keyPath).toBe('adoptionStatus');
+      expect(menuStore.index('by-people').keyPath).toBe('peoplePattern');
+      expect(menuStore.index('by-title').keyPath).toBe('title');
+      db.close();
+
+      await databaseService.initialize();
+      expect((await databaseService.getMenusByAdoption('adopted')).map(menu => menu.id)).toEqual(['menu-adopted']);
+      expect((await databaseService.getMenusByAdoption('rejected')).map(menu => menu.id)).toEqual(['menu-rejected']);
+      expect((await databaseService.getMenusByAdoption('unset')).map(menu => menu.id)).toEqual(['menu-unset']);
+      expect((await databaseService.getMenusByTitle('卵スープ')).map(menu => menu.id)).toEqual(['menu-unset']);
+      expect(await databaseService.countMenus('adopted')).toBe(1);
+    });
+
+    it('既存の献立にインデックス用の値と解析結果を補う', async () => {
+      const menus = await databaseService.getAllMenus();
+      expect(menus.map(menu => menu.id)).toEqual(['menu-adopted', 'menu-rejected', 'menu-unset']);
+
+      for (const menu of menus) {
+        expect(menu.adoptionStatus).toBe(
+          menu.isAdopted === true ? 'adopted' : menu.isAdopted === false ? 'rejected' : 'unset'
+        );
+        // 保存済みの解析結果・基準人数はそのまま残す
+        expect(menu.parsedIngredients).toEqual(version >= 3 ? SAVED_PARSED : EXPECTED_PARSED[menu.id]);
+        expect(menu.servings).toBe(version >= 4 ? 3 : EXPECTED_SERVINGS[menu.id]);
+      }
+    });
+
+    it('他のオブジェクトストアのデータを残す', async () => {
+      expect(await databaseService.getApiKeys()).toEqual({ openai: 'sk-test' });
+      expect(await databaseService.getMealPlanEntries('2025-01-01', '2025-01-31')).toEqual(version >= 5 ? [MEAL_PLAN_ENTRY] : []);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * IndexedDBのスキーマ移行
+ * バージョンごとの移行処理を古い順に定義し、既存のデータベースのバージョンから1段階ずつ適用する
+ */
+
+import type { IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type { AdoptionStatus, MenuRecord } from '../types';
+import type { MenuAppDB } from './database';
+import { parseIngredients } from '../utils/ingredientParser';
+import { estimateServings } from '../utils/servings';
+
+type UpgradeTransaction = IDBPTransaction<MenuAppDB, ArrayLike<StoreNames<MenuAppDB>>, 'versionchange'>;
+
+/**
+ * 1バージョン分の移行処理
+ */
+export interface Migration {
+  version: number;         // 移行後のバージョン
+  description: string;
+  migrate: (db: IDBPDatabase<MenuAppDB>, transaction: UpgradeTransaction) => Promise<void>;
+}
+
+/**
+ * 採用状態のインデックス用の値
+ */
+export function getAdoptionStatus(isAdopted: boolean | undefined): AdoptionStatus {
+  if (isAdopted === true) {
+    return 'adopted';
+  }
+  return isAdopted === false ? 'rejected' : 'unset';
+}
+
+/**
+ * 保存する献立にインデックス用の値を設定
+ */
+export function withIndexFields(menu: MenuRecord): MenuRecord {
+  return { ...menu, adoptionStatus: getAdoptionStatus(menu.isAdopted) };
+}
+
+/**
+ * 既存の献立をすべて書き換える
+ */
+async function updateAllMenus(transaction: UpgradeTransaction, update: (menu: MenuRecord) => MenuRecord | null): Promise<void> {
+  let cursor = await transaction.objectStore('menus').openCursor();
+  while (cursor) {
+    const updated = update(cursor.value);
+    if (updated) {
+      await cursor.update(updated);
+    }
+    cursor = await cursor.continue();
+  }
+}
+
+/**
+ * 移行処理の一覧（バージョンの昇順）
+ * 公開済みの移行処理は変更せず、スキーマを変えるときは末尾に新しいバージョンを追加する
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: '献立と設定のオブジェクトストアを作成',
+    migrate: async (db) => {
+      const menuStore = db.createObjectStore('menus', { keyPath: 'id' });
+      menuStore.createIndex('by-created', 'createdAt');
+      menuStore.createIndex('by-theme', 'theme');
+      db.createObjectStore('settings');
+    }
+  },
+  {
+    version: 2,
+    description: 'トークン使用量のオブジェクトストアを作成',
+    migrate: async (db) => {
+      const usageStore = db.createObjectStore('usage', { keyPath: 'id' });
+      usageStore.createIndex('by-created', 'createdAt');
+    }
+  },
+  {
+    version: 3,
+    description: '既存の献立に材料の解析結果を追加',
+    migrate: async (_db, transaction) => {
+      await updateAllMenus(transaction, menu =>
+        menu.parsedIngredients ? null : { ...menu, parsedIngredients: parseIngredients(menu.ingredients) });
+    }
+  },
+  {
+    version: 4,
+    description: '既存の献立に分量の基準人数を追加',
+    migrate: async (_db, transaction) => {
+      await updateAllMenus(transaction, menu =>
+        menu.servings ? null : { ...menu, servings: estimateServings(menu.peoplePattern) });
+    }
+  },
+  {
+    version: 5,
+    description: '献立カレンダーのオブジェクトストアを作成',
+    migrate: async (db) => {
+      const mealPlanStore = db.createObjectStore('mealPlans', { keyPath: 'id' });
+      mealPlanStore.createIndex('by-date', 'date');
+      mealPlanStore.createIndex('by-menu', 'menuId');
+    }
+  },
+  {
+    version: 6,
+    description: '買い物リストのオブジェクトストアを作成',
+    migrate: async (db) => {
+      const shoppingListStore = db.createObjectStore('shoppingLists', { keyPath: 'id' });
+      shoppingListStore.createIndex('by-created', 'createdAt');
+    }
+  },
+  {
+    version: 7,
+    description: '冷蔵庫の在庫のオブジェクトストアを作成',
+    migrate: async (db) => {
+      // 期限が未設定の食材もあるため期限のインデックスは作らず、表示時に並べ替える
+      db.createObjectStore('pantry', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 8,
+    description: 'テーマのインデックスをテーマごとに作り直し、採用状態・人数構成・タイトルのインデックスを追加',
+    migrate: async (_db, transaction) => {
+      const menuStore = transaction.objectStore('menus');
+
+      // テーマの配列全体を1つのキーにしていたため、配列の要素ごとに登録する
+      menuStore.deleteIndex('by-theme');
+      menuStore.createIndex('by-theme', 'theme', { multiEntry: true });
+
+      menuStore.createIndex('by-adoption', 'adoptionStatus');
+      menuStore.createIndex('by-people', 'peoplePattern');
+      menuStore.createIndex('by-title', 'title');
+
+      await updateAllMenus(transaction, withIndexFields);
+    }
+  }
+];
+
+/**
+ * 最新のスキーマのバージョン
+ */
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * 既存のバージョンより新しい移行処理を順に適用
+ */
+export async function runMigrations(
+  db: IDBPDatabase<MenuAppDB>,
+  oldVersion: number,
+  newVersion: number,
+  transaction: UpgradeTransaction
+): Promise<void> {
+  for (const migration of MIGRATIONS) {
+    if (migration.version > oldVersion && migration.version <= newVersion) {
+      await migration.migrate(db, transaction);
+    }
+  }
+}
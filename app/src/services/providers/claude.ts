@@ -0,0 +1,236 @@
+/**
+ * Claude APIプロバイダー
+ * Anthropic Messages APIとの通信
+ */
+
+import type { ProviderConfig, TokenUsage } from '../../types';
+import type { AIProviderDefinition, AICompletionRequest, AICompletionResult, AIModelInfo } from './types';
+import { readEventStream } from './streaming';
+import { ProviderHttpError, parseRetryAfter } from './errors';
+
+/**
+ * Claude API呼び出し用の設定
+ */
+const CLAUDE_CONFIG = {
+  apiUrl: 'https://api.anthropic.com/v1/messages',
+  apiVersion: '2023-06-01',
+  model: 'claude-3-5-sonnet-20241022'
+};
+
+/**
+ * 選択できるモデル
+ * 5つの詳細な献立には2000トークンでは不足するため、既定値は上限近くにする
+ */
+const CLAUDE_MODELS: AIModelInfo[] = [
+  {
+    id: 'claude-3-5-sonnet-20241022',
+    label: 'Claude 3.5 Sonnet',
+    maxOutputTokens: 8192,
+    defaultMaxTokens: 8000,
+    temperatureRange: [0, 1]
+  },
+  {
+    id: 'claude-3-7-sonnet-20250219',
+    label: 'Claude 3.7 Sonnet',
+    maxOutputTokens: 64000,
+    defaultMaxTokens: 8000,
+    temperatureRange: [0, 1]
+  },
+  {
+    id: 'claude-3-5-haiku-20241022',
+    label: 'Claude 3.5 Haiku',
+    maxOutputTokens: 8192,
+    defaultMaxTokens: 8000,
+    temperatureRange: [0, 1]
+  }
+];
+
+class ClaudeProvider implements AIProviderDefinition {
+  readonly id = 'claude';
+  readonly label = 'Claude';
+  readonly description = 'Anthropic Claude APIを使用';
+  readonly apiKey = {
+    field: 'claudeKey',
+    label: 'Claude APIキー',
+    placeholder: 'sk-ant-...',
+    help: {
+      url: 'https://console.anthropic.com/',
+      linkText: 'console.anthropic.com',
+      text: 'でアカウント作成後、APIキーを生成'
+    }
+  };
+  readonly models = CLAUDE_MODELS;
+  readonly defaultModel = CLAUDE_CONFIG.model;
+  readonly supportsStructuredOutput = true;
+
+  /**
+   * Claude APIキーは'sk-ant-'で始まる
+   */
+  validateApiKey(apiKey: string): boolean {
+    return apiKey.startsWith('sk-ant-') && apiKey.length > 30;
+  }
+
+  /**
+   * 最小トークン数のリクエストで接続を確認
+   */
+  async testConnection(apiKey: string, _config: ProviderConfig, model: string): Promise<boolean> {
+    const response = await fetch(CLAUDE_CONFIG.apiUrl, {
+      method: 'POST',
+      headers: this.buildHeaders(apiKey),
+      body: JSON.stringify({
+        model,
+        max_tokens: 10,
+        messages: [{ role: 'user', content: 'こんにちは' }]
+      })
+    });
+    return response.ok;
+  }
+
+  /**
+   * Claude Messages APIを呼び出し
+   * onDeltaが指定された場合はストリーミングで受信する
+   */
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    const { model, maxTokens, temperature } = request.generation;
+
+    try {
+      const response = await fetch(CLAUDE_CONFIG.apiUrl, {
+        method: 'POST',
+        signal: request.signal,
+        headers: this.buildHeaders(request.apiKey),
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens,
+          ...(temperature !== undefined && { temperature }),
+          system: request.systemPrompt,
+          messages: request.messages,
+          // 構造化出力はツール呼び出しを強制し、その入力として受け取る
+          ...(request.responseFormat && {
+            tools: [{
+              name: request.responseFormat.name,
+              description: request.responseFormat.description,
+              input_schema: request.responseFormat.schema
+            }],
+            tool_choice: { type: 'tool', name: request.responseFormat.name }
+          }),
+          ...(request.onDelta && { stream: true })
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new ProviderHttpError(
+          `Claude API エラー: ${response.status} - ${errorData.error?.message || 'Unknown error'}`,
+          response.status,
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
+      }
+
+      if (request.onDelta) {
+        return await this.readStream(response, model, request.onDelta);
+      }
+
+      const data = await response.json();
+      const content = this.extractContent(data.content);
+
+      if (!content) {
+        throw new Error('Claude APIからの応答が空です');
+      }
+
+      return { content, model: data.model || model, usage: this.toTokenUsage(data.usage) };
+    } catch (error) {
+      console.error('Claude API呼び出しエラー:', error);
+
+      if (error instanceof Error) {
+        // API固有のエラーメッセージを保持
+        throw error;
+      }
+
+      throw new Error('Claude APIとの通信に失敗しました');
+    }
+  }
+
+  /**
+   * コンテンツブロックから応答テキストを取り出す
+   * ツール呼び出しの場合は入力をJSON文字列として返す
+   */
+  private extractContent(blocks: { type: string; text?: string; input?: unknown }[] | undefined): string | undefined {
+    const toolUse = blocks?.find(block => block.type === 'tool_use');
+    if (toolUse) {
+      return JSON.stringify(toolUse.input);
+    }
+    return blocks?.find(block => block.type === 'text')?.text;
+  }
+
+  /**
+   * SSEで届くテキスト（ツール呼び出しの場合は入力JSON）の差分を連結し、onDeltaに通知
+   */
+  private async readStream(
+    response: Response,
+    requestedModel: string,
+    onDelta: (text: string) => void
+  ): Promise<AICompletionResult> {
+    let content = '';
+    let model = requestedModel;
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    await readEventStream(response, ({ data }) => {
+      const event = JSON.parse(data);
+
+      switch (event.type) {
+        case 'message_start':
+          model = event.message?.model || model;
+          inputTokens = event.message?.usage?.input_tokens ?? inputTokens;
+          break;
+        case 'message_delta':
+          // 出力トークン数は累計で届く
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            content += event.delta.text;
+            onDelta(event.delta.text);
+          } else if (event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
+            content += event.delta.partial_json;
+            onDelta(event.delta.partial_json);
+          }
+          break;
+        case 'error':
+          throw new Error(`Claude API エラー: ${event.error?.message || 'Unknown error'}`);
+      }
+    });
+
+    if (!content) {
+      throw new Error('Claude APIからの応答が空です');
+    }
+
+    return { content, model, usage: { promptTokens: inputTokens, completionTokens: outputTokens } };
+  }
+
+  /**
+   * APIの使用量を共通形式に変換
+   */
+  private toTokenUsage(usage: { input_tokens?: number; output_tokens?: number } | undefined): TokenUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+    return {
+      promptTokens: usage.input_tokens ?? 0,
+      completionTokens: usage.output_tokens ?? 0
+    };
+  }
+
+  /**
+   * Claude API共通のリクエストヘッダー
+   */
+  private buildHeaders(apiKey: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': CLAUDE_CONFIG.apiVersion
+    };
+  }
+}
+
+export const claudeProvider = new ClaudeProvider();
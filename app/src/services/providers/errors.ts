@@ -0,0 +1,46 @@
+/**
+ * プロバイダーAPI呼び出しのエラー
+ * HTTPステータスとRetry-Afterを保持し、再試行の判断に使用する
+ */
+
+export class ProviderHttpError extends Error {
+  readonly status: number;
+  readonly retryAfterMs?: number;   // Retry-Afterヘッダーで指定された待機時間
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderHttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  /**
+   * 時間をおいて再試行すれば成功しうるエラーか
+   * （レート制限・タイムアウト・サーバー側の一時的な障害）
+   */
+  get retryable(): boolean {
+    return this.status === 429 || this.status === 408 || this.status >= 500;
+  }
+}
+
+/**
+ * Retry-Afterヘッダー（秒数またはHTTP日付）をミリ秒に変換
+ * 解釈できない場合はundefined
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
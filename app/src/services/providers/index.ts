@@ -0,0 +1,192 @@
+/**
+ * AIプロバイダーのレジストリ
+ * 利用可能なプロバイダーを登録し、IDから定義を引けるようにする
+ */
+
+import type { AIProvider, ApiKeyConfig, ProviderConfig } from '../../types';
+import type { AIProviderDefinition, GenerationSettings, ModelLimits, ReasoningEffort } from './types';
+import { openaiProvider } from './openai';
+import { claudeProvider } from './claude';
+import { localProvider } from './local';
+import { mockProvider } from './mock';
+
+export type * from './types';
+export type { RetryPolicy } from './retry';
+export { ProviderHttpError } from './errors';
+export { completeWithRetry } from './retry';
+
+/**
+ * 生成パラメーターとしてProviderConfigに保存する項目
+ */
+export const GENERATION_CONFIG_KEYS = ['model', 'maxTokens', 'reasoningEffort', 'temperature'] as const;
+
+class ProviderRegistry {
+  private readonly providers = new Map<AIProvider, AIProviderDefinition>();
+
+  /**
+   * プロバイダーを登録
+   * 同じIDが既に登録されている場合は上書きする
+   */
+  register(provider: AIProviderDefinition): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * IDからプロバイダー定義を取得
+   */
+  get(id: AIProvider): AIProviderDefinition | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * 登録済みのプロバイダーIDに解決
+   * 未登録のプロバイダー（開発ビルドでのみ登録されるモックなど）の場合は最初に登録されたプロバイダーを返す
+   */
+  resolveId(id: AIProvider): AIProvider {
+    return this.providers.has(id) ? id : this.list()[0].id;
+  }
+
+  /**
+   * 登録済みの全プロバイダーを登録順で取得
+   */
+  list(): AIProviderDefinition[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * 保存済みのAPIキー設定から該当プロバイダーのキーを取り出す
+   */
+  getApiKey(id: AIProvider, apiKeys: ApiKeyConfig): string | undefined {
+    const provider = this.get(id);
+    return provider?.apiKey ? apiKeys[provider.apiKey.field] : undefined;
+  }
+
+  /**
+   * 保存済みの接続設定に、未設定項目の既定値を補完して返す
+   */
+  resolveConfig(id: AIProvider, saved: ProviderConfig = {}): ProviderConfig {
+    const provider = this.get(id);
+    const resolved: ProviderConfig = {};
+    for (const field of provider?.configFields || []) {
+      resolved[field.key] = saved[field.key]?.trim() || field.defaultValue;
+    }
+    return resolved;
+  }
+
+  /**
+   * モデルが対応する生成パラメーターの範囲を取得
+   * 一覧にないモデルは、任意のモデル名を許可するプロバイダーの場合のみ共通の範囲を返す
+   */
+  getModelLimits(id: AIProvider, model: string): ModelLimits | undefined {
+    const provider = this.get(id);
+    return provider?.models.find(info => info.id === model) ?? provider?.customModelLimits;
+  }
+
+  /**
+   * 保存済みの設定から生成パラメーターを決定
+   * 未設定の項目はモデルの既定値で補い、モデルが対応しない項目は除く
+   */
+  resolveGenerationSettings(id: AIProvider, saved: ProviderConfig = {}): GenerationSettings {
+    const provider = this.get(id);
+    let model = saved.model?.trim() || provider?.defaultModel || '';
+    let limits = this.getModelLimits(id, model);
+    if (!limits && provider) {
+      // 一覧から削除されたモデルが保存されている場合は既定のモデルに戻す
+      model = provider.defaultModel;
+      limits = this.getModelLimits(id, model);
+    }
+
+    const maxTokens = Number(saved.maxTokens);
+    const temperature = Number(saved.temperature);
+    const reasoningEffort = saved.reasoningEffort as ReasoningEffort | undefined;
+
+    return {
+      model,
+      maxTokens: Number.isInteger(maxTokens) && maxTokens > 0
+        ? Math.min(maxTokens, limits?.maxOutputTokens ?? maxTokens)
+        : limits?.defaultMaxTokens ?? 4000,
+      reasoningEffort: limits?.reasoningEfforts
+        ? (reasoningEffort && limits.reasoningEfforts.includes(reasoningEffort) ? reasoningEffort : limits.defaultReasoningEffort)
+        : undefined,
+      temperature: limits?.temperatureRange && saved.temperature?.trim() && Number.isFinite(temperature)
+        ? Math.min(Math.max(temperature, limits.temperatureRange[0]), limits.temperatureRange[1])
+        : undefined
+    };
+  }
+
+  /**
+   * 生成パラメーターがモデルの対応範囲内か検証
+   * 問題がある場合はエラーメッセージの一覧を返す
+   */
+  validateGenerationSettings(id: AIProvider, config: ProviderConfig): string[] {
+    const model = config.model?.trim() || this.get(id)?.defaultModel || '';
+    const limits = this.getModelLimits(id, model);
+    if (!limits) {
+      return [`モデル「${model}」には対応していません`];
+    }
+
+    const errors: string[] = [];
+    const maxTokens = config.maxTokens?.trim();
+    if (maxTokens) {
+      const value = Number(maxTokens);
+      if (!Number.isInteger(value) || value < 1) {
+        errors.push('最大トークン数は1以上の整数で入力してください');
+      } else if (value > limits.maxOutputTokens) {
+        errors.push(`${model}の最大トークン数は${limits.maxOutputTokens}までです`);
+      }
+    }
+
+    const reasoningEffort = config.reasoningEffort?.trim();
+    if (reasoningEffort && !limits.reasoningEfforts?.includes(reasoningEffort as ReasoningEffort)) {
+      errors.push(limits.reasoningEfforts
+        ? `推論レベルは${limits.reasoningEfforts.join('/')}から選択してください`
+        : `${model}は推論レベルの指定に対応していません`);
+    }
+
+    const temperature = config.temperature?.trim();
+    if (temperature) {
+      const value = Number(temperature);
+      if (!limits.temperatureRange) {
+        errors.push(`${model}は温度の指定に対応していません`);
+      } else if (!Number.isFinite(value) || value < limits.temperatureRange[0] || value > limits.temperatureRange[1]) {
+        errors.push(`${model}の温度は${limits.temperatureRange[0]}〜${limits.temperatureRange[1]}の範囲で指定してください`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * 献立生成に必要な設定（APIキーなど）が揃っているか確認
+   */
+  isReady(id: AIProvider, apiKeys: ApiKeyConfig): boolean {
+    const provider = this.get(id);
+    if (!provider) {
+      return false;
+    }
+    return !provider.apiKey || !!this.getApiKey(id, apiKeys);
+  }
+
+  /**
+   * 指定プロバイダーが失敗した際の切り替え先を登録順で取得
+   * APIキーが設定済みのプロバイダーのみ（APIキー不要のものは起動状態が不明なため除く）
+   */
+  getFailoverCandidates(id: AIProvider, apiKeys: ApiKeyConfig): AIProvider[] {
+    return this.list()
+      .filter(provider => provider.id !== id && provider.apiKey && this.getApiKey(provider.id, apiKeys))
+      .map(provider => provider.id);
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const providerRegistry = new ProviderRegistry();
+
+// 組み込みプロバイダーの登録
+providerRegistry.register(openaiProvider);
+providerRegistry.register(claudeProvider);
+providerRegistry.register(localProvider);
+
+// モックプロバイダーは開発ビルド（テスト実行時を含む）でのみ選択できる
+if (import.meta.env.DEV) {
+  providerRegistry.register(mockProvider);
+}
@@ -0,0 +1,155 @@
+/**
+ * ローカルLLMプロバイダーのテスト
+ * fetchをローカルサーバーの応答に置き換え、Ollama・OpenAI互換の両方の形式を確認する
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AIRequestOptions, MenuItem } from '../../types';
+import { aiService } from '../aiService';
+import { ProviderHttpError } from './errors';
+
+const MENU: MenuItem = {
+  title: '豚肉とキャベツの味噌炒め',
+  description: 'ご飯がすすむ',
+  detail: '',
+  ingredients: ['豚こま切れ肉 200g', 'キャベツ 1/4個'],
+  steps: ['豚肉を炒める。', 'キャベツを加えて味噌で味付けする。'],
+  time: '15分'
+};
+
+// 形式が正しくない献立（作り方がない）
+const INVALID_MENU = { title: '作り方のない献立', description: '', ingredients: [] };
+
+const MENUS_JSON = JSON.stringify({ menus: [MENU, INVALID_MENU, { ...MENU, title: '豚肉のキャベツ巻き' }] });
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  fetchMock = vi.fn();
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+/**
+ * 文字列を指定した区切りで分けて届けるストリーミング応答
+ */
+function createStreamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  }));
+}
+
+/**
+ * 文字列をn文字ずつに分ける（チャンク境界が行やJSONの途中になるようにする）
+ */
+function splitEvery(text: string, size: number): string[] {
+  return Array.from({ length: Math.ceil(text.length / size) }, (_, i) => text.slice(i * size, (i + 1) * size));
+}
+
+/**
+ * ローカルLLMでの献立生成の依頼
+ */
+function createOptions(config: Record<string, string>, overrides: Partial<AIRequestOptions> = {}): AIRequestOptions {
+  return { provider: 'local', apiKey: '', config: { model: 'llama3.1', ...config }, prompt: '献立を2つ提案してください', count: 2, ...overrides };
+}
+
+/**
+ * fetchに渡されたURL・ヘッダー・ボディ
+ */
+function getRequest(index = 0): { url: string; headers: Record<string, string>; body: Record<string, unknown> } {
+  const [url, init] = fetchMock.mock.calls[index] as [string, RequestInit];
+  return { url, headers: init.headers as Record<string, string>, body: JSON.parse(init.body as string) };
+}
+
+describe('ローカルLLM（Ollama形式）', () => {
+  it('/api/chatにAPIキーなしで送信し、形式が正しい献立だけを返す', async () => {
+    fetchMock.mockResolvedValue(Response.json({
+      model: 'llama3.1',
+      message: { content: MENUS_JSON },
+      prompt_eval_count: 120,
+      eval_count: 80
+    }));
+    const onUsage = vi.fn();
+
+    const result = await aiService.generateMenus(createOptions({ baseUrl: 'http://127.0.0.1:11434///', apiFormat: 'ollama' }, { onUsage }));
+
+    const { url, headers, body } = getRequest();
+    expect(url).toBe('http://127.0.0.1:11434/api/chat');
+    expect(headers).toEqual({ 'Content-Type': 'application/json' });
+    expect(body).toMatchObject({ model: 'llama3.1', stream: false, options: { num_predict: expect.any(Number) } });
+    expect(result.menus.map(menu => menu.title)).toEqual(['豚肉とキャベツの味噌炒め', '豚肉のキャベツ巻き']);
+    expect(onUsage).toHaveBeenCalledWith('local', 'llama3.1', { promptTokens: 120, completionTokens: 80 });
+  });
+
+  it('JSON Linesのストリーミング応答から献立を1つずつ通知する', async () => {
+    const lines = [
+      ...splitEvery(MENUS_JSON, 40).map(content => JSON.stringify({ model: 'llama3.1', message: { content }, done: false })),
+      JSON.stringify({ model: 'llama3.1', message: { content: '' }, done: true, prompt_eval_count: 10, eval_count: 20 })
+    ];
+    fetchMock.mockResolvedValue(createStreamResponse(splitEvery(`${lines.join('\n')}\n`, 25)));
+    const onMenu = vi.fn();
+
+    const result = await aiService.generateMenus(createOptions({ apiFormat: 'ollama' }), onMenu);
+
+    expect(getRequest().url).toBe('http://localhost:11434/api/chat');
+    expect(getRequest().body.stream).toBe(true);
+    expect(onMenu.mock.calls.map(([menu]) => menu.title)).toEqual(['豚肉とキャベツの味噌炒め', '豚肉のキャベツ巻き']);
+    expect(result.menus).toHaveLength(2);
+  });
+
+  it('エラー応答はステータスコードを持つエラーにする', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock.mockResolvedValue(Response.json({ error: 'model "llama3.1" not found' }, { status: 404 }));
+
+    const request = aiService.generateMenus(createOptions({ apiFormat: 'ollama' }));
+
+    await expect(request).rejects.toBeInstanceOf(ProviderHttpError);
+    await expect(request).rejects.toMatchObject({ status: 404, message: expect.stringContaining('not found') });
+  });
+});
+
+describe('ローカルLLM（OpenAI互換形式）', () => {
+  it('/v1/chat/completionsにAPIキーなしで送信する（ベースURLの/v1は重ねない）', async () => {
+    fetchMock.mockResolvedValue(Response.json({
+      model: 'qwen2.5',
+      choices: [{ message: { content: MENUS_JSON } }],
+      usage: { prompt_tokens: 50, completion_tokens: 60 }
+    }));
+
+    const result = await aiService.generateMenus(createOptions({ baseUrl: 'http://localhost:1234/v1/', apiFormat: 'openai' }));
+
+    const { url, headers, body } = getRequest();
+    expect(url).toBe('http://localhost:1234/v1/chat/completions');
+    expect(headers).not.toHaveProperty('Authorization');
+    expect(body).toMatchObject({ stream: false, max_tokens: expect.any(Number) });
+    expect(result.model).toBe('qwen2.5');
+    expect(result.menus).toHaveLength(2);
+  });
+
+  it('SSEのストリーミング応答から献立を1つずつ通知し、最後のチャンクの使用量を通知する', async () => {
+    const events = [
+      ...splitEvery(MENUS_JSON, 40).map(content => `data: ${JSON.stringify({ model: 'qwen2.5', choices: [{ delta: { content } }] })}\n\n`),
+      `data: ${JSON.stringify({ model: 'qwen2.5', choices: [], usage: { prompt_tokens: 5, completion_tokens: 7 } })}\n\n`,
+      'data: [DONE]\n\n'
+    ];
+    fetchMock.mockResolvedValue(createStreamResponse(splitEvery(events.join(''), 33)));
+    const onMenu = vi.fn();
+    const onUsage = vi.fn();
+
+    const result = await aiService.generateMenus(createOptions({ baseUrl: 'http://localhost:1234', apiFormat: 'openai' }, { onUsage }), onMenu);
+
+    expect(getRequest().body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    expect(onMenu.mock.calls.map(([menu]) => menu.title)).toEqual(['豚肉とキャベツの味噌炒め', '豚肉のキャベツ巻き']);
+    expect(result.menus).toHaveLength(2);
+    expect(onUsage).toHaveBeenCalledWith('local', 'qwen2.5', { promptTokens: 5, completionTokens: 7 });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * ローカルLLMプロバイダー
+ * ユーザーが指定したベースURLのOllama（/api/chat）または
+ * OpenAI互換API（/v1/chat/completions）と通信する。APIキーは不要
+ */
+
+import type { ProviderConfig, TokenUsage } from '../../types';
+import type { AIProviderDefinition, AICompletionRequest, AICompletionResult, AIModelInfo, ModelLimits } from './types';
+import { readEventStream, readJsonLines } from './streaming';
+import { ProviderHttpError, parseRetryAfter } from './errors';
+
+/**
+ * ローカルLLM呼び出し用の既定設定
+ */
+const LOCAL_CONFIG = {
+  baseUrl: 'http://localhost:11434',
+  apiFormat: 'ollama',
+  model: 'llama3.1'
+};
+
+// Ollama /api/chat の応答（ストリーミング時は1チャンク分）
+interface OllamaChatResponse {
+  model?: string;
+  message?: { content?: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+// OpenAI互換APIの応答のうち使用量部分
+interface OpenAICompatibleResponse {
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+class LocalProvider implements AIProviderDefinition {
+  readonly id = 'local';
+  readonly label = 'ローカルLLM';
+  readonly description = 'Ollama・OpenAI互換サーバーを使用（APIキー不要）';
+  readonly apiKey = null;
+  readonly configFields = [
+    {
+      key: 'baseUrl',
+      label: 'ベースURL',
+      type: 'url' as const,
+      defaultValue: LOCAL_CONFIG.baseUrl,
+      placeholder: LOCAL_CONFIG.baseUrl,
+      description: 'ブラウザから接続できるURLを指定してください（サーバー側でCORSの許可が必要です）'
+    },
+    {
+      key: 'apiFormat',
+      label: 'API形式',
+      type: 'select' as const,
+      defaultValue: LOCAL_CONFIG.apiFormat,
+      options: [
+        { value: 'ollama', label: 'Ollama（/api/chat）' },
+        { value: 'openai', label: 'OpenAI互換（/v1/chat/completions）' }
+      ]
+    }
+  ];
+  readonly models: AIModelInfo[] = [];
+  readonly defaultModel = LOCAL_CONFIG.model;
+  readonly customModelLimits: ModelLimits = {
+    maxOutputTokens: 32768,
+    defaultMaxTokens: 6000,
+    temperatureRange: [0, 2]
+  };
+  readonly supportsStructuredOutput = false;
+
+  /**
+   * APIキーを使用しないため常に有効
+   */
+  validateApiKey(): boolean {
+    return true;
+  }
+
+  /**
+   * モデル一覧APIで接続を確認（生成は行わない）
+   */
+  async testConnection(_apiKey: string, config: ProviderConfig): Promise<boolean> {
+    const baseUrl = this.getBaseUrl(config);
+    const url = this.isOllama(config) ? `${baseUrl}/api/tags` : `${baseUrl}/v1/models`;
+    const response = await fetch(url);
+    return response.ok;
+  }
+
+  /**
+   * 設定されたAPI形式でチャットAPIを呼び出し
+   * onDeltaが指定された場合はストリーミングで受信する
+   */
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    const { config } = request;
+    const baseUrl = this.getBaseUrl(config);
+    const { model, maxTokens, temperature } = request.generation;
+    const isOllama = this.isOllama(config);
+    const stream = !!request.onDelta;
+    const messages = [
+      { role: 'system', content: request.systemPrompt },
+      ...request.messages
+    ];
+
+    try {
+      const response = await fetch(
+        isOllama ? `${baseUrl}/api/chat` : `${baseUrl}/v1/chat/completions`,
+        {
+          method: 'POST',
+          signal: request.signal,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            model,
+            messages,
+            stream,
+            // 出力トークン数と温度の指定方法はAPI形式ごとに異なる
+            ...(isOllama
+              ? { options: { num_predict: maxTokens, ...(temperature !== undefined && { temperature }) } }
+              : { max_tokens: maxTokens, ...(temperature !== undefined && { temperature }) }),
+            // OpenAI互換ではストリーミング時に使用量を最後のチャンクで受け取る
+            ...(stream && !isOllama && { stream_options: { include_usage: true } })
+          })
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        const errorMessage = typeof errorData.error === 'string'
+          ? errorData.error
+          : errorData.error?.message || 'Unknown error';
+        throw new ProviderHttpError(
+          `ローカルLLM API エラー: ${response.status} - ${errorMessage}`,
+          response.status,
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
+      }
+
+      if (request.onDelta) {
+        return await this.readStream(response, isOllama, model, request.onDelta);
+      }
+
+      const data = await response.json();
+      const content = isOllama
+        ? data.message?.content
+        : data.choices?.[0]?.message?.content;
+
+      if (!content) {
+        throw new Error('ローカルLLMからの応答が空です');
+      }
+
+      return { content, model: data.model || model, usage: this.toTokenUsage(data, isOllama) };
+    } catch (error) {
+      console.error('ローカルLLM呼び出しエラー:', error);
+
+      if (error instanceof Error) {
+        throw error;
+      }
+
+      throw new Error(`ローカルLLM（${baseUrl}）との通信に失敗しました`);
+    }
+  }
+
+  /**
+   * ストリーミング応答を読み取り、テキスト差分をonDeltaに通知
+   * OllamaはJSON Lines、OpenAI互換はSSEで届く
+   */
+  private async readStream(
+    response: Response,
+    isOllama: boolean,
+    model: string,
+    onDelta: (text: string) => void
+  ): Promise<AICompletionResult> {
+    let content = '';
+    let respondedModel = model;
+    let usage: TokenUsage | undefined;
+
+    const append = (delta: string | undefined, chunkModel: string | undefined) => {
+      respondedModel = chunkModel || respondedModel;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    };
+
+    if (isOllama) {
+      await readJsonLines(response, (data) => {
+        const chunk = data as OllamaChatResponse & { error?: string };
+        if (chunk.error) {
+          throw new Error(`ローカルLLM API エラー: ${chunk.error}`);
+        }
+        append(chunk.message?.content, chunk.model);
+        usage = this.toTokenUsage(chunk, true) ?? usage;
+      });
+    } else {
+      await readEventStream(response, ({ data }) => {
+        if (data === '[DONE]') {
+          return;
+        }
+        const chunk = JSON.parse(data);
+        append(chunk.choices?.[0]?.delta?.content, chunk.model);
+        usage = this.toTokenUsage(chunk, false) ?? usage;
+      });
+    }
+
+    if (!content) {
+      throw new Error('ローカルLLMからの応答が空です');
+    }
+
+    return { content, model: respondedModel, usage };
+  }
+
+  /**
+   * APIの使用量を共通形式に変換
+   * Ollamaは最後のチャンク（done: true）にのみ評価トークン数が含まれる
+   */
+  private toTokenUsage(data: OllamaChatResponse | OpenAICompatibleResponse, isOllama: boolean): TokenUsage | undefined {
+    if (isOllama) {
+      const { prompt_eval_count, eval_count } = data as OllamaChatResponse;
+      if (prompt_eval_count === undefined && eval_count === undefined) {
+        return undefined;
+      }
+      return { promptTokens: prompt_eval_count ?? 0, completionTokens: eval_count ?? 0 };
+    }
+
+    const { usage } = data as OpenAICompatibleResponse;
+    if (!usage) {
+      return undefined;
+    }
+    return { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 };
+  }
+
+  /**
+   * ベースURLを正規化（末尾のスラッシュと /v1 を除去）
+   */
+  private getBaseUrl(config: ProviderConfig): string {
+    return (config.baseUrl || LOCAL_CONFIG.baseUrl).replace(/\/+$/, '').replace(/\/v1$/, '');
+  }
+
+  /**
+   * Ollama形式のAPIを使用するか
+   */
+  private isOllama(config: ProviderConfig): boolean {
+    return (config.apiFormat || LOCAL_CONFIG.apiFormat) === 'ollama';
+  }
+}
+
+export const localProvider = new LocalProvider();
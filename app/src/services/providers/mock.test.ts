@@ -0,0 +1,56 @@
+/**
+ * モックプロバイダーのテスト
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import type { AICompletionRequest } from './types';
+import { mockProvider } from './mock';
+
+/**
+ * テスト用の補完リクエスト
+ */
+function createRequest(overrides: Partial<AICompletionRequest> = {}): AICompletionRequest {
+  return {
+    apiKey: '',
+    config: { mode: 'template', delayMs: '0' },
+    generation: { model: 'mock', maxTokens: 1000 },
+    systemPrompt: '',
+    messages: [{ role: 'user', content: '# 食材\n- 豚肉\n\n5つの献立を提案してください' }],
+    ...overrides
+  };
+}
+
+afterEach(() => {
+  mockProvider.clearQueuedResponses();
+});
+
+describe('mockProvider.complete', () => {
+  it('ストリーミングでは献立1つずつ差分を通知する', async () => {
+    const deltas: string[] = [];
+    const result = await mockProvider.complete(createRequest({ onDelta: text => deltas.push(text) }));
+
+    expect(deltas.join('')).toBe(result.content);
+    expect(JSON.parse(result.content).menus).toHaveLength(5);
+  });
+
+  it('中断済みのシグナルではAbortErrorで失敗する', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(mockProvider.complete(createRequest({ onDelta: () => {}, signal: controller.signal })))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    await expect(mockProvider.complete(createRequest({ signal: controller.signal })))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('待機中に中断した場合はAbortErrorで失敗する', async () => {
+    const controller = new AbortController();
+    const request = mockProvider.complete(createRequest({
+      config: { mode: 'template', delayMs: '1000' },
+      onDelta: () => controller.abort(),
+      signal: controller.signal
+    }));
+
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,392 @@
+/**
+ * モックプロバイダー（オフライン）
+ * ネットワークを使わず、プロンプト中の食材・テーマから定型の献立を組み立てるか、
+ * 記録済みの応答を再生する。同じ入力には常に同じ応答を返すため、デモ・開発・自動テストに使用する
+ */
+
+import type { ChatMessage, ProviderConfig } from '../../types';
+import type { AIProviderDefinition, AICompletionRequest, AICompletionResult, AIModelInfo } from './types';
+import { MOCK_FIXTURE_RESPONSES } from './mockFixtures';
+
+/**
+ * モック応答の既定設定
+ */
+const MOCK_CONFIG = {
+  mode: 'template',
+  delayMs: '300',
+  model: 'mock',
+  fallbackIngredients: ['鶏もも肉', 'キャベツ'],
+  defaultCount: 5
+};
+
+const MOCK_MODELS: AIModelInfo[] = [
+  {
+    id: MOCK_CONFIG.model,
+    label: 'モック',
+    maxOutputTokens: 100000,
+    defaultMaxTokens: 6000
+  }
+];
+
+// 調理法ごとの献立の型
+interface CookingStyle {
+  name: string;           // 献立名の末尾（炒め、煮など）
+  minutes: number;
+  steps: (main: string, sub: string | null, seasoning: string) => string[];
+}
+
+// テーマごとの味付け
+interface Seasoning {
+  name: string;           // 献立名に入れる味付け
+  flavor: string;         // 見出し文に入れる味の説明
+  ingredients: string[];  // 調味料とその分量
+}
+
+const COOKING_STYLES: CookingStyle[] = [
+  {
+    name: '炒め',
+    minutes: 15,
+    steps: (main, sub, seasoning) => [
+      `${main}は食べやすい大きさに切る。${sub ? `${sub}も同じくらいの大きさに切る。` : ''}`,
+      `フライパンに油を熱し、${main}を中火で炒める。`,
+      `${sub ? `${sub}を加えてさらに炒め、` : ''}${seasoning}の調味料を回し入れて全体にからめる。`
+    ]
+  },
+  {
+    name: '煮',
+    minutes: 25,
+    steps: (main, sub, seasoning) => [
+      `${main}${sub ? `と${sub}` : ''}を一口大に切る。`,
+      `鍋に水200mlと${seasoning}の調味料を入れて煮立てる。`,
+      `${main}${sub ? `と${sub}` : ''}を加え、落とし蓋をして弱めの中火で15分煮る。`
+    ]
+  },
+  {
+    name: '蒸し',
+    minutes: 20,
+    steps: (main, sub, seasoning) => [
+      `${main}は一口大に切り、${seasoning}の調味料をもみ込む。`,
+      `フライパンに${sub ? `${sub}を敷いて` : ''}${main}をのせ、酒大さじ2をふる。`,
+      '蓋をして中火で10分蒸し焼きにする。'
+    ]
+  },
+  {
+    name: '焼き',
+    minutes: 20,
+    steps: (main, sub, seasoning) => [
+      `${main}に${seasoning}の調味料をからめて5分おく。`,
+      `フライパンで${main}を両面こんがり焼く。`,
+      `${sub ? `空いたところで${sub}を焼き、` : ''}器に盛り合わせる。`
+    ]
+  },
+  {
+    name: 'スープ',
+    minutes: 15,
+    steps: (main, sub, seasoning) => [
+      `${main}${sub ? `と${sub}` : ''}を小さめに切る。`,
+      `鍋に水500mlと${main}を入れて火にかけ、アクを取る。`,
+      `${sub ? `${sub}を加えて5分煮て、` : ''}${seasoning}の調味料で味を調える。`
+    ]
+  },
+  {
+    name: '丼',
+    minutes: 15,
+    steps: (main, sub, seasoning) => [
+      `${main}${sub ? `と${sub}` : ''}を食べやすく切る。`,
+      `フライパンで${main}を炒め、${sub ? `${sub}を加えて` : ''}${seasoning}の調味料で煮からめる。`,
+      '温かいご飯に汁ごとのせる。'
+    ]
+  }
+];
+
+const SEASONINGS: Record<string, Seasoning> = {
+  '春': { name: '塩昆布', flavor: '塩昆布のうま味で春野菜の甘さを引き立てる', ingredients: ['塩昆布 大さじ2', 'ごま油 小さじ2'] },
+  '夏': { name: 'ポン酢', flavor: 'ポン酢でさっぱり食べられる', ingredients: ['ポン酢 大さじ3', '大葉 5枚'] },
+  '秋': { name: 'バター醤油', flavor: 'バターのコクと醤油の香ばしさが広がる', ingredients: ['バター 10g', '醤油 大さじ1'] },
+  '冬': { name: '味噌', flavor: '味噌のコクで体が温まる', ingredients: ['味噌 大さじ2', 'みりん 大さじ1'] },
+  'がっつり': { name: 'にんにく醤油', flavor: 'にんにく醤油がガツンと効いた', ingredients: ['醤油 大さじ2', 'おろしにんにく 小さじ1', '砂糖 小さじ1'] },
+  'あっさり': { name: '塩レモン', flavor: '塩とレモンだけのあっさりした', ingredients: ['塩 小さじ1/2', 'レモン汁 大さじ1'] }
+};
+
+// テーマに対応する味付けがない場合
+const DEFAULT_SEASONING: Seasoning = {
+  name: '甘辛',
+  flavor: '醤油とみりんの甘辛い味付けでご飯がすすむ',
+  ingredients: ['醤油 大さじ2', 'みりん 大さじ2', '砂糖 小さじ1']
+};
+
+// プロンプトから読み取った献立の条件
+interface MockRequest {
+  ingredients: string[];
+  themes: string[];
+  count: number;
+  excludedTitles: Set<string>;
+  instruction: string | null;  // 修正の指示（修正依頼の場合）
+  seed: number;
+}
+
+class MockProvider implements AIProviderDefinition {
+  readonly id = 'mock';
+  readonly label = 'モック（オフライン）';
+  readonly description = '通信せずに定型の献立を返す開発・デモ用のプロバイダー（APIキー不要）';
+  readonly apiKey = null;
+  readonly configFields = [
+    {
+      key: 'mode',
+      label: '応答の作り方',
+      type: 'select' as const,
+      defaultValue: MOCK_CONFIG.mode,
+      options: [
+        { value: 'template', label: '入力した食材とテーマから組み立てる' },
+        { value: 'fixture', label: '記録済みの応答を再生する' }
+      ]
+    },
+    {
+      key: 'delayMs',
+      label: '献立1つあたりの待ち時間（ミリ秒）',
+      type: 'text' as const,
+      defaultValue: MOCK_CONFIG.delayMs,
+      description: 'ストリーミング表示の確認用。0で即座に応答します'
+    }
+  ];
+  readonly models = MOCK_MODELS;
+  readonly defaultModel = MOCK_CONFIG.model;
+  readonly supportsStructuredOutput = true;
+
+  /**
+   * 再生待ちの応答（自動テストで任意の応答を返すために使用）
+   */
+  private queuedResponses: string[] = [];
+
+  /**
+   * 次回以降の呼び出しで返す応答を順に登録
+   * 登録された応答は応答の作り方の設定に関係なく優先して返す
+   */
+  queueResponses(responses: string[]): void {
+    this.queuedResponses.push(...responses);
+  }
+
+  /**
+   * 再生待ちの応答を破棄
+   */
+  clearQueuedResponses(): void {
+    this.queuedResponses = [];
+  }
+
+  /**
+   * APIキーを使用しないため常に有効
+   */
+  validateApiKey(): boolean {
+    return true;
+  }
+
+  /**
+   * 通信しないため常に成功
+   */
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * プロンプトから献立を組み立てて応答
+   * onDeltaが指定された場合は献立1つずつ待ち時間をおいて通知する
+   */
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    const parsed = this.parseRequest(request.messages);
+    const content = this.queuedResponses.shift()
+      ?? (request.config.mode === 'fixture'
+        ? MOCK_FIXTURE_RESPONSES[parsed.seed % MOCK_FIXTURE_RESPONSES.length]
+        : JSON.stringify({ menus: this.buildMenus(parsed) }));
+
+    if (request.onDelta) {
+      await this.stream(content, this.getDelay(request.config), request.onDelta, request.signal);
+    } else if (request.signal?.aborted) {
+      throw new DOMException('リクエストが中断されました', 'AbortError');
+    }
+
+    // トークン数は文字数から概算する（料金表にないため推定コストは0になる）
+    const promptLength = request.systemPrompt.length + request.messages.reduce((total, message) => total + message.content.length, 0);
+    return {
+      content,
+      model: request.generation.model,
+      usage: { promptTokens: Math.ceil(promptLength / 2), completionTokens: Math.ceil(content.length / 2) }
+    };
+  }
+
+  /**
+   * 会話から食材・テーマ・献立数などの条件を読み取る
+   * 食材とテーマは既定テンプレートの「# 食材」「# テーマ」の箇条書きから取得する
+   */
+  private parseRequest(messages: ChatMessage[]): MockRequest {
+    const userMessages = messages.filter(message => message.role === 'user').map(message => message.content);
+    const first = userMessages.find(content => content.includes('# 食材')) ?? userMessages[0] ?? '';
+    const last = userMessages[userMessages.length - 1] ?? '';
+
+    const ingredients = this.readBullets(first, '# 食材');
+    const missing = last.match(/あと(\d+)個/);
+    const count = last.match(/(\d+)つ/);
+
+    return {
+      ingredients: ingredients.length > 0 ? ingredients : MOCK_CONFIG.fallbackIngredients,
+      themes: this.readBullets(first, '# テーマ'),
+      count: Number(missing?.[1] ?? count?.[1] ?? MOCK_CONFIG.defaultCount),
+      // 差し替え・不足分の再依頼・1つだけの修正では、名前を挙げた献立と異なる献立を返す
+      excludedTitles: new Set(Array.from(last.matchAll(/「([^」]+)」/g), match => match[1])),
+      instruction: last.match(/指示: (.+)/)?.[1] ?? null,
+      seed: this.hash(userMessages.join('\n'))
+    };
+  }
+
+  /**
+   * 見出しに続く「* 項目」形式の箇条書きを取得
+   */
+  private readBullets(content: string, heading: string): string[] {
+    const lines = content.split('\n');
+    const start = lines.findIndex(line => line.trim() === heading);
+    if (start < 0) {
+      return [];
+    }
+
+    const items: string[] = [];
+    for (const line of lines.slice(start + 1)) {
+      const match = line.match(/^\s*[*-]\s*(.+)$/);
+      if (!match) {
+        if (line.trim() === '') {
+          continue;
+        }
+        break;
+      }
+      items.push(match[1].trim());
+    }
+    return items;
+  }
+
+  /**
+   * 条件から献立を組み立てる
+   * 除外する献立や同じ応答内の献立と名前が重ならないよう、調理法・味付け・食材の組み合わせをずらす
+   */
+  private buildMenus(request: MockRequest): Record<string, unknown>[] {
+    const seasonings = request.themes.map(theme => SEASONINGS[theme] ?? DEFAULT_SEASONING);
+    if (seasonings.length === 0) {
+      seasonings.push(DEFAULT_SEASONING);
+    }
+
+    // 組み合わせを使い切った場合は重複を許す
+    const maxAttempts = COOKING_STYLES.length * seasonings.length * request.ingredients.length;
+    const usedTitles = new Set(request.excludedTitles);
+    const menus: Record<string, unknown>[] = [];
+    let offset = request.seed;
+
+    for (let i = 0; i < request.count; i++) {
+      let menu = this.composeMenu(request, seasonings, i, offset);
+      for (let attempt = 1; attempt < maxAttempts && usedTitles.has(menu.title); attempt++) {
+        menu = this.composeMenu(request, seasonings, i, ++offset);
+      }
+      offset++;
+      usedTitles.add(menu.title);
+      menus.push(menu);
+    }
+    return menus;
+  }
+
+  /**
+   * 献立の位置とずらし量から、調理法・味付け・食材を選んで献立を1つ作る
+   */
+  private composeMenu(request: MockRequest, seasonings: Seasoning[], index: number, offset: number) {
+    const { ingredients, instruction } = request;
+    const style = COOKING_STYLES[offset % COOKING_STYLES.length];
+    const seasoning = seasonings[(index + Math.floor(offset / COOKING_STYLES.length)) % seasonings.length];
+    const main = ingredients[(index + offset) % ingredients.length];
+    const next = ingredients[(index + offset + 1) % ingredients.length];
+    const sub = next !== main ? next : null;
+    const both = `${main}${sub ? `と${sub}` : ''}`;
+
+    return {
+      title: `${both}の${seasoning.name}${style.name}`,
+      description: `${seasoning.flavor}${main}の${style.name}`,
+      detail: `${both}を${seasoning.name}で味付けした、${style.minutes}分ほどでできる一品です。${instruction ? `「${instruction}」のご要望に合わせて調整しました。` : ''}`,
+      ingredients: [
+        `${main} 適量`,
+        ...(sub ? [`${sub} 適量`] : []),
+        ...seasoning.ingredients,
+        'サラダ油 大さじ1'
+      ],
+      steps: style.steps(main, sub, seasoning.name),
+      time: `${style.minutes}分`
+    };
+  }
+
+  /**
+   * 応答を献立1つずつに区切ってストリーミングを再現
+   */
+  private async stream(content: string, delayMs: number, onDelta: (text: string) => void, signal?: AbortSignal): Promise<void> {
+    const items = this.readMenuItems(content);
+    if (items.length === 0) {
+      onDelta(content);
+      return;
+    }
+
+    onDelta('{"menus":[');
+    for (const [index, item] of items.entries()) {
+      await this.sleep(delayMs, signal);
+      onDelta(`${index > 0 ? ',' : ''}${JSON.stringify(item)}`);
+    }
+    onDelta(']}');
+  }
+
+  /**
+   * 応答の献立の一覧（JSONとして読めない応答や献立のない応答は空）
+   * 自動テストでは読み取れない応答も登録するため、区切らずにそのまま返せるようにする
+   */
+  private readMenuItems(content: string): unknown[] {
+    try {
+      const parsed = JSON.parse(content) as { menus?: unknown[] };
+      return Array.isArray(parsed?.menus) ? parsed.menus : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 中断可能な待機
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('リクエストが中断されました', 'AbortError'));
+        return;
+      }
+      const abort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('リクエストが中断されました', 'AbortError'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', abort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', abort, { once: true });
+    });
+  }
+
+  /**
+   * 設定された待ち時間（不正な値は0）
+   */
+  private getDelay(config: ProviderConfig): number {
+    const delay = Number(config.delayMs);
+    return Number.isFinite(delay) && delay > 0 ? delay : 0;
+  }
+
+  /**
+   * 文字列から決定的なシード値を作る（FNV-1a）
+   */
+  private hash(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+export const mockProvider = new MockProvider();
@@ -0,0 +1,76 @@
+/**
+ * モックプロバイダーで再生する記録済みの応答
+ * 実際のAPIから得た応答（構造化出力の{"menus": [...]}形式）をそのまま保持する
+ */
+
+export const MOCK_FIXTURE_RESPONSES: string[] = [
+  JSON.stringify({
+    menus: [
+      {
+        title: '鶏もも肉とキャベツの塩レモン蒸し',
+        description: 'レモンの酸味とごま油の香りでさっぱり食べられる蒸し料理',
+        detail: 'フライパンで蒸し焼きにするだけの簡単な一品です。鶏肉のうま味がキャベツにしみ込み、塩とレモンのさっぱりした味付けで暑い日にも食べやすく仕上がります。',
+        ingredients: ['鶏もも肉 300g', 'キャベツ 1/4個', 'レモン汁 大さじ1', '塩 小さじ1/2', 'ごま油 大さじ1', '酒 大さじ2'],
+        steps: [
+          '鶏もも肉は一口大に切り、塩と酒をもみ込む。',
+          'キャベツはざく切りにする。',
+          'フライパンにキャベツを敷き、鶏肉をのせて蓋をし、中火で10分蒸し焼きにする。',
+          'レモン汁とごま油を回しかけて全体をさっと混ぜる。'
+        ],
+        time: '20分'
+      },
+      {
+        title: '豚こまと卵のオイスター炒め',
+        description: 'オイスターソースのコクで白いご飯がすすむ甘辛炒め',
+        detail: '豚こま切れ肉とふんわり卵をオイスターソースでまとめた中華風の炒め物です。卵は先に炒めて取り出すことで、ふんわりした食感に仕上がります。',
+        ingredients: ['豚こま切れ肉 250g', '卵 3個', '長ねぎ 1本', 'オイスターソース 大さじ2', '醤油 小さじ1', 'サラダ油 大さじ1'],
+        steps: [
+          '卵を溶きほぐし、油を熱したフライパンで半熟に炒めて取り出す。',
+          '長ねぎは斜め切りにする。',
+          '同じフライパンで豚肉を炒め、色が変わったら長ねぎを加える。',
+          'オイスターソースと醤油で味付けし、卵を戻して軽く混ぜる。'
+        ],
+        time: '15分'
+      },
+      {
+        title: '鮭ときのこのバター醤油ホイル焼き',
+        description: 'バターと醤油の香ばしい香りが広がるホイル焼き',
+        detail: '鮭ときのこをアルミホイルで包んで焼くだけの手軽な主菜です。バターのコクと醤油の香ばしさがきのこのうま味を引き立てます。',
+        ingredients: ['生鮭 2切れ', 'しめじ 1パック', '玉ねぎ 1/2個', 'バター 20g', '醤油 小さじ2', '塩こしょう 少々'],
+        steps: [
+          '鮭に塩こしょうをふる。',
+          'しめじは石づきを取ってほぐし、玉ねぎは薄切りにする。',
+          'アルミホイルに玉ねぎ、鮭、しめじの順にのせ、バターをのせて包む。',
+          'フライパンに並べて蓋をし、中火で12分焼く。食べる直前に醤油をかける。'
+        ],
+        time: '25分'
+      },
+      {
+        title: '厚揚げと小松菜の生姜あんかけ',
+        description: '生姜のきいたとろみあんで体が温まるやさしい味',
+        detail: '香ばしく焼いた厚揚げに、小松菜入りの生姜あんをかけた和風のおかずです。だしの風味でやさしく、冬の夕食にもぴったりです。',
+        ingredients: ['厚揚げ 2枚', '小松菜 1/2束', 'だし汁 200ml', '醤油 大さじ1', 'みりん 大さじ1', 'おろし生姜 小さじ1', '片栗粉 小さじ2'],
+        steps: [
+          '厚揚げは食べやすく切り、フライパンで焼き色をつけて器に盛る。',
+          '小松菜は4cm長さに切る。',
+          '鍋にだし汁、醤油、みりん、生姜を入れて煮立て、小松菜を加えて2分煮る。',
+          '水溶き片栗粉でとろみをつけ、厚揚げにかける。'
+        ],
+        time: '20分'
+      },
+      {
+        title: 'ひき肉とじゃがいものカレー炒め',
+        description: 'カレー粉の香りが食欲をそそる子どもも喜ぶ炒め物',
+        detail: 'ひき肉とじゃがいもをカレー粉で炒めたボリュームのある一品です。じゃがいもは電子レンジで下ごしらえして時短します。',
+        ingredients: ['合いびき肉 200g', 'じゃがいも 2個', '玉ねぎ 1/2個', 'カレー粉 小さじ2', 'ケチャップ 大さじ1', '塩 少々', 'サラダ油 大さじ1'],
+        steps: [
+          'じゃがいもは1cm角に切り、耐熱容器に入れて電子レンジで3分加熱する。',
+          '玉ねぎはみじん切りにする。',
+          'フライパンに油を熱し、玉ねぎとひき肉を炒める。',
+          'じゃがいもを加え、カレー粉、ケチャップ、塩で味付けする。'
+        ],
+        time: '20分'
+      }
+    ]
+  })
+];
@@ -0,0 +1,311 @@
+/**
+ * OpenAI APIプロバイダー
+ * Chat Completions APIとの通信（o3-miniなどの推論モデルとGPT-4o系モデルに対応）
+ */
+
+import type { ProviderConfig, TokenUsage } from '../../types';
+import type { AIProviderDefinition, AICompletionRequest, AICompletionResult, AIModelInfo } from './types';
+import { readEventStream } from './streaming';
+import { ProviderHttpError, parseRetryAfter } from './errors';
+
+/**
+ * OpenAI API呼び出し用の設定
+ */
+const OPENAI_CONFIG = {
+  apiUrl: 'https://api.openai.com/v1/chat/completions',
+  model: 'o3-mini'
+};
+
+/**
+ * 選択できるモデル
+ * 推論モデルは温度を指定できず、代わりに推論レベルを指定する
+ */
+const OPENAI_MODELS: AIModelInfo[] = [
+  {
+    id: 'o3-mini',
+    label: 'o3-mini（推論）',
+    maxOutputTokens: 100000,
+    defaultMaxTokens: 6000,   // 推論トークンを含めて5つの献立を生成できる量
+    reasoningEfforts: ['low', 'medium', 'high'],
+    defaultReasoningEffort: 'medium'
+  },
+  {
+    id: 'gpt-4o',
+    label: 'GPT-4o',
+    maxOutputTokens: 16384,
+    defaultMaxTokens: 6000,
+    temperatureRange: [0, 2]
+  },
+  {
+    id: 'gpt-4o-mini',
+    label: 'GPT-4o mini',
+    maxOutputTokens: 16384,
+    defaultMaxTokens: 6000,
+    temperatureRange: [0, 2]
+  }
+];
+
+// Chat Completions APIの使用量
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  completion_tokens_details?: {
+    reasoning_tokens?: number;
+  };
+}
+
+class OpenAIProvider implements AIProviderDefinition {
+  readonly id = 'openai';
+  readonly label = 'OpenAI';
+  readonly description = 'OpenAI APIを使用';
+  readonly apiKey = {
+    field: 'openaiKey',
+    label: 'OpenAI APIキー',
+    placeholder: 'sk-...',
+    help: {
+      url: 'https://platform.openai.com/api-keys',
+      linkText: 'platform.openai.com',
+      text: 'でアカウント作成後、APIキーを生成'
+    }
+  };
+  readonly models = OPENAI_MODELS;
+  readonly defaultModel = OPENAI_CONFIG.model;
+  readonly supportsStructuredOutput = true;
+
+  /**
+   * OpenAI APIキーは'sk-'で始まる
+   */
+  validateApiKey(apiKey: string): boolean {
+    return apiKey.startsWith('sk-') && apiKey.length > 20;
+  }
+
+  /**
+   * 最小トークン数のリクエストで接続を確認
+   */
+  async testConnection(apiKey: string, _config: ProviderConfig, model: string): Promise<boolean> {
+    const isReasoningModel = !!OPENAI_MODELS.find(info => info.id === model)?.reasoningEfforts;
+    const response = await fetch(OPENAI_CONFIG.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: 'こんにちは' }],
+        max_completion_tokens: 10,
+        ...(isReasoningModel && { reasoning_effort: 'low' })  // テスト用は低コストで実行
+      })
+    });
+    return response.ok;
+  }
+
+  /**
+   * OpenAI Chat Completions APIを呼び出し
+   * onDeltaが指定された場合はストリーミングで受信する
+   */
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    const { model, maxTokens, reasoningEffort, temperature } = request.generation;
+
+    try {
+      const response = await fetch(OPENAI_CONFIG.apiUrl, {
+        method: 'POST',
+        signal: request.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${request.apiKey}`
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: request.systemPrompt },
+            ...request.messages
+          ],
+          max_completion_tokens: maxTokens,
+          ...(reasoningEffort && { reasoning_effort: reasoningEffort }),
+          ...(temperature !== undefined && { temperature }),
+          ...(request.responseFormat && {
+            response_format: {
+              type: 'json_schema',
+              json_schema: {
+                name: request.responseFormat.name,
+                description: request.responseFormat.description,
+                schema: request.responseFormat.schema,
+                strict: true
+              }
+            }
+          }),
+          ...(request.onDelta && { stream: true, stream_options: { include_usage: true } })
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+
+        // モデル固有のエラー処理
+        let errorMessage = errorData.error?.message || 'Unknown error';
+
+        if (response.status === 429) {
+          errorMessage = `${model}モデルの利用制限に達しました。少し時間をおいて再試行してください。`;
+        } else if (response.status === 400 && errorMessage.includes('reasoning_effort')) {
+          errorMessage = 'reasoning_effortパラメータの値が無効です。';
+        } else if (response.status === 400 && errorMessage.includes('model')) {
+          errorMessage = `${model}モデルへのアクセス権限がありません。APIプランを確認してください。`;
+        }
+
+        throw new ProviderHttpError(
+          `OpenAI ${model} API エラー: ${response.status} - ${errorMessage}`,
+          response.status,
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
+      }
+
+      if (request.onDelta) {
+        return await this.readStream(response, model, request.onDelta);
+      }
+
+      const data = await response.json();
+
+      const choice = data.choices?.[0];
+      const content = choice?.message?.content;
+
+      // contentが空でもfinish_reasonが'length'の場合は推論中に制限に達した可能性
+      if (!content || content.trim() === '') {
+        // 推論モデル特有の問題の詳細分析
+        const errorDetails = {
+          choices: data.choices,
+          first_choice_message: choice?.message,
+          finish_reason: choice?.finish_reason,
+          usage: data.usage,
+          model: data.model,
+          possible_issues: [] as string[]
+        };
+
+        // finish_reasonによる問題分析
+        if (choice?.finish_reason === 'length') {
+          errorDetails.possible_issues.push('トークン制限に達した - max_completion_tokensを増やすか、プロンプトを短縮してください');
+        }
+        if (choice?.finish_reason === 'content_filter') {
+          errorDetails.possible_issues.push('コンテンツフィルターによる制限');
+        }
+        if (choice?.finish_reason === 'stop') {
+          errorDetails.possible_issues.push('正常終了したがcontentが空');
+        }
+        if (!choice?.message) {
+          errorDetails.possible_issues.push('messageフィールドが存在しない');
+        }
+        if (choice?.message && !choice.message.content) {
+          errorDetails.possible_issues.push('message.contentが空またはnull');
+        }
+
+        console.error('OpenAI 空レスポンス詳細分析:', errorDetails);
+
+        this.throwEmptyResponse(model, choice?.finish_reason);
+      }
+
+      this.logUsage(data.usage);
+
+      return { content, model: data.model || model, usage: this.toTokenUsage(data.usage) };
+    } catch (error) {
+      console.error('OpenAI API呼び出しエラー:', error);
+
+      if (error instanceof Error) {
+        // API固有のエラーメッセージを保持
+        throw error;
+      }
+
+      throw new Error('OpenAI APIとの通信に失敗しました');
+    }
+  }
+
+  /**
+   * SSEで届くチャンクを連結し、差分をonDeltaに通知
+   */
+  private async readStream(
+    response: Response,
+    requestedModel: string,
+    onDelta: (text: string) => void
+  ): Promise<AICompletionResult> {
+    let content = '';
+    let model = requestedModel;
+    let finishReason: string | undefined;
+    let usage: TokenUsage | undefined;
+
+    await readEventStream(response, ({ data }) => {
+      if (data === '[DONE]') {
+        return;
+      }
+
+      const chunk = JSON.parse(data);
+      if (chunk.error) {
+        throw new Error(`OpenAI ${model} API エラー: ${chunk.error.message || 'Unknown error'}`);
+      }
+
+      model = chunk.model || model;
+      const choice = chunk.choices?.[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+
+      // include_usage指定時は最後のチャンクに使用量が含まれる
+      this.logUsage(chunk.usage);
+      usage = this.toTokenUsage(chunk.usage) ?? usage;
+    });
+
+    if (content.trim() === '') {
+      console.error('OpenAI 空ストリーム:', { finish_reason: finishReason, model });
+      this.throwEmptyResponse(model, finishReason);
+    }
+
+    return { content, model, usage };
+  }
+
+  /**
+   * 応答が空だった場合のエラーを送出
+   * 特定のfinish_reasonの場合はより具体的なエラーメッセージ
+   */
+  private throwEmptyResponse(model: string, finishReason: string | undefined): never {
+    if (finishReason === 'length') {
+      throw new Error(`${model}がトークン制限に達しました。設定画面で最大トークン数を増やしてください。`);
+    }
+
+    throw new Error(`OpenAI ${model} APIからの応答が空です。finish_reason: ${finishReason || 'unknown'}`);
+  }
+
+  /**
+   * 開発環境でのみ使用統計情報をログ出力（推論トークンを含む）
+   */
+  private logUsage(usage: OpenAIUsage | undefined): void {
+    if (import.meta.env.DEV && usage) {
+      console.log('OpenAI トークン使用量:', {
+        prompt_tokens: usage.prompt_tokens,
+        completion_tokens: usage.completion_tokens,
+        reasoning_tokens: usage.completion_tokens_details?.reasoning_tokens,
+        total_tokens: usage.total_tokens
+      });
+    }
+  }
+
+  /**
+   * APIの使用量を共通形式に変換
+   * completion_tokensは推論トークンを含む
+   */
+  private toTokenUsage(usage: OpenAIUsage | undefined): TokenUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+    return {
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+      reasoningTokens: usage.completion_tokens_details?.reasoning_tokens
+    };
+  }
+}
+
+export const openaiProvider = new OpenAIProvider();
@@ -0,0 +1,184 @@
+/**
+ * プロバイダー呼び出しの再試行のテスト
+ * fetchをローカルLLMサーバーの応答に置き換え、タイマーを進めて待機時間と再試行の有無を確認する
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AIRequestOptions, MenuItem } from '../../types';
+import { aiService } from '../aiService';
+import { ProviderHttpError } from './errors';
+
+const MENU: MenuItem = {
+  title: '鶏肉の照り焼き',
+  description: '甘辛いたれで',
+  detail: '',
+  ingredients: ['鶏もも肉 1枚'],
+  steps: ['鶏肉を焼く。', 'たれを絡める。'],
+  time: '20分'
+};
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  fetchMock = vi.fn();
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+/**
+ * 献立1つを返すOllama形式の応答
+ */
+function createMenuResponse(): Response {
+  return Response.json({ model: 'llama3.1', message: { content: JSON.stringify({ menus: [MENU] }) } });
+}
+
+/**
+ * エラー応答
+ */
+function createErrorResponse(status: number, headers: Record<string, string> = {}): Response {
+  return Response.json({ error: `status ${status}` }, { status, headers });
+}
+
+/**
+ * 再試行を有効にしたローカルLLMへの依頼
+ */
+function createOptions(overrides: Partial<AIRequestOptions> = {}): AIRequestOptions {
+  return {
+    provider: 'local',
+    apiKey: '',
+    config: { model: 'llama3.1', apiFormat: 'ollama' },
+    prompt: '献立を1つ提案してください',
+    count: 1,
+    retry: { maxRetries: 3, baseDelayMs: 1000, failover: false },
+    ...overrides
+  };
+}
+
+describe('completeWithRetry', () => {
+  it('429でRetry-Afterが秒数の場合は、その秒数だけ待って再試行する', async () => {
+    fetchMock
+      .mockResolvedValueOnce(createErrorResponse(429, { 'Retry-After': '3' }))
+      .mockResolvedValueOnce(createMenuResponse());
+
+    const request = aiService.generateMenus(createOptions());
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await expect(request).resolves.toMatchObject({ menus: [{ title: MENU.title }] });
+  });
+
+  it('429でRetry-AfterがHTTP日付の場合は、その時刻まで待って再試行する', async () => {
+    vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+    fetchMock
+      .mockResolvedValueOnce(createErrorResponse(429, { 'Retry-After': 'Wed, 01 Jan 2025 00:00:05 GMT' }))
+      .mockResolvedValueOnce(createMenuResponse());
+
+    const request = aiService.generateMenus(createOptions());
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await expect(request).resolves.toMatchObject({ menus: [{ title: MENU.title }] });
+  });
+
+  it('5xxは待機時間を倍増させながら再試行する', async () => {
+    fetchMock
+      .mockResolvedValueOnce(createErrorResponse(503))
+      .mockResolvedValueOnce(createErrorResponse(500))
+      .mockResolvedValueOnce(createMenuResponse());
+
+    const request = aiService.generateMenus(createOptions());
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    await expect(request).resolves.toMatchObject({ menus: [{ title: MENU.title }] });
+  });
+
+  it('再試行回数を使い切った場合は最後のエラーを返す', async () => {
+    fetchMock.mockImplementation(async () => createErrorResponse(502));
+
+    const request = aiService.generateMenus(createOptions({ retry: { maxRetries: 2, baseDelayMs: 1000, failover: false } }));
+    const assertion = expect(request).rejects.toMatchObject({ status: 502 });
+
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('429・408以外の4xxは再試行しない', async () => {
+    fetchMock.mockResolvedValueOnce(createErrorResponse(400));
+
+    const request = aiService.generateMenus(createOptions());
+    const assertion = expect(request).rejects.toBeInstanceOf(ProviderHttpError);
+
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('待機中に中断した場合は再試行せずにAbortErrorで終了する', async () => {
+    const controller = new AbortController();
+    fetchMock.mockImplementation(async () => createErrorResponse(503, { 'Retry-After': '10' }));
+
+    const request = aiService.generateMenus(createOptions({ signal: controller.signal }));
+    const assertion = expect(request).rejects.toMatchObject({ name: 'AbortError' });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    controller.abort();
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('aiService.generateMenusWithFailover', () => {
+  it('再試行しても失敗した場合は次のプロバイダーに切り替える', async () => {
+    fetchMock.mockImplementation(async () => createErrorResponse(503));
+    const onFailover = vi.fn();
+
+    const request = aiService.generateMenusWithFailover([
+      createOptions({ retry: { maxRetries: 1, baseDelayMs: 1000, failover: false } }),
+      createOptions({ provider: 'mock', config: { mode: 'template', delayMs: '0' } })
+    ], undefined, onFailover);
+
+    await vi.runAllTimersAsync();
+    const result = await request;
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onFailover).toHaveBeenCalledWith('local', 'mock');
+    expect(result.provider).toBe('mock');
+  });
+
+  it('中断した場合は次のプロバイダーに切り替えない', async () => {
+    const controller = new AbortController();
+    fetchMock.mockImplementation(async () => createErrorResponse(503));
+    const onFailover = vi.fn();
+
+    const request = aiService.generateMenusWithFailover([
+      createOptions({ signal: controller.signal }),
+      createOptions({ provider: 'mock', config: { mode: 'template', delayMs: '0' }, signal: controller.signal })
+    ], undefined, onFailover);
+    const assertion = expect(request).rejects.toMatchObject({ name: 'AbortError' });
+
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(onFailover).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * プロバイダー呼び出しの再試行
+ * 一時的なエラーに対して指数バックオフ（Retry-After指定時はその値）で待機して再試行する
+ */
+
+import type { AIProviderDefinition, AICompletionRequest, AICompletionResult } from './types';
+import { ProviderHttpError } from './errors';
+
+/**
+ * 1回の待機時間の上限
+ * Retry-Afterがこれを超える場合は再試行せずにエラーとする
+ */
+const MAX_RETRY_DELAY_MS = 60000;
+
+// 再試行の方針
+export interface RetryPolicy {
+  maxRetries: number;     // 再試行回数（0で再試行しない）
+  baseDelayMs: number;    // 初回の待機時間（再試行ごとに倍増）
+}
+
+/**
+ * エラーに応じた待機時間を計算
+ * 再試行すべきでないエラーの場合はnull
+ */
+function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number | null {
+  let delay: number;
+
+  if (error instanceof ProviderHttpError) {
+    if (!error.retryable) {
+      return null;
+    }
+    delay = error.retryAfterMs ?? policy.baseDelayMs * 2 ** attempt;
+  } else if (error instanceof TypeError) {
+    // fetchのネットワークエラー
+    delay = policy.baseDelayMs * 2 ** attempt;
+  } else {
+    return null;
+  }
+
+  return delay <= MAX_RETRY_DELAY_MS ? delay : null;
+}
+
+/**
+ * 指定時間待機（中断シグナルで即座に終了）
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 再試行付きで補完を実行
+ * ストリーミングで一部を受信した後のエラーは、重複して通知しないよう再試行しない
+ */
+export async function completeWithRetry(
+  provider: AIProviderDefinition,
+  request: AICompletionRequest,
+  policy: RetryPolicy
+): Promise<AICompletionResult> {
+  let received = false;
+  const onDelta = request.onDelta && ((text: string) => {
+    received = true;
+    request.onDelta?.(text);
+  });
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.complete({ ...request, onDelta });
+    } catch (error) {
+      const delay = getRetryDelay(error, attempt, policy);
+      if (delay === null || received || attempt >= policy.maxRetries || request.signal?.aborted) {
+        throw error;
+      }
+
+      console.warn(`${provider.label} APIを${delay}ms後に再試行します (${attempt + 1}/${policy.maxRetries}):`, error);
+      await sleep(delay, request.signal);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * ストリーミングレスポンスの読み取りユーティリティ
+ * Server-Sent Events（OpenAI・Claude）とJSON Lines（Ollama）に対応
+ */
+
+// SSEの1イベント
+export interface StreamEvent {
+  event?: string;         // event: フィールド（省略時はundefined）
+  data: string;           // data: フィールドの内容（複数行は改行で連結）
+}
+
+/**
+ * レスポンスボディを行単位で読み取る
+ * チャンク境界で分割された行は次のチャンクと連結してから渡す
+ */
+async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('ストリーミングレスポンスのボディがありません');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    lines.forEach(onLine);
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    onLine(buffer);
+  }
+}
+
+/**
+ * Server-Sent Events形式のレスポンスを読み取る
+ * 空行で区切られたイベントごとにコールバックを呼び出す
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: StreamEvent) => void
+): Promise<void> {
+  let eventName: string | undefined;
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName, data: dataLines.join('\n') });
+    }
+    eventName = undefined;
+    dataLines = [];
+  };
+
+  await readLines(response, (line) => {
+    if (line === '') {
+      dispatch();
+    } else if (line.startsWith('event:')) {
+      eventName = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+    // コメント行（:で始まる）やid:/retry:は使用しないため無視
+  });
+
+  dispatch();
+}
+
+/**
+ * JSON Lines形式（1行1JSON）のレスポンスを読み取る
+ */
+export async function readJsonLines(
+  response: Response,
+  onObject: (data: unknown) => void
+): Promise<void> {
+  await readLines(response, (line) => {
+    if (line.trim()) {
+      onObject(JSON.parse(line));
+    }
+  });
+}
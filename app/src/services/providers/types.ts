@@ -0,0 +1,109 @@
+/**
+ * AIプロバイダーの共通インターフェース
+ * 新しいバックエンドはこのインターフェースを実装してレジストリに登録する
+ */
+
+import type { ChatMessage, ProviderConfig, TokenUsage } from '../../types';
+
+// APIキーの入力仕様（設定画面の表示と保存先フィールドを決める）
+export interface ApiKeySpec {
+  field: string;          // ApiKeyConfig上のフィールド名
+  label: string;          // 入力欄のラベル
+  placeholder: string;    // 入力欄のプレースホルダー
+  help?: {                // APIキー取得方法の案内
+    url: string;          // 取得ページのURL
+    linkText: string;     // リンクとして表示する文字列
+    text: string;         // リンクに続く説明
+  };
+}
+
+// プロバイダー固有の接続設定項目（設定画面の入力欄になる）
+export interface ProviderConfigField {
+  key: string;            // ProviderConfig上のフィールド名
+  label: string;          // 入力欄のラベル
+  type: 'text' | 'url' | 'select';
+  defaultValue: string;   // 未設定時に使用する値
+  placeholder?: string;
+  description?: string;   // 入力欄の下に表示する補足
+  options?: { value: string; label: string }[]; // type: 'select' の選択肢
+}
+
+// 推論モデルの推論レベル
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+// モデルが対応する生成パラメーターの範囲
+export interface ModelLimits {
+  maxOutputTokens: number;              // 出力トークン数の上限
+  defaultMaxTokens: number;             // 未設定時の出力トークン数
+  reasoningEfforts?: ReasoningEffort[]; // 対応する推論レベル（非対応の場合は省略）
+  defaultReasoningEffort?: ReasoningEffort;
+  temperatureRange?: [number, number];  // 指定できる温度の範囲（非対応の場合は省略）
+}
+
+// プロバイダーが提供するモデルの情報
+export interface AIModelInfo extends ModelLimits {
+  id: string;             // APIに渡すモデルID
+  label: string;          // 表示名
+}
+
+// 検証・既定値補完済みの生成パラメーター
+export interface GenerationSettings {
+  model: string;
+  maxTokens: number;
+  reasoningEffort?: ReasoningEffort;  // モデルが対応する場合のみ
+  temperature?: number;               // 指定された場合のみ（未指定はAPIの既定値）
+}
+
+// 構造化出力の指定（JSON Schemaに沿った応答を要求する）
+export interface StructuredOutputSpec {
+  name: string;                     // スキーマ名（ツール名としても使用）
+  description: string;              // スキーマの説明
+  schema: Record<string, unknown>;  // 応答のJSON Schema（ルートはobject）
+}
+
+// プロバイダーへの補完リクエスト（プロンプトはプロバイダー非依存の形式）
+export interface AICompletionRequest {
+  apiKey: string;         // APIキー不要のプロバイダーでは空文字
+  config: ProviderConfig; // 既定値を補完済みの接続設定
+  generation: GenerationSettings; // モデルと生成パラメーター
+  systemPrompt: string;
+  messages: ChatMessage[];
+  responseFormat?: StructuredOutputSpec; // 構造化出力に対応するプロバイダーでのみ指定される
+  onDelta?: (text: string) => void; // 指定時はストリーミングで受信し、テキストの差分を通知
+  signal?: AbortSignal;             // 中断用シグナル
+}
+
+// プロバイダーからの補完結果
+export interface AICompletionResult {
+  content: string;        // モデルが返したテキスト
+  model: string;          // 実際に応答したモデル
+  usage?: TokenUsage;     // トークン使用量（APIが返さない場合は省略）
+}
+
+// AIプロバイダーの定義
+export interface AIProviderDefinition {
+  id: string;             // プロバイダーID（AIProviderとして保存される値）
+  label: string;          // 表示名
+  description: string;    // 設定画面に表示する説明
+  apiKey: ApiKeySpec | null;            // nullの場合はAPIキー不要
+  configFields?: ProviderConfigField[]; // プロバイダー固有の接続設定項目
+  models: AIModelInfo[];                // 選択できるモデル
+  defaultModel: string;
+  customModelLimits?: ModelLimits;      // 指定時は一覧にない任意のモデル名を入力でき、この範囲で検証する
+  supportsStructuredOutput: boolean;    // falseの場合は応答形式をプロンプトで指示する
+
+  /**
+   * APIキーの形式を簡易チェック（APIは呼び出さない）
+   */
+  validateApiKey(apiKey: string): boolean;
+
+  /**
+   * 軽量なリクエストでAPIの利用可否を確認
+   */
+  testConnection(apiKey: string, config: ProviderConfig, model: string): Promise<boolean>;
+
+  /**
+   * 共通形式のリクエストをプロバイダー固有のAPI呼び出しに変換して実行
+   */
+  complete(request: AICompletionRequest): Promise<AICompletionResult>;
+}
@@ -0,0 +1,422 @@
+// @vitest-environment jsdom
+/**
+ * アプリケーションストアのテスト
+ * IndexedDBはfake-indexeddbで置き換え、ストアの操作をデータベースと合わせて確認する
+ */
+
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { deleteDB } from 'idb';
+import type { AIProvider, MenuFormData, MenuItem, MenuRecord, PantryItem } from '../types';
+import { aiService } from '../services/aiService';
+import { databaseService } from '../services/database';
+import { mockProvider } from '../services/providers/mock';
+import { EMPTY_SEARCH_FILTERS } from '../utils/menuSearch';
+import { useAppStore } from './index';
+
+const INITIAL_STATE = useAppStore.getState();
+
+const FORM_DATA: MenuFormData = {
+  ingredients: ['豚肉', 'キャベツ'],
+  theme: ['夏'],
+  peoplePattern: '夫婦2人'
+};
+
+// モックプロバイダーの応答として読み取れない内容
+const BROKEN_RESPONSE = '献立ではない応答';
+
+/**
+ * テスト用の献立
+ */
+function createMenu(id: string, overrides: Partial<MenuRecord> = {}): MenuRecord {
+  return {
+    id,
+    title: `献立${id}`,
+    description: '',
+    detail: '',
+    ingredients: [],
+    steps: [],
+    time: '15分',
+    theme: [],
+    peoplePattern: '夫婦2人',
+    createdAt: `2025-01-${id.padStart(2, '0')}T10:00:00.000Z`,
+    inputIngredients: [],
+    parsedIngredients: [],
+    servings: 2,
+    ...overrides
+  };
+}
+
+/**
+ * 献立を保存して献立履歴を読み込み直す
+ */
+async function seedMenus(menus: MenuRecord[]): Promise<void> {
+  for (const menu of menus) {
+    await databaseService.saveMenu(menu);
+  }
+  await useAppStore.getState().loadMenuHistory();
+}
+
+beforeEach(async () => {
+  databaseService.close();
+  await deleteDB('MenuAppDB');
+  localStorage.clear();
+  useAppStore.setState(INITIAL_STATE, true);
+  await useAppStore.getState().initialize();
+});
+
+afterEach(() => {
+  useAppStore.getState().cancelGeneration();
+  mockProvider.clearQueuedResponses();
+  vi.restoreAllMocks();
+});
+
+/**
+ * モックプロバイダーで生成するよう設定（delayMsは献立1つあたりの待ち時間）
+ */
+function useMockProvider(delayMs = 0): void {
+  useAppStore.setState({
+    preferredProvider: 'mock',
+    providerConfigs: { mock: { mode: 'template', delayMs: String(delayMs) } },
+    retrySettings: { maxRetries: 0, baseDelayMs: 0, failover: false }
+  });
+}
+
+/**
+ * ストアの状態が条件を満たした時点で一度だけ処理を行う
+ */
+function onceWhen(condition: (state: ReturnType<typeof useAppStore.getState>) => boolean, callback: () => void): void {
+  const unsubscribe = useAppStore.subscribe(state => {
+    if (condition(state)) {
+      unsubscribe();
+      callback();
+    }
+  });
+}
+
+describe('initialize', () => {
+  it('保存された優先プロバイダーがこのビルドにない場合は登録済みのプロバイダーに切り替える', async () => {
+    useAppStore.setState({ preferredProvider: 'removed' as AIProvider });
+    await useAppStore.getState().initialize();
+    expect(useAppStore.getState().preferredProvider).toBe('openai');
+  });
+
+  it('登録済みの優先プロバイダーはそのまま使う', async () => {
+    useAppStore.setState({ preferredProvider: 'mock' });
+    await useAppStore.getState().initialize();
+    expect(useAppStore.getState().preferredProvider).toBe('mock');
+  });
+});
+
+describe('generateMenus（モックプロバイダー）', () => {
+  it('入力した食材から献立を生成する', async () => {
+    useMockProvider();
+    await useAppStore.getState().generateMenus(FORM_DATA);
+
+    const state = useAppStore.getState();
+    expect(state.error).toBeNull();
+    expect(state.isLoading).toBe(false);
+    expect(state.currentMenuResults).toHaveLength(5);
+    expect(state.currentMenuResults.every(menu => menu.title.includes('豚肉') || menu.title.includes('キャベツ'))).toBe(true);
+    expect(state.currentResultSource?.provider).toBe('mock');
+    expect(new Set(state.currentMenuResults.map(menu => menu.title)).size).toBe(5);
+  });
+
+  it('登録した応答を返す', async () => {
+    useMockProvider();
+    const menu = { title: '登録した献立', description: '説明', detail: '詳細', ingredients: ['豚肉 200g'], steps: ['焼く。'], time: '10分' };
+    mockProvider.queueResponses([JSON.stringify({ menus: [menu, menu, menu, menu, menu] })]);
+    await useAppStore.getState().generateMenus(FORM_DATA);
+
+    expect(useAppStore.getState().currentMenuResults.map(item => item.title)).toEqual(Array(5).fill('登録した献立'));
+  });
+
+  it('応答を読み取れない場合はエラーを表示する', async () => {
+    useMockProvider();
+    mockProvider.queueResponses([BROKEN_RESPONSE, BROKEN_RESPONSE]);
+    await useAppStore.getState().generateMenus(FORM_DATA);
+
+    const state = useAppStore.getState();
+    expect(state.error).toContain('AIの応答を献立として読み取れませんでした');
+    expect(state.isLoading).toBe(false);
+    expect(state.currentMenuResults).toEqual([]);
+  });
+
+  it('中断した場合はそれまでに届いた献立を残す', async () => {
+    useMockProvider(20);
+    onceWhen(state => state.currentMenuResults.length === 2, () => useAppStore.getState().cancelGeneration());
+    await useAppStore.getState().generateMenus(FORM_DATA);
+
+    const state = useAppStore.getState();
+    expect(state.error).toBeNull();
+    expect(state.isLoading).toBe(false);
+    expect(state.currentMenuResults).toHaveLength(2);
+    expect(state.currentResultSource).toBeNull();
+  });
+});
+
+describe('refineMenus（モックプロバイダー）', () => {
+  let original: MenuItem[];
+
+  beforeEach(async () => {
+    useMockProvider();
+    await useAppStore.getState().generateMenus(FORM_DATA);
+    original = useAppStore.getState().currentMenuResults;
+    useMockProvider(20);
+  });
+
+  const isRefinedUpTo = (count: number) => (state: ReturnType<typeof useAppStore.getState>) =>
+    state.currentMenuResults.slice(0, count).every((menu, i) => menu !== original[i]);
+
+  it('中止した場合は途中まで置き換えた献立を修正前に戻す', async () => {
+    onceWhen(isRefinedUpTo(2), () => useAppStore.getState().cancelGeneration());
+    await useAppStore.getState().refineMenus('もっとあっさりした献立にしてください', null);
+
+    const state = useAppStore.getState();
+    expect(state.isRefining).toBe(false);
+    expect(state.currentMenuResults).toEqual(original);
+    expect(state.currentRefinements).toEqual([]);
+  });
+
+  it('修正中に差し替えを始めた場合は、修正前の献立で上書きしない', async () => {
+    let replacing: Promise<void> = Promise.resolve();
+    onceWhen(isRefinedUpTo(2), () => {
+      replacing = useAppStore.getState().replaceMenu(4, FORM_DATA);
+    });
+    await useAppStore.getState().refineMenus('もっとあっさりした献立にしてください', null);
+
+    const state = useAppStore.getState();
+    expect(state.replacingIndex).toBe(4);
+    expect(isRefinedUpTo(2)(state)).toBe(true);
+
+    useAppStore.getState().cancelGeneration();
+    await replacing;
+  });
+});
+
+describe('generateWeekPlan（モックプロバイダー）', () => {
+  beforeEach(() => {
+    useMockProvider();
+  });
+
+  const getWeekEntries = () => databaseService.getMealPlanEntries('2025-01-06', '2025-01-12');
+
+  it('7日分の献立を保存して夕食に割り当て、献立カレンダーを表示する', async () => {
+    await useAppStore.getState().generateWeekPlan(FORM_DATA, '2025-01-06');
+
+    const state = useAppStore.getState();
+    const entries = await getWeekEntries();
+    expect(state.error).toBeNull();
+    expect(state.currentView).toBe('planner');
+    expect(entries.map(entry => entry.date)).toEqual([
+      '2025-01-06', '2025-01-07', '2025-01-08', '2025-01-09', '2025-01-10', '2025-01-11', '2025-01-12'
+    ]);
+    expect(state.menuCount).toBe(7);
+    expect(new Set(state.menuHistory.map(menu => menu.id))).toEqual(new Set(entries.map(entry => entry.menuId)));
+  });
+
+  it('生成中に中断した場合は何も保存しない', async () => {
+    useMockProvider(20);
+    onceWhen(state => state.currentMenuResults.length === 3, () => useAppStore.getState().cancelGeneration());
+    await useAppStore.getState().generateWeekPlan(FORM_DATA, '2025-01-06');
+
+    expect(await getWeekEntries()).toEqual([]);
+    expect(await databaseService.countMenus()).toBe(0);
+    expect(useAppStore.getState().currentView).not.toBe('planner');
+  });
+
+  it('保存中に中断した場合は保存した献立を履歴に反映し、画面は切り替えない', async () => {
+    const saveWeekPlan = databaseService.saveWeekPlan.bind(databaseService);
+    vi.spyOn(databaseService, 'saveWeekPlan').mockImplementation((menus, entries) => {
+      useAppStore.getState().cancelGeneration();
+      return saveWeekPlan(menus, entries);
+    });
+    await useAppStore.getState().generateWeekPlan(FORM_DATA, '2025-01-06');
+
+    const state = useAppStore.getState();
+    expect(await getWeekEntries()).toHaveLength(7);
+    expect(state.menuCount).toBe(7);
+    expect(state.menuHistory).toHaveLength(7);
+    expect(state.currentView).not.toBe('planner');
+  });
+
+  it('保存に失敗した場合は献立も予定も保存しない', async () => {
+    const menu = createMenu('1');
+    const entry = { id: 'plan-1', date: '2025-01-06', slot: 'dinner' as const, menuId: menu.id, createdAt: menu.createdAt };
+    await expect(databaseService.saveWeekPlan([menu, menu], [entry])).rejects.toThrow('1週間分の献立の保存に失敗しました');
+
+    expect(await getWeekEntries()).toEqual([]);
+    expect(await databaseService.countMenus()).toBe(0);
+  });
+});
+
+describe('regenerateMealPlanDay（モックプロバイダー）', () => {
+  const weekPlanMenu = createMenu('6', {
+    title: '豚肉とキャベツの甘辛炒め',
+    theme: ['夏'],
+    inputIngredients: ['豚肉', 'キャベツ'],
+    weekPlanId: 'week-1'
+  });
+
+  beforeEach(async () => {
+    useMockProvider();
+    await seedMenus([weekPlanMenu]);
+    await useAppStore.getState().loadMealPlan('2025-01-06', '2025-01-12');
+    await useAppStore.getState().addMealPlanEntry('2025-01-07', 'dinner', weekPlanMenu.id);
+  });
+
+  const getEntry = () => useAppStore.getState().mealPlanEntries[0];
+
+  it('予定を別の献立に作り直し、まとめて生成しただけの元の献立を削除する', async () => {
+    await useAppStore.getState().regenerateMealPlanDay(getEntry().id);
+
+    const state = useAppStore.getState();
+    const menuId = getEntry().menuId;
+    expect(state.error).toBeNull();
+    expect(state.regeneratingEntryId).toBeNull();
+    expect(menuId).not.toBe(weekPlanMenu.id);
+    expect(state.mealPlanMenus.find(menu => menu.id === menuId)?.title).not.toBe(weekPlanMenu.title);
+    expect(state.menuHistory.map(menu => menu.id)).toEqual([menuId]);
+    expect(await databaseService.getMenu(weekPlanMenu.id)).toBeUndefined();
+    expect((await databaseService.getMealPlanEntries('2025-01-07', '2025-01-07'))[0].menuId).toBe(menuId);
+  });
+
+  it('応答を読み取れない場合は予定を変えずにエラーを表示する', async () => {
+    mockProvider.queueResponses([BROKEN_RESPONSE, BROKEN_RESPONSE]);
+    await useAppStore.getState().regenerateMealPlanDay(getEntry().id);
+
+    const state = useAppStore.getState();
+    expect(state.error).toContain('AIの応答を献立として読み取れませんでした');
+    expect(state.regeneratingEntryId).toBeNull();
+    expect(getEntry().menuId).toBe(weekPlanMenu.id);
+    expect(await databaseService.getMenu(weekPlanMenu.id)).toBeDefined();
+  });
+
+  it('中断した場合は予定を変えない', async () => {
+    onceWhen(state => state.regeneratingEntryId !== null, () => useAppStore.getState().cancelGeneration());
+    await useAppStore.getState().regenerateMealPlanDay(getEntry().id);
+
+    const state = useAppStore.getState();
+    expect(state.error).toBeNull();
+    expect(state.regeneratingEntryId).toBeNull();
+    expect(getEntry().menuId).toBe(weekPlanMenu.id);
+    expect(state.menuCount).toBe(1);
+  });
+
+  it('応答が届く前に別の生成を始めた場合は結果を使わず、作り直し中の表示を終える', async () => {
+    // 中断に応じず応答を返すプロバイダーを再現する
+    const generateReplacement = aiService.generateReplacement.bind(aiService);
+    vi.spyOn(aiService, 'generateReplacement').mockImplementation((options, avoidMenus) =>
+      generateReplacement({ ...options, signal: undefined }, avoidMenus));
+    let generation: Promise<void> = Promise.resolve();
+    onceWhen(state => state.regeneratingEntryId !== null, () => {
+      generation = useAppStore.getState().generateMenus(FORM_DATA);
+    });
+    await useAppStore.getState().regenerateMealPlanDay(getEntry().id);
+    await generation;
+
+    const state = useAppStore.getState();
+    expect(state.regeneratingEntryId).toBeNull();
+    expect(state.currentMenuResults).toHaveLength(5);
+    expect(getEntry().menuId).toBe(weekPlanMenu.id);
+  });
+});
+
+describe('家族構成プロファイル', () => {
+  it('人数構成の選択肢からの移行は一度だけ行い、削除したプロファイルを作り直さない', async () => {
+    const migrated = useAppStore.getState().householdProfiles;
+    expect(migrated.length).toBeGreaterThan(0);
+
+    for (const profile of migrated) {
+      useAppStore.getState().deleteHouseholdProfile(profile.id);
+    }
+    await useAppStore.getState().initialize();
+
+    expect(useAppStore.getState().householdProfiles).toEqual([]);
+  });
+
+  it('エクスポートしたデータからプロファイルを復元する', async () => {
+    const exported = await useAppStore.getState().exportData();
+    const profiles = useAppStore.getState().householdProfiles;
+    expect(JSON.parse(exported).householdProfiles).toEqual(profiles);
+
+    useAppStore.getState().deleteHouseholdProfile(profiles[0].id);
+    await useAppStore.getState().importData(exported);
+
+    expect(useAppStore.getState().error).toBeNull();
+    expect(useAppStore.getState().householdProfiles).toEqual(profiles);
+  });
+
+  it('プロファイル導入前のエクスポートでは現在のプロファイルを残す', async () => {
+    const profiles = useAppStore.getState().householdProfiles;
+    await useAppStore.getState().importData(JSON.stringify({ menus: [], settings: {} }));
+
+    expect(useAppStore.getState().householdProfiles).toEqual(profiles);
+  });
+});
+
+describe('cookMenu', () => {
+  const createPantryItem = (id: string, quantity: number | null, unit: string | null): PantryItem => ({
+    id, name: `食材${id}`, quantity, unit, purchasedAt: null, expiresAt: null, updatedAt: '2025-01-01T00:00:00.000Z'
+  });
+
+  beforeEach(async () => {
+    await seedMenus([createMenu('1', { isAdopted: true })]);
+    for (const item of [createPantryItem('a', 300, 'g'), createPantryItem('b', 200, 'g'), createPantryItem('c', null, null)]) {
+      await useAppStore.getState().savePantryItem(item);
+    }
+  });
+
+  const getQuantities = () => Object.fromEntries(useAppStore.getState().pantryItems.map(item => [item.id, item.quantity]));
+
+  it('作った記録を残し、在庫から分量を差し引く（使い切った在庫は削除する）', async () => {
+    await useAppStore.getState().cookMenu('1', [{ itemId: 'a', quantity: 120 }, { itemId: 'b', quantity: 200 }]);
+
+    expect(getQuantities()).toEqual({ a: 180, c: null });
+    expect((await databaseService.getAllPantryItems()).map(item => item.id).sort()).toEqual(['a', 'c']);
+    expect(useAppStore.getState().menuHistory[0].cookCount).toBe(1);
+  });
+
+  it('数えない在庫から数量を差し引く場合は在庫を残す', async () => {
+    await useAppStore.getState().cookMenu('1', [{ itemId: 'c', quantity: 1 }]);
+
+    expect(getQuantities()).toEqual({ a: 300, b: 200, c: null });
+  });
+
+  it('使い切りを指定した在庫は削除する', async () => {
+    await useAppStore.getState().cookMenu('1', [{ itemId: 'a', quantity: null }, { itemId: 'c', quantity: null }]);
+
+    expect(getQuantities()).toEqual({ b: 200 });
+  });
+});
+
+describe('searchMenus', () => {
+  beforeEach(async () => {
+    await seedMenus([
+      createMenu('1', { title: '豚の生姜焼き', theme: ['がっつり'], isAdopted: true }),
+      createMenu('2', { title: '冷やし中華', theme: ['夏', 'あっさり'], peoplePattern: '家族4人' }),
+      createMenu('3', { title: '豚汁', theme: ['冬'], isAdopted: false, peoplePattern: '家族4人' }),
+      createMenu('4', { title: '夏野菜カレー', theme: ['夏', 'がっつり'], isAdopted: true })
+    ]);
+  });
+
+  it('いずれかのテーマを含む献立を返す（複数のテーマに該当しても1件）', async () => {
+    const menus = await useAppStore.getState().searchMenus({ ...EMPTY_SEARCH_FILTERS, themes: ['夏', 'がっつり'] }, 'newest');
+    expect(menus.map(menu => menu.id)).toEqual(['4', '2', '1']);
+  });
+
+  it('インデックスで絞った候補に残りの条件を適用する', async () => {
+    const search = useAppStore.getState().searchMenus;
+    expect((await search({ ...EMPTY_SEARCH_FILTERS, adoption: 'adopted', query: 'カレー' }, 'newest')).map(menu => menu.id))
+      .toEqual(['4']);
+    expect((await search({ ...EMPTY_SEARCH_FILTERS, peoplePattern: '家族4人', themes: ['冬'] }, 'newest')).map(menu => menu.id))
+      .toEqual(['3']);
+    expect((await search({ ...EMPTY_SEARCH_FILTERS, adoption: 'unset' }, 'newest')).map(menu => menu.id))
+      .toEqual(['2']);
+  });
+
+  it('インデックスで絞れない条件は全件から探す', async () => {
+    const menus = await useAppStore.getState().searchMenus({ ...EMPTY_SEARCH_FILTERS, query: '豚' }, 'newest');
+    expect(menus.map(menu => menu.id)).toEqual(['3', '1']);
+  });
+});
@@ -6,15 +6,58 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
+import { PEOPLE_PATTERN_OPTIONS } from '../types';
 import type { 
   AppState, 
   MenuRecord, 
   MenuItem, 
   MenuFormData, 
   ApiKeyConfig, 
-  AIProvider 
+  AIProvider,
+  ProviderConfig,
+  RetrySettings,
+  TokenUsage,
+  UsageRecord,
+  PriceTable,
+  BudgetSettings,
+  PromptTemplate,
+  HouseholdProfile,
+  AllergenCheckMode,
+  MealPlanEntry,
+  MealSlot,
+  ShoppingList,
+  PantryItem,
+  PantryDeduction,
+  MenuSearchFilters,
+  MenuSortOrder,
+  RecipeMatch,
+  AIRequestOptions,
+  MenuRefinement
 } from '../types';
 import { databaseService } from '../services/database';
+import type { ExportedData } from '../services/database';
+import { providerRegistry, ProviderHttpError } from '../services/providers';
+import { parseIngredients } from '../utils/ingredientParser';
+import { resolveServings, createProfileFromPeoplePattern } from '../utils/household';
+import { checkMenuRestrictions, getAvoidTerms, hasAllergyViolation } from '../utils/allergenChecker';
+import { createShoppingList as buildShoppingList } from '../utils/shoppingList';
+import { matchesFilters, sortMenus } from '../utils/menuSearch';
+import { matchRecipe, sortRecipeMatches } from '../utils/recipeMatcher';
+import { getWeekDates, sortMealPlanEntries, toDateKey, addDays, fromDateKey } from '../utils/mealPlan';
+import {
+  DEFAULT_AVOID_WEEKS,
+  WEEK_PLAN_DAYS,
+  buildWeekPlanInstruction,
+  formDataFromRecord,
+  getRecentAdoptedTitles
+} from '../utils/weekPlan';
+import { DEFAULT_PRICE_TABLE, estimateCost, checkBudget, getMonthStart, formatCost } from '../utils/usage';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  buildPromptVariables,
+  renderPromptTemplate
+} from '../utils/promptTemplate';
 
 interface AppActions {
   // 初期化
@@ -25,17 +68,63 @@ interface AppActions {
   
   // 献立生成
   generateMenus: (formData: MenuFormData) => Promise<void>;
+  generateWeekPlan: (formData: MenuFormData, startDate: string) => Promise<void>;
+  regenerateMealPlanDay: (entryId: string) => Promise<void>;
+  setWeekPlanAvoidWeeks: (weeks: number) => void;
+  refineMenus: (instruction: string, targetIndex: number | null) => Promise<void>;
+  replaceMenu: (index: number, formData: MenuFormData) => Promise<void>;
+  replaceRestrictedMenus: (formData: MenuFormData) => Promise<void>;
+  cancelGeneration: () => void;
   clearMenuResults: () => void;
   
   // 献立保存・管理
   saveMenu: (menu: MenuItem, formData: MenuFormData) => Promise<void>;
   loadMenuHistory: () => Promise<void>;
+  loadMoreMenus: () => Promise<void>;
+  searchMenus: (filters: MenuSearchFilters, order: MenuSortOrder) => Promise<MenuRecord[]>;
+  getMenuFilterOptions: () => Promise<{ themes: string[]; peoplePatterns: string[] }>;
+  matchSavedMenus: (available: string[], includeSeasonings: boolean) => Promise<RecipeMatch[]>;
   updateMenuAdoption: (id: string, isAdopted: boolean | undefined) => Promise<void>;
   deleteMenu: (id: string) => Promise<void>;
   
+  // 献立カレンダー
+  loadMealPlan: (from: string, to: string) => Promise<void>;
+  addMealPlanEntry: (date: string, slot: MealSlot, menuId: string) => Promise<void>;
+  moveMealPlanEntry: (id: string, date: string, slot: MealSlot) => Promise<void>;
+  removeMealPlanEntry: (id: string) => Promise<void>;
+  
+  // 買い物リスト
+  createShoppingList: (name: string, menuIds: string[]) => Promise<string | null>;
+  toggleShoppingItem: (listId: string, itemId: string) => Promise<void>;
+  deleteShoppingList: (id: string) => Promise<void>;
+  
+  // 冷蔵庫の在庫
+  savePantryItem: (item: PantryItem) => Promise<void>;
+  deletePantryItem: (id: string) => Promise<void>;
+  cookMenu: (menuId: string, deductions: PantryDeduction[]) => Promise<void>;
+  
   // APIキー管理
   updateApiKeys: (apiKeys: ApiKeyConfig) => Promise<void>;
   setPreferredProvider: (provider: AIProvider) => void;
+  updateProviderConfig: (provider: AIProvider, config: ProviderConfig) => void;
+  updateRetrySettings: (settings: Partial<RetrySettings>) => void;
+  
+  // 使用量・予算管理
+  recordUsage: (provider: AIProvider, model: string, usage: TokenUsage) => Promise<void>;
+  updatePriceTable: (priceTable: PriceTable) => void;
+  updateBudgetSettings: (settings: Partial<BudgetSettings>) => void;
+  clearBudgetWarning: () => void;
+  
+  // プロンプトテンプレート管理
+  savePromptTemplate: (template: Pick<PromptTemplate, 'name' | 'systemPrompt' | 'userPrompt'> & { id?: string }) => string;
+  deletePromptTemplate: (id: string) => void;
+  resetPromptTemplate: (id: string) => void;
+  setActivePromptTemplate: (id: string) => void;
+  
+  // 家族構成プロファイル管理
+  saveHouseholdProfile: (profile: HouseholdProfile) => void;
+  deleteHouseholdProfile: (id: string) => void;
+  setAllergenCheckMode: (mode: AllergenCheckMode) => void;
   
   // エラー管理
   setError: (error: string | null) => void;
@@ -48,6 +137,242 @@ interface AppActions {
 
 type AppStore = AppState & AppActions;
 
+/**
+ * 選択中のプロンプトテンプレートを取得
+ * 見つからない場合は既定のテンプレート
+ */
+export const getActivePromptTemplate = (state: AppState): PromptTemplate =>
+  state.promptTemplates.find(template => template.id === state.activePromptTemplateId)
+  ?? state.promptTemplates.find(template => template.id === DEFAULT_PROMPT_TEMPLATE_ID)
+  ?? DEFAULT_PROMPT_TEMPLATE;
+
+/**
+ * 実行中の献立生成リクエスト
+ * 最新のリクエストIDと一致する場合のみ結果を書き込む（古い応答による上書きを防止）
+ */
+let latestGenerationId = 0;
+let latestStartedGenerationId = 0;  // 最後に開始したリクエストID（中断では変わらない）
+let generationController: AbortController | null = null;
+
+/**
+ * 実行中の生成を中断し、新しいリクエストを開始
+ * isSupersededは後から新しいリクエストを開始した場合にtrue（中断しただけの場合はfalse）
+ */
+function startGeneration(): { controller: AbortController; isLatest: () => boolean; isSuperseded: () => boolean } {
+  generationController?.abort();
+  const controller = new AbortController();
+  const generationId = ++latestGenerationId;
+  latestStartedGenerationId = generationId;
+  generationController = controller;
+  return {
+    controller,
+    isLatest: () => generationId === latestGenerationId,
+    isSuperseded: () => generationId !== latestStartedGenerationId
+  };
+}
+
+/**
+ * 終了したリクエストが実行中のものであれば解放
+ */
+function finishGeneration(controller: AbortController): void {
+  if (generationController === controller) {
+    generationController = null;
+  }
+}
+
+/**
+ * 月間予算を確認
+ * 停止する場合はerror、生成を続けて警告する場合はwarningにメッセージを返す
+ */
+async function checkMonthlyBudget(budgetSettings: BudgetSettings): Promise<{ error: string | null; warning: string | null }> {
+  const budget = budgetSettings.monthlyBudget;
+  if (budget === null) {
+    return { error: null, warning: null };
+  }
+
+  try {
+    const status = checkBudget(await databaseService.getUsageRecordsSince(getMonthStart()), budgetSettings);
+    if (status.level === 'exceeded' && budgetSettings.action === 'block') {
+      return { error: `今月の使用額が予算（${formatCost(budget)}）を超える見込みのため、生成を停止しました。使用量画面で予算を見直してください。`, warning: null };
+    }
+    if (status.level === 'exceeded') {
+      return { error: null, warning: `今月の使用額が予算（${formatCost(budget)}）を超える見込みです。使用済み: ${formatCost(status.spent)}` };
+    }
+    if (status.level === 'warning') {
+      return { error: null, warning: `今月の使用額が予算の${Math.round(status.projected / budget * 100)}%に達する見込みです。使用済み: ${formatCost(status.spent)} / 予算: ${formatCost(budget)}` };
+    }
+  } catch (error) {
+    console.error('予算の確認に失敗しました:', error);
+  }
+  return { error: null, warning: null };
+}
+
+/**
+ * プロバイダーへのリクエストに共通するオプションを作成
+ */
+function buildRequestOptions(state: AppStore, provider: AIProvider, signal: AbortSignal): Omit<AIRequestOptions, 'prompt'> {
+  return {
+    provider,
+    apiKey: providerRegistry.getApiKey(provider, state.apiKeys) || '',
+    config: state.providerConfigs[provider],
+    retry: state.retrySettings,
+    signal,
+    onUsage: (usedProvider, model, usage) => {
+      void state.recordUsage(usedProvider, model, usage);
+    }
+  };
+}
+
+/**
+ * 表示中の献立に対する修正の経緯を、保存用の形式で取得
+ */
+function getMenuRefinements(state: AppState, menu: MenuItem): MenuRefinement[] | undefined {
+  const index = state.currentMenuResults.indexOf(menu);
+  if (index < 0) {
+    return undefined;
+  }
+  const refinements = state.currentRefinements
+    .filter(turn => (turn.targetIndex === null || turn.targetIndex === index) && index in turn.previousTitles)
+    .map(turn => ({
+      instruction: turn.instruction,
+      scope: turn.targetIndex === null ? 'all' as const : 'single' as const,
+      previousTitle: turn.previousTitles[index],
+      createdAt: turn.createdAt
+    }));
+  return refinements.length > 0 ? refinements : undefined;
+}
+
+/**
+ * 献立を保存用のレコードに変換
+ */
+function createMenuRecord(menu: MenuItem, formData: MenuFormData, extra: Partial<MenuRecord> = {}): MenuRecord {
+  return {
+    ...menu,
+    id: uuidv4(),
+    theme: formData.theme,
+    peoplePattern: formData.peoplePattern,
+    createdAt: new Date().toISOString(),
+    inputIngredients: formData.ingredients,
+    parsedIngredients: parseIngredients(menu.ingredients),
+    servings: resolveServings(formData),
+    householdProfileId: formData.household?.id,
+    ...extra
+  };
+}
+
+/**
+ * 献立生成のエラーを表示用のメッセージに変換
+ */
+async function describeGenerationError(error: unknown, fallback: string): Promise<string> {
+  const { MenuParseError } = await import('../services/aiService');
+  if (error instanceof MenuParseError) {
+    return 'AIの応答を献立として読み取れませんでした。代わりの献立は表示していません。もう一度お試しください。';
+  }
+  if (error instanceof ProviderHttpError && error.status === 429) {
+    return 'AIサービスの利用制限に達したため、再試行しても献立を取得できませんでした。しばらく時間をおいて再試行してください。';
+  }
+  return fallback;
+}
+
+/**
+ * 献立履歴を1回に読み込む件数
+ */
+const MENU_PAGE_SIZE = 30;
+
+/**
+ * 献立の件数（全件と採用済み）を取得
+ */
+async function loadMenuCounts(): Promise<Pick<AppState, 'menuCount' | 'adoptedMenuCount'>> {
+  const [menuCount, adoptedMenuCount] = await Promise.all([
+    databaseService.countMenus(),
+    databaseService.countMenus('adopted')
+  ]);
+  return { menuCount, adoptedMenuCount };
+}
+
+/**
+ * 献立の追加・更新・削除を読み込み済みの一覧に反映（データベースから全件を読み直さない）
+ * 献立履歴には追加した献立を先頭に加え、更新した献立は読み込み済みの場合のみ置き換える
+ */
+function applyMenuChanges(
+  state: AppState,
+  changes: { added?: MenuRecord[]; updated?: MenuRecord[]; deletedIds?: string[] }
+): Pick<AppState, 'menuHistory' | 'adoptedMenus' | 'mealPlanMenus'> {
+  const added = changes.added ?? [];
+  const changed = [...added, ...(changes.updated ?? [])];
+  const removed = new Set([...(changes.deletedIds ?? []), ...changed.map(menu => menu.id)]);
+  const replace = (menus: MenuRecord[]) => menus
+    .filter(menu => !changes.deletedIds?.includes(menu.id))
+    .map(menu => changed.find(record => record.id === menu.id) ?? menu);
+
+  return {
+    menuHistory: [...added, ...replace(state.menuHistory)],
+    adoptedMenus: [...changed.filter(menu => menu.isAdopted === true), ...state.adoptedMenus.filter(menu => !removed.has(menu.id))]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    mealPlanMenus: replace(state.mealPlanMenus)
+  };
+}
+
+/**
+ * 検索条件のうちインデックスで引ける条件（人数構成・採用状態・テーマ）から候補の献立を取得
+ * 候補を絞れる条件がない場合はnull（全件から探す）
+ */
+async function loadSearchCandidates(filters: MenuSearchFilters): Promise<MenuRecord[] | null> {
+  if (filters.peoplePattern) {
+    return databaseService.getMenusByPeoplePattern(filters.peoplePattern);
+  }
+  if (filters.adoption !== 'all') {
+    return databaseService.getMenusByAdoption(filters.adoption);
+  }
+  if (filters.themes.length > 0) {
+    // いずれかのテーマを含む献立（複数のテーマに該当する献立は1つにまとめる）
+    const lists = await Promise.all(filters.themes.map(theme => databaseService.getMenusByTheme(theme)));
+    return Array.from(new Map(lists.flat().map(menu => [menu.id, menu])).values());
+  }
+  return null;
+}
+
+/**
+ * 人数構成の選択肢を家族構成プロファイルに移行
+ * プロファイルが1つもない場合のみ、保存済みのカスタム人数構成（なければ既定の選択肢）と
+ * 献立履歴に残る人数構成からプロファイルを作成する（移行は一度だけ行い、以降は削除したプロファイルを作り直さない）
+ */
+function migrateHouseholdProfiles(profiles: HouseholdProfile[], menuPeoplePatterns: string[]): HouseholdProfile[] {
+  if (profiles.length > 0) {
+    return profiles;
+  }
+
+  let labels: string[] = PEOPLE_PATTERN_OPTIONS.map(option => option.value);
+  const savedPeoplePatterns = localStorage.getItem('customPeoplePatterns');
+  if (savedPeoplePatterns) {
+    try {
+      labels = JSON.parse(savedPeoplePatterns);
+    } catch (error) {
+      console.error('人数構成選択肢の読み込みエラー:', error);
+    }
+  }
+
+  const migrated = Array.from(new Set([...labels, ...menuPeoplePatterns]))
+    .filter(label => typeof label === 'string' && label.trim() !== '')
+    .map(createProfileFromPeoplePattern);
+  localStorage.removeItem('customPeoplePatterns');
+  return migrated;
+}
+
+/**
+ * アレルギー食材を含む献立を自動で差し替える最大回数（1つの献立あたり）
+ */
+const MAX_AUTO_REPLACE_ATTEMPTS = 2;
+
+/**
+ * 再試行設定の既定値
+ */
+const DEFAULT_RETRY_SETTINGS: RetrySettings = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  failover: false
+};
+
 /**
  * アプリケーションのメインストア
  * 状態管理とビジネスロジックを含む
@@ -57,12 +382,39 @@ export const useAppStore = create<AppStore>()(
     (set, get) => ({
       // 初期状態
       menuHistory: [],
+      menuHistoryCursor: null,
+      menuCount: 0,
+      adoptedMenuCount: 0,
+      adoptedMenus: [],
+      mealPlanMenus: [],
       currentMenuResults: [],
+      currentResultSource: null,
+      currentConversation: null,
+      currentRefinements: [],
+      mealPlanEntries: [],
+      shoppingLists: [],
+      pantryItems: [],
       isLoading: false,
+      isLoadingMenus: false,
+      isRefining: false,
+      replacingIndex: null,
+      regeneratingEntryId: null,
+      plannerFocusDate: null,
       currentView: 'home',
       apiKeys: {},
       preferredProvider: 'openai',
+      providerConfigs: {},
+      retrySettings: DEFAULT_RETRY_SETTINGS,
+      priceTable: DEFAULT_PRICE_TABLE,
+      budgetSettings: { monthlyBudget: null, action: 'warn' },
+      promptTemplates: [DEFAULT_PROMPT_TEMPLATE],
+      activePromptTemplateId: DEFAULT_PROMPT_TEMPLATE_ID,
+      householdProfiles: [],
+      householdProfilesMigrated: false,
+      allergenCheckMode: 'warn',
+      weekPlanAvoidWeeks: DEFAULT_AVOID_WEEKS,
       error: null,
+      budgetWarning: null,
 
       /**
        * アプリケーションの初期化
@@ -76,12 +428,29 @@ export const useAppStore = create<AppStore>()(
           // 保存されたAPIキーを読み込み
           const savedApiKeys = await databaseService.getApiKeys();
           
-          // 献立履歴を読み込み
-          const menuHistory = await databaseService.getAllMenus();
+          // 献立履歴の最初のページと件数を読み込み
+          await get().loadMenuHistory();
+          
+          // 買い物リストを読み込み（買い物中にオフラインでも使えるよう起動時に読み込んでおく）
+          const shoppingLists = await databaseService.getAllShoppingLists();
+          
+          // 冷蔵庫の在庫を読み込み
+          const pantryItems = await databaseService.getAllPantryItems();
+          
+          // 人数構成の選択肢を家族構成プロファイルに移行（初回のみ）
+          const { householdProfiles, householdProfilesMigrated } = get();
+          const migratedProfiles = householdProfilesMigrated
+            ? householdProfiles
+            : migrateHouseholdProfiles(householdProfiles, await databaseService.getDistinctMenuValues('by-people'));
           
           set({ 
             apiKeys: savedApiKeys,
-            menuHistory,
+            // 保存された優先プロバイダーがこのビルドにない場合（本番ビルドでのモックなど）は切り替える
+            preferredProvider: providerRegistry.resolveId(get().preferredProvider),
+            shoppingLists,
+            pantryItems,
+            householdProfiles: migratedProfiles,
+            householdProfilesMigrated: true,
             error: null 
           });
         } catch (error) {
@@ -94,57 +463,557 @@ export const useAppStore = create<AppStore>()(
        * 現在の画面を設定
        */
       setCurrentView: (view) => {
-        set({ currentView: view, error: null });
+        set({ currentView: view, plannerFocusDate: null, error: null });
       },
 
       /**
        * AI APIを使用して献立を生成
+       * ストリーミングで受信した献立から順にcurrentMenuResultsへ追加する
        */
       generateMenus: async (formData: MenuFormData) => {
-        const { apiKeys, preferredProvider } = get();
+        const { apiKeys, preferredProvider, retrySettings, budgetSettings } = get();
         
-        // APIキーの存在確認
-        const apiKey = preferredProvider === 'openai' ? apiKeys.openaiKey : apiKeys.claudeKey;
-        if (!apiKey) {
+        // APIキーの存在確認（APIキー不要のプロバイダーは除く）
+        if (!providerRegistry.isReady(preferredProvider, apiKeys)) {
           set({ error: 'APIキーが設定されていません。設定画面で設定してください。' });
           return;
         }
 
-        set({ isLoading: true, error: null });
+        // 月間予算を超える見込みの場合は設定に応じて警告または停止
+        const budget = await checkMonthlyBudget(budgetSettings);
+        if (budget.error) {
+          set({ error: budget.error });
+          return;
+        }
+
+        // 実行中の生成があれば中断し、新しいリクエストIDを発行
+        const { controller, isLatest } = startGeneration();
+
+        set({
+          isLoading: true,
+          isRefining: false,
+          replacingIndex: null,
+          error: null,
+          budgetWarning: budget.warning,
+          currentMenuResults: [],
+          currentResultSource: null,
+          currentConversation: null,
+          currentRefinements: []
+        });
 
         try {
           // AI APIサービスを動的インポート（後で実装）
-          const { aiService } = await import('../services/aiService');
+          const { aiService, DEFAULT_MENU_COUNT } = await import('../services/aiService');
+          
+          // 選択中のテンプレートからプロンプトを生成
+          const template = getActivePromptTemplate(get());
+          const variables = buildPromptVariables(formData, DEFAULT_MENU_COUNT);
+          const prompt = renderPromptTemplate(template.userPrompt, variables);
+          const systemPrompt = renderPromptTemplate(template.systemPrompt, variables);
           
-          // プロンプトを生成
-          const prompt = generatePrompt(formData);
+          // 優先プロバイダーと、フェイルオーバー有効時はAPIキー設定済みの他プロバイダーを候補にする
+          const providers = [
+            preferredProvider,
+            ...(retrySettings.failover ? providerRegistry.getFailoverCandidates(preferredProvider, apiKeys) : [])
+          ];
           
           // AI APIを呼び出し
-          const menus = await aiService.generateMenus({
-            provider: preferredProvider,
-            apiKey,
-            prompt
+          const result = await aiService.generateMenusWithFailover(providers.map(provider => ({
+            ...buildRequestOptions(get(), provider, controller.signal),
+            prompt,
+            systemPrompt,
+            count: DEFAULT_MENU_COUNT
+          })), (menu) => {
+            // 完成した献立から順に表示
+            if (isLatest()) {
+              set(state => ({ currentMenuResults: [...state.currentMenuResults, menu] }));
+            }
+          }, () => {
+            // 切り替え前のプロバイダーから届いていた献立は破棄
+            if (isLatest()) {
+              set({ currentMenuResults: [] });
+            }
           });
 
-          set({ 
-            currentMenuResults: menus,
-            isLoading: false,
-            currentView: 'create'
-          });
+          // 最終的な解析結果で置き換え
+          if (isLatest()) {
+            set({ 
+              currentMenuResults: result.menus,
+              currentResultSource: {
+                provider: result.provider,
+                model: result.model,
+                requestedProvider: preferredProvider,
+                promptTemplate: { id: template.id, name: template.name, version: template.version }
+              },
+              currentConversation: { systemPrompt, messages: result.messages },
+              isLoading: false
+            });
+
+            // 設定に応じてアレルギー食材を含む献立を差し替え
+            if (get().allergenCheckMode === 'replace') {
+              void get().replaceRestrictedMenus(formData);
+            }
+          }
         } catch (error) {
+          // 中断された・より新しいリクエストがある場合は結果を反映しない
+          if (controller.signal.aborted || !isLatest()) {
+            return;
+          }
           console.error('献立生成エラー:', error);
           set({ 
-            error: '献立の生成に失敗しました。しばらく時間をおいて再試行してください。',
+            error: await describeGenerationError(error, '献立の生成に失敗しました。しばらく時間をおいて再試行してください。'),
+            currentMenuResults: [],
             isLoading: false 
           });
+        } finally {
+          finishGeneration(controller);
+        }
+      },
+
+      /**
+       * 開始日から7日分の夕食をまとめて生成し、献立カレンダーに割り当てる
+       * 生成した献立は保存済みの献立として記録し、完了後に献立カレンダーを表示する
+       */
+      generateWeekPlan: async (formData: MenuFormData, startDate: string) => {
+        const { apiKeys, preferredProvider, retrySettings, budgetSettings, adoptedMenus, weekPlanAvoidWeeks } = get();
+
+        if (!providerRegistry.isReady(preferredProvider, apiKeys)) {
+          set({ error: 'APIキーが設定されていません。設定画面で設定してください。' });
+          return;
+        }
+
+        const budget = await checkMonthlyBudget(budgetSettings);
+        if (budget.error) {
+          set({ error: budget.error });
+          return;
+        }
+
+        const { controller, isLatest } = startGeneration();
+
+        set({
+          isLoading: true,
+          isRefining: false,
+          replacingIndex: null,
+          error: null,
+          budgetWarning: budget.warning,
+          currentMenuResults: [],
+          currentResultSource: null,
+          currentConversation: null,
+          currentRefinements: []
+        });
+
+        try {
+          const { aiService } = await import('../services/aiService');
+
+          // 通常の献立生成のプロンプトに、1週間分の条件を加える
+          const template = getActivePromptTemplate(get());
+          const variables = buildPromptVariables(formData, WEEK_PLAN_DAYS);
+          const instruction = buildWeekPlanInstruction(startDate, getRecentAdoptedTitles(adoptedMenus, weekPlanAvoidWeeks));
+          const prompt = `${renderPromptTemplate(template.userPrompt, variables)}\n\n${instruction}`;
+
+          const providers = [
+            preferredProvider,
+            ...(retrySettings.failover ? providerRegistry.getFailoverCandidates(preferredProvider, apiKeys) : [])
+          ];
+
+          const result = await aiService.generateMenusWithFailover(providers.map(provider => ({
+            ...buildRequestOptions(get(), provider, controller.signal),
+            prompt,
+            systemPrompt: renderPromptTemplate(template.systemPrompt, variables),
+            count: WEEK_PLAN_DAYS
+          })), (menu) => {
+            if (isLatest()) {
+              set(state => ({ currentMenuResults: [...state.currentMenuResults, menu] }));
+            }
+          }, () => {
+            if (isLatest()) {
+              set({ currentMenuResults: [] });
+            }
+          });
+
+          if (!isLatest()) {
+            return;
+          }
+
+          // 献立を開始日から順に夕食へ割り当て、まとめて保存する（中断・失敗時は何も保存しない）
+          const weekPlanId = uuidv4();
+          const start = fromDateKey(startDate);
+          const promptTemplate = { id: template.id, name: template.name, version: template.version };
+          const records = result.menus.slice(0, WEEK_PLAN_DAYS)
+            .map(menu => createMenuRecord(menu, formData, { promptTemplate, weekPlanId }));
+          const entries: MealPlanEntry[] = records.map((record, i) => ({
+            id: uuidv4(),
+            date: toDateKey(addDays(start, i)),
+            slot: 'dinner',
+            menuId: record.id,
+            createdAt: new Date().toISOString()
+          }));
+          if (controller.signal.aborted || !isLatest()) {
+            return;
+          }
+          await databaseService.saveWeekPlan(records, entries);
+
+          // 保存した献立は、保存中に中断された場合も献立履歴に反映する
+          const counts = await loadMenuCounts();
+          set(state => ({ ...applyMenuChanges(state, { added: [...records].reverse() }), ...counts }));
+          if (controller.signal.aborted || !isLatest()) {
+            return;
+          }
+
+          // 画面を切り替える前に解放（献立作成画面を離れるときの中断の対象外にする）
+          finishGeneration(controller);
+          set({
+            currentMenuResults: [],
+            isLoading: false,
+            plannerFocusDate: startDate,
+            currentView: 'planner'
+          });
+        } catch (error) {
+          if (controller.signal.aborted || !isLatest()) {
+            return;
+          }
+          console.error('1週間分の献立生成エラー:', error);
+          set({
+            error: await describeGenerationError(error, '1週間分の献立の生成に失敗しました。しばらく時間をおいて再試行してください。'),
+            currentMenuResults: [],
+            isLoading: false
+          });
+        } finally {
+          finishGeneration(controller);
+        }
+      },
+
+      /**
+       * 献立カレンダーの予定1日分を別の献立に作り直す
+       * 元の献立の入力条件で、同じ週の他の予定と重ならない献立を生成する
+       * 1週間分の献立として生成した未採用の献立は、作り直し後に削除する
+       */
+      regenerateMealPlanDay: async (entryId: string) => {
+        const { mealPlanEntries, mealPlanMenus, householdProfiles, apiKeys, preferredProvider, budgetSettings } = get();
+        const entry = mealPlanEntries.find(e => e.id === entryId);
+        const menu = entry && mealPlanMenus.find(m => m.id === entry.menuId);
+        if (!entry || !menu) {
+          return;
+        }
+
+        if (!providerRegistry.isReady(preferredProvider, apiKeys)) {
+          set({ error: 'APIキーが設定されていません。設定画面で設定してください。' });
+          return;
+        }
+
+        const budget = await checkMonthlyBudget(budgetSettings);
+        if (budget.error) {
+          set({ error: budget.error });
+          return;
+        }
+
+        // 同じ週の他の予定の献立とは重ならないようにする
+        const week = getWeekDates(fromDateKey(entry.date)).map(toDateKey);
+        const others = mealPlanEntries
+          .filter(e => e.id !== entryId && week.includes(e.date))
+          .map(e => mealPlanMenus.find(m => m.id === e.menuId))
+          .filter((m): m is MenuRecord => m !== undefined);
+
+        const { controller, isLatest } = startGeneration();
+        set({ regeneratingEntryId: entryId, error: null, budgetWarning: budget.warning });
+
+        try {
+          const { aiService } = await import('../services/aiService');
+          const formData = formDataFromRecord(menu, householdProfiles);
+          const template = getActivePromptTemplate(get());
+          const variables = buildPromptVariables(formData, 1);
+
+          const result = await aiService.generateReplacement({
+            ...buildRequestOptions(get(), preferredProvider, controller.signal),
+            prompt: renderPromptTemplate(template.userPrompt, variables),
+            systemPrompt: renderPromptTemplate(template.systemPrompt, variables),
+            count: 1
+          }, [menu, ...others]);
+
+          if (!isLatest()) {
+            return;
+          }
+
+          const record = createMenuRecord(result.menus[0], formData, {
+            promptTemplate: { id: template.id, name: template.name, version: template.version },
+            weekPlanId: menu.weekPlanId
+          });
+          const updated = { ...entry, menuId: record.id };
+          await databaseService.saveMenu(record);
+          await databaseService.saveMealPlanEntry(updated);
+
+          // まとめて生成しただけの献立は、他の予定に使われていなければ削除
+          const deletedIds: string[] = [];
+          if (menu.weekPlanId && menu.isAdopted !== true
+            && await databaseService.countMealPlanEntriesForMenu(menu.id) === 0) {
+            await databaseService.deleteMenu(menu.id);
+            deletedIds.push(menu.id);
+          }
+          const counts = await loadMenuCounts();
+
+          set(state => {
+            const menuChanges = applyMenuChanges(state, { added: [record], deletedIds });
+            return {
+              ...menuChanges,
+              ...counts,
+              mealPlanMenus: [...menuChanges.mealPlanMenus, record],
+              mealPlanEntries: state.mealPlanEntries.map(e => e.id === entryId ? updated : e)
+            };
+          });
+        } catch (error) {
+          if (controller.signal.aborted || !isLatest()) {
+            return;
+          }
+          console.error('献立カレンダーの作り直しエラー:', error);
+          set({
+            error: await describeGenerationError(error, '献立の作り直しに失敗しました。しばらく時間をおいて再試行してください。')
+          });
+        } finally {
+          finishGeneration(controller);
+          // 中断・後から始めた生成で結果を使わなかった場合も作り直し中の表示を終える
+          set(state => state.regeneratingEntryId === entryId ? { regeneratingEntryId: null } : {});
+        }
+      },
+
+      /**
+       * 1週間分の献立で、採用済みの献立を避ける期間を設定
+       */
+      setWeekPlanAvoidWeeks: (weeks: number) => {
+        set({ weekPlanAvoidWeeks: weeks });
+      },
+
+      /**
+       * 表示中の献立を会話で修正
+       * targetIndexを指定するとその献立だけ、nullの場合はすべての献立を修正する
+       * 生成時と同じプロバイダーに、これまでの会話を含めて依頼する
+       */
+      refineMenus: async (instruction: string, targetIndex: number | null) => {
+        const { currentMenuResults, currentResultSource, currentConversation, apiKeys, budgetSettings } = get();
+        const text = instruction.trim();
+        if (!text || !currentResultSource || !currentConversation) {
+          return;
+        }
+        if (targetIndex !== null && !currentMenuResults[targetIndex]) {
+          return;
+        }
+
+        if (!providerRegistry.isReady(currentResultSource.provider, apiKeys)) {
+          set({ error: 'APIキーが設定されていません。設定画面で設定してください。' });
+          return;
+        }
+
+        const budget = await checkMonthlyBudget(budgetSettings);
+        if (budget.error) {
+          set({ error: budget.error });
+          return;
+        }
+
+        const { controller, isLatest, isSuperseded } = startGeneration();
+        const target = targetIndex === null ? undefined : currentMenuResults[targetIndex];
+        set({ isRefining: true, error: null, budgetWarning: budget.warning });
+
+        try {
+          const { aiService } = await import('../services/aiService');
+          let streamed = 0;
+
+          const result = await aiService.refineMenus({
+            ...buildRequestOptions(get(), currentResultSource.provider, controller.signal),
+            prompt: text,
+            systemPrompt: currentConversation.systemPrompt,
+            count: currentMenuResults.length
+          }, currentConversation.messages, target, (menu) => {
+            // すべての献立を修正する場合は、届いた献立から順に置き換える
+            if (isLatest() && targetIndex === null) {
+              const index = streamed++;
+              set(state => ({
+                currentMenuResults: state.currentMenuResults.map((current, i) => i === index ? menu : current)
+              }));
+            }
+          });
+
+          if (!isLatest()) {
+            // 中止した場合は途中まで置き換えた献立を戻す（新しいリクエストを始めた場合はその結果を上書きしない）
+            if (!isSuperseded()) {
+              set({ currentMenuResults });
+            }
+            return;
+          }
+
+          // 修正前の献立名を記録して、最終的な解析結果で置き換え
+          const previousTitles: Record<number, string> = {};
+          let menus: MenuItem[];
+          if (targetIndex === null) {
+            result.menus.forEach((_, index) => {
+              if (currentMenuResults[index]) {
+                previousTitles[index] = currentMenuResults[index].title;
+              }
+            });
+            menus = result.menus;
+          } else {
+            previousTitles[targetIndex] = currentMenuResults[targetIndex].title;
+            menus = currentMenuResults.map((menu, index) => index === targetIndex ? result.menus[0] : menu);
+          }
+
+          set(state => ({
+            currentMenuResults: menus,
+            currentResultSource: { ...currentResultSource, model: result.model },
+            currentConversation: { ...currentConversation, messages: result.messages },
+            currentRefinements: [...state.currentRefinements, {
+              instruction: text,
+              targetIndex,
+              previousTitles,
+              createdAt: new Date().toISOString()
+            }],
+            isRefining: false
+          }));
+        } catch (error) {
+          if (controller.signal.aborted || !isLatest()) {
+            // 中止した場合は途中まで置き換えた献立を戻す（新しいリクエストを始めた場合はその結果を上書きしない）
+            if (!isSuperseded()) {
+              set({ currentMenuResults });
+            }
+            return;
+          }
+          console.error('献立修正エラー:', error);
+          // 途中まで置き換えた献立は修正前に戻す
+          set({
+            error: await describeGenerationError(error, '献立の修正に失敗しました。しばらく時間をおいて再試行してください。'),
+            currentMenuResults,
+            isRefining: false
+          });
+        } finally {
+          finishGeneration(controller);
+        }
+      },
+
+      /**
+       * 表示中の献立の1つを別の案に差し替え
+       * 同じ入力条件で、他の献立と重複しない献立を1つ生成して同じ位置に置き換える
+       * 家族のアレルギー・苦手食材を含む献立の場合は、該当する食材を使用禁止として依頼する
+       */
+      replaceMenu: async (index: number, formData: MenuFormData) => {
+        const { currentMenuResults, currentResultSource, currentConversation, apiKeys, budgetSettings, promptTemplates } = get();
+        const current = currentMenuResults[index];
+        if (!current || !currentResultSource) {
+          return;
+        }
+
+        if (!providerRegistry.isReady(currentResultSource.provider, apiKeys)) {
+          set({ error: 'APIキーが設定されていません。設定画面で設定してください。' });
+          return;
+        }
+
+        const budget = await checkMonthlyBudget(budgetSettings);
+        if (budget.error) {
+          set({ error: budget.error });
+          return;
+        }
+
+        const violations = formData.household ? checkMenuRestrictions(current, formData.household) : [];
+        const { controller, isLatest } = startGeneration();
+        set({ isRefining: true, replacingIndex: index, error: null, budgetWarning: budget.warning });
+
+        try {
+          const { aiService } = await import('../services/aiService');
+
+          // 表示中の献立を生成したテンプレートで、1つ分のプロンプトを作成
+          const template = promptTemplates.find(t => t.id === currentResultSource.promptTemplate.id)
+            ?? getActivePromptTemplate(get());
+          const variables = buildPromptVariables(formData, 1);
+
+          const result = await aiService.generateReplacement({
+            ...buildRequestOptions(get(), currentResultSource.provider, controller.signal),
+            prompt: renderPromptTemplate(template.userPrompt, variables),
+            systemPrompt: renderPromptTemplate(template.systemPrompt, variables),
+            count: 1
+          }, currentMenuResults, getAvoidTerms(violations));
+
+          if (!isLatest()) {
+            return;
+          }
+
+          const replacement = result.menus[0];
+          const menus = currentMenuResults.map((menu, i) => i === index ? replacement : menu);
+          set(state => ({
+            currentMenuResults: menus,
+            // 以降の修正依頼が差し替え後の献立を前提にするよう会話にも残す
+            currentConversation: currentConversation && {
+              ...currentConversation,
+              messages: [
+                ...currentConversation.messages,
+                { role: 'user', content: `「${current.title}」を別の献立に差し替えてください。` },
+                { role: 'assistant', content: JSON.stringify({ menus }) }
+              ]
+            },
+            currentRefinements: [...state.currentRefinements, {
+              instruction: violations.length > 0 ? 'アレルギー・苦手食材を含むため差し替え' : '別の案に差し替え',
+              targetIndex: index,
+              previousTitles: { [index]: current.title },
+              createdAt: new Date().toISOString()
+            }],
+            isRefining: false,
+            replacingIndex: null
+          }));
+        } catch (error) {
+          if (controller.signal.aborted || !isLatest()) {
+            return;
+          }
+          console.error('献立差し替えエラー:', error);
+          set({
+            error: await describeGenerationError(error, '別の案の生成に失敗しました。しばらく時間をおいて再試行してください。'),
+            isRefining: false,
+            replacingIndex: null
+          });
+        } finally {
+          finishGeneration(controller);
         }
       },
 
+      /**
+       * アレルギー食材を含む献立を順に別の案へ差し替え
+       * 差し替え後も含む場合は1つの献立につき最大MAX_AUTO_REPLACE_ATTEMPTS回まで繰り返す
+       */
+      replaceRestrictedMenus: async (formData: MenuFormData) => {
+        const { household } = formData;
+        if (!household) {
+          return;
+        }
+
+        for (let attempt = 0; attempt < MAX_AUTO_REPLACE_ATTEMPTS; attempt++) {
+          const targets = get().currentMenuResults
+            .map((menu, index) => hasAllergyViolation(checkMenuRestrictions(menu, household)) ? index : -1)
+            .filter(index => index >= 0);
+
+          for (const index of targets) {
+            const before = get().currentMenuResults[index];
+            await get().replaceMenu(index, formData);
+            // 中止・失敗した場合や新しい生成を始めた場合は以降の差し替えをやめる
+            if (get().currentMenuResults[index] === before || get().isLoading) {
+              return;
+            }
+          }
+        }
+      },
+
+      /**
+       * 実行中の献立生成・修正を中断
+       * 生成中にそれまでに届いた献立は結果として残す
+       */
+      cancelGeneration: () => {
+        if (!generationController) {
+          return;
+        }
+        generationController.abort();
+        generationController = null;
+        latestGenerationId++;
+        set({ isLoading: false, isRefining: false, replacingIndex: null, regeneratingEntryId: null });
+      },
+
       /**
        * 現在の献立結果をクリア
        */
       clearMenuResults: () => {
-        set({ currentMenuResults: [] });
+        set({ currentMenuResults: [], currentResultSource: null, currentConversation: null, currentRefinements: [] });
       },
 
       /**
@@ -153,20 +1022,14 @@ export const useAppStore = create<AppStore>()(
       saveMenu: async (menu: MenuItem, formData: MenuFormData) => {
         try {
           // MenuRecordを作成
-          const menuRecord: MenuRecord = {
-            ...menu,
-            id: uuidv4(),
-            theme: formData.theme,
-            peoplePattern: formData.peoplePattern,
-            createdAt: new Date().toISOString(),
-            inputIngredients: formData.ingredients
-          };
+          const menuRecord = createMenuRecord(menu, formData, {
+            promptTemplate: get().currentResultSource?.promptTemplate,
+            refinements: getMenuRefinements(get(), menu)
+          });
 
           // 重複チェック（タイトルと説明で判定）
-          const { menuHistory } = get();
-          const isDuplicate = menuHistory.some(
-            existing => existing.title === menu.title && existing.description === menu.description
-          );
+          const sameTitleMenus = await databaseService.getMenusByTitle(menu.title);
+          const isDuplicate = sameTitleMenus.some(existing => existing.description === menu.description);
 
           if (isDuplicate) {
             set({ error: 'この献立は既に保存されています' });
@@ -177,9 +1040,8 @@ export const useAppStore = create<AppStore>()(
           await databaseService.saveMenu(menuRecord);
           
           // 状態を更新
-          await get().loadMenuHistory();
-          
-          set({ error: null });
+          const counts = await loadMenuCounts();
+          set(state => ({ ...applyMenuChanges(state, { added: [menuRecord] }), ...counts, error: null }));
         } catch (error) {
           console.error('献立保存エラー:', error);
           set({ error: '献立の保存に失敗しました' });
@@ -187,15 +1049,115 @@ export const useAppStore = create<AppStore>()(
       },
 
       /**
-       * 献立履歴を再読み込み
+       * 献立履歴を最初のページから再読み込み
+       * 献立の件数と採用済みの献立も合わせて読み込む
        */
       loadMenuHistory: async () => {
+        set({ isLoadingMenus: true });
         try {
-          const menuHistory = await databaseService.getAllMenus();
-          set({ menuHistory, error: null });
+          const [page, counts, adoptedMenus] = await Promise.all([
+            databaseService.getMenuPage(null, MENU_PAGE_SIZE),
+            loadMenuCounts(),
+            databaseService.getMenusByAdoption('adopted')
+          ]);
+          set({
+            menuHistory: page.menus,
+            menuHistoryCursor: page.nextCursor,
+            adoptedMenus,
+            ...counts,
+            isLoadingMenus: false,
+            error: null
+          });
         } catch (error) {
           console.error('献立履歴読み込みエラー:', error);
-          set({ error: '献立履歴の読み込みに失敗しました' });
+          set({ error: '献立履歴の読み込みに失敗しました', isLoadingMenus: false });
+        }
+      },
+
+      /**
+       * 献立履歴の次のページを読み込み
+       */
+      loadMoreMenus: async () => {
+        const { menuHistoryCursor, isLoadingMenus } = get();
+        if (!menuHistoryCursor || isLoadingMenus) {
+          return;
+        }
+
+        set({ isLoadingMenus: true });
+        try {
+          const page = await databaseService.getMenuPage(menuHistoryCursor, MENU_PAGE_SIZE);
+          set(state => {
+            const loadedIds = new Set(state.menuHistory.map(menu => menu.id));
+            return {
+              menuHistory: [...state.menuHistory, ...page.menus.filter(menu => !loadedIds.has(menu.id))],
+              menuHistoryCursor: page.nextCursor,
+              isLoadingMenus: false
+            };
+          });
+        } catch (error) {
+          console.error('献立履歴読み込みエラー:', error);
+          set({ error: '献立履歴の読み込みに失敗しました', isLoadingMenus: false });
+        }
+      },
+
+      /**
+       * 保存済みの献立を検索（読み込み済みのページに関係なく全件から探す）
+       */
+      searchMenus: async (filters: MenuSearchFilters, order: MenuSortOrder) => {
+        try {
+          // インデックスで候補を絞れる場合は候補だけを、絞れない場合は全件を残りの条件で絞り込む
+          const menus: MenuRecord[] = [];
+          const candidates = await loadSearchCandidates(filters);
+          if (candidates) {
+            menus.push(...candidates.filter(menu => matchesFilters(menu, filters)));
+          } else {
+            await databaseService.forEachMenu(menu => {
+              if (matchesFilters(menu, filters)) {
+                menus.push(menu);
+              }
+            });
+          }
+          return sortMenus(menus, order);
+        } catch (error) {
+          console.error('献立検索エラー:', error);
+          set({ error: '献立の検索に失敗しました' });
+          return [];
+        }
+      },
+
+      /**
+       * 献立履歴の絞り込みの選択肢（保存済みの献立にあるテーマと人数構成）
+       */
+      getMenuFilterOptions: async () => {
+        try {
+          const [themes, peoplePatterns] = await Promise.all([
+            databaseService.getDistinctMenuValues('by-theme'),
+            databaseService.getDistinctMenuValues('by-people')
+          ]);
+          return { themes, peoplePatterns };
+        } catch (error) {
+          console.error('絞り込み選択肢読み込みエラー:', error);
+          return { themes: [], peoplePatterns: [] };
+        }
+      },
+
+      /**
+       * 手持ちの食材で作れる保存済みの献立を探す（全件から照合する）
+       */
+      matchSavedMenus: async (available: string[], includeSeasonings: boolean) => {
+        try {
+          const matches: RecipeMatch[] = [];
+          await databaseService.forEachMenu(menu => {
+            const match = matchRecipe(menu, available, { includeSeasonings });
+            if (match) {
+              matches.push(match);
+            }
+          });
+          return sortRecipeMatches(matches);
+        } catch (error) {
+          console.error('保存済み献立の照合エラー:', error);
+          set({ error: '保存した献立の検索に失敗しました' });
+          return [];
         }
       },
 
@@ -209,13 +1171,14 @@ export const useAppStore = create<AppStore>()(
             throw new Error('献立が見つかりません');
           }
 
-          const updatedMenu = { ...menu, isAdopted };
+          // 採用した日時は、採用に変えたときだけ記録する（採用済みのままなら残す）
+          const adoptedAt = isAdopted === true ? menu.adoptedAt ?? new Date().toISOString() : undefined;
+          const updatedMenu = { ...menu, isAdopted, adoptedAt };
           await databaseService.updateMenu(updatedMenu);
           
           // 状態を更新
-          await get().loadMenuHistory();
-          
-          set({ error: null });
+          const counts = await loadMenuCounts();
+          set(state => ({ ...applyMenuChanges(state, { updated: [updatedMenu] }), ...counts, error: null }));
         } catch (error) {
           console.error('採用状態更新エラー:', error);
           set({ error: '採用状態の更新に失敗しました' });
@@ -229,16 +1192,239 @@ export const useAppStore = create<AppStore>()(
         try {
           await databaseService.deleteMenu(id);
           
-          // 状態を更新
-          await get().loadMenuHistory();
-          
-          set({ error: null });
+          // 状態を更新（献立カレンダーの予定はデータベースと合わせて削除済み）
+          const counts = await loadMenuCounts();
+          set(state => ({
+            ...applyMenuChanges(state, { deletedIds: [id] }),
+            ...counts,
+            mealPlanEntries: state.mealPlanEntries.filter(entry => entry.menuId !== id),
+            error: null
+          }));
         } catch (error) {
           console.error('献立削除エラー:', error);
           set({ error: '献立の削除に失敗しました' });
         }
       },
 
+      /**
+       * 献立カレンダーの表示期間の予定を読み込み
+       */
+      loadMealPlan: async (from: string, to: string) => {
+        try {
+          const entries = await databaseService.getMealPlanEntries(from, to);
+          const mealPlanMenus = await databaseService.getMenusByIds(Array.from(new Set(entries.map(entry => entry.menuId))));
+          set({ mealPlanEntries: sortMealPlanEntries(entries), mealPlanMenus, error: null });
+        } catch (error) {
+          console.error('献立カレンダー読み込みエラー:', error);
+          set({ error: '献立カレンダーの読み込みに失敗しました' });
+        }
+      },
+
+      /**
+       * 保存済みの献立を献立カレンダーに追加
+       */
+      addMealPlanEntry: async (date: string, slot: MealSlot, menuId: string) => {
+        const entry: MealPlanEntry = {
+          id: uuidv4(),
+          date,
+          slot,
+          menuId,
+          createdAt: new Date().toISOString()
+        };
+
+        try {
+          await databaseService.saveMealPlanEntry(entry);
+          const menus = get().mealPlanMenus.some(menu => menu.id === menuId)
+            ? []
+            : await databaseService.getMenusByIds([menuId]);
+          set(state => ({
+            mealPlanEntries: sortMealPlanEntries([...state.mealPlanEntries, entry]),
+            mealPlanMenus: [...state.mealPlanMenus, ...menus],
+            error: null
+          }));
+        } catch (error) {
+          console.error('献立カレンダー追加エラー:', error);
+          set({ error: '献立カレンダーへの追加に失敗しました' });
+        }
+      },
+
+      /**
+       * 献立カレンダーの予定を別の日付・食事枠に移動
+       */
+      moveMealPlanEntry: async (id: string, date: string, slot: MealSlot) => {
+        const entry = get().mealPlanEntries.find(e => e.id === id);
+        if (!entry) {
+          return;
+        }
+
+        const moved = { ...entry, date, slot };
+        try {
+          await databaseService.saveMealPlanEntry(moved);
+          set(state => ({
+            mealPlanEntries: sortMealPlanEntries(state.mealPlanEntries.map(e => e.id === id ? moved : e)),
+            error: null
+          }));
+        } catch (error) {
+          console.error('献立カレンダー移動エラー:', error);
+          set({ error: '献立カレンダーの予定の移動に失敗しました' });
+        }
+      },
+
+      /**
+       * 献立カレンダーの予定を削除（献立自体は削除しない）
+       */
+      removeMealPlanEntry: async (id: string) => {
+        try {
+          await databaseService.deleteMealPlanEntry(id);
+          set(state => ({
+            mealPlanEntries: state.mealPlanEntries.filter(entry => entry.id !== id),
+            error: null
+          }));
+        } catch (error) {
+          console.error('献立カレンダー削除エラー:', error);
+          set({ error: '献立カレンダーの予定の削除に失敗しました' });
+        }
+      },
+
+      /**
+       * 保存済みの献立の材料をまとめて買い物リストを作成
+       * 同じ献立を複数回指定した場合は、その回数分の材料を合算する
+       * 作成したリストのIDを返す（失敗した場合はnull）
+       */
+      createShoppingList: async (name: string, menuIds: string[]) => {
+        try {
+          const menus = await databaseService.getMenusByIds(menuIds);
+          if (menus.length === 0) {
+            set({ error: '買い物リストに含める献立を選択してください' });
+            return null;
+          }
+
+          const list = buildShoppingList(name, menus);
+          await databaseService.saveShoppingList(list);
+          set(state => ({ shoppingLists: [list, ...state.shoppingLists], error: null }));
+          return list.id;
+        } catch (error) {
+          console.error('買い物リスト作成エラー:', error);
+          set({ error: '買い物リストの作成に失敗しました' });
+          return null;
+        }
+      },
+
+      /**
+       * 買い物リストの項目の購入済みを切り替え
+       */
+      toggleShoppingItem: async (listId: string, itemId: string) => {
+        const list = get().shoppingLists.find(l => l.id === listId);
+        if (!list) {
+          return;
+        }
+
+        const updated: ShoppingList = {
+          ...list,
+          items: list.items.map(item => item.id === itemId ? { ...item, checked: !item.checked } : item),
+          updatedAt: new Date().toISOString()
+        };
+        // 買い物中の操作を妨げないよう、先に表示を更新する
+        set(state => ({ shoppingLists: state.shoppingLists.map(l => l.id === listId ? updated : l) }));
+
+        try {
+          await databaseService.saveShoppingList(updated);
+        } catch (error) {
+          console.error('買い物リスト更新エラー:', error);
+          set({ error: '買い物リストの更新に失敗しました' });
+        }
+      },
+
+      /**
+       * 買い物リストを削除
+       */
+      deleteShoppingList: async (id: string) => {
+        try {
+          await databaseService.deleteShoppingList(id);
+          set(state => ({ shoppingLists: state.shoppingLists.filter(list => list.id !== id), error: null }));
+        } catch (error) {
+          console.error('買い物リスト削除エラー:', error);
+          set({ error: '買い物リストの削除に失敗しました' });
+        }
+      },
+
+      /**
+       * 冷蔵庫の在庫を保存（同じIDがあれば更新）
+       */
+      savePantryItem: async (item: PantryItem) => {
+        const saved = { ...item, updatedAt: new Date().toISOString() };
+        try {
+          await databaseService.savePantryItem(saved);
+          set(state => ({
+            pantryItems: state.pantryItems.some(existing => existing.id === item.id)
+              ? state.pantryItems.map(existing => existing.id === item.id ? saved : existing)
+              : [...state.pantryItems, saved],
+            error: null
+          }));
+        } catch (error) {
+          console.error('在庫保存エラー:', error);
+          set({ error: '在庫の保存に失敗しました' });
+        }
+      },
+
+      /**
+       * 冷蔵庫の在庫を削除
+       */
+      deletePantryItem: async (id: string) => {
+        try {
+          await databaseService.deletePantryItem(id);
+          set(state => ({ pantryItems: state.pantryItems.filter(item => item.id !== id), error: null }));
+        } catch (error) {
+          console.error('在庫削除エラー:', error);
+          set({ error: '在庫の削除に失敗しました' });
+        }
+      },
+
+      /**
+       * 献立を作ったことを記録し、使った分を在庫から差し引く
+       * 差し引いた結果がなくなった在庫と、使い切りを指定した在庫は削除する
+       */
+      cookMenu: async (menuId: string, deductions: PantryDeduction[]) => {
+        try {
+          const menu = await databaseService.getMenu(menuId);
+          if (!menu) {
+            throw new Error('献立が見つかりません');
+          }
+
+          const now = new Date().toISOString();
+          const cookedMenu = { ...menu, cookCount: (menu.cookCount ?? 0) + 1, lastCookedAt: now };
+          await databaseService.updateMenu(cookedMenu);
+
+          let pantryItems = get().pantryItems;
+          for (const deduction of deductions) {
+            const item = pantryItems.find(existing => existing.id === deduction.itemId);
+            if (!item) {
+              continue;
+            }
+            // 数えない在庫からは差し引けないため、使い切りを指定した場合以外は残す
+            if (item.quantity === null && deduction.quantity !== null) {
+              continue;
+            }
+            const remaining = item.quantity !== null && deduction.quantity !== null
+              ? Math.round((item.quantity - deduction.quantity) * 100) / 100
+              : 0;
+            if (remaining > 0) {
+              const updated = { ...item, quantity: remaining, updatedAt: now };
+              await databaseService.savePantryItem(updated);
+              pantryItems = pantryItems.map(existing => existing.id === item.id ? updated : existing);
+            } else {
+              await databaseService.deletePantryItem(item.id);
+              pantryItems = pantryItems.filter(existing => existing.id !== item.id);
+            }
+          }
+          // 状態を更新
+          set(state => ({ ...applyMenuChanges(state, { updated: [cookedMenu] }), pantryItems, error: null }));
+        } catch (error) {
+          console.error('調理記録エラー:', error);
+          set({ error: '作った記録の保存に失敗しました' });
+        }
+      },
+
       /**
        * APIキーを更新
        */
@@ -259,6 +1445,164 @@ export const useAppStore = create<AppStore>()(
         set({ preferredProvider: provider });
       },
 
+      /**
+       * プロバイダー固有の接続設定を更新
+       */
+      updateProviderConfig: (provider: AIProvider, config: ProviderConfig) => {
+        set(state => ({
+          providerConfigs: { ...state.providerConfigs, [provider]: config }
+        }));
+      },
+
+      /**
+       * 再試行・フェイルオーバーの設定を更新
+       */
+      updateRetrySettings: (settings: Partial<RetrySettings>) => {
+        set(state => ({
+          retrySettings: { ...state.retrySettings, ...settings }
+        }));
+      },
+
+      /**
+       * AI API呼び出し1回分のトークン使用量を記録
+       * 記録時の料金表で推定コストを計算して保存する（記録の失敗で生成は止めない）
+       */
+      recordUsage: async (provider: AIProvider, model: string, usage: TokenUsage) => {
+        const record: UsageRecord = {
+          id: uuidv4(),
+          createdAt: new Date().toISOString(),
+          provider,
+          model,
+          ...usage,
+          estimatedCost: estimateCost(model, usage, get().priceTable)
+        };
+        
+        try {
+          await databaseService.addUsageRecord(record);
+        } catch (error) {
+          console.error('使用量記録エラー:', error);
+        }
+      },
+
+      /**
+       * 料金表を更新
+       */
+      updatePriceTable: (priceTable: PriceTable) => {
+        set({ priceTable });
+      },
+
+      /**
+       * 月間予算の設定を更新
+       */
+      updateBudgetSettings: (settings: Partial<BudgetSettings>) => {
+        set(state => ({
+          budgetSettings: { ...state.budgetSettings, ...settings }
+        }));
+      },
+
+      /**
+       * 予算の警告を閉じる
+       */
+      clearBudgetWarning: () => {
+        set({ budgetWarning: null });
+      },
+
+      /**
+       * プロンプトテンプレートを保存
+       * 既存のテンプレートは版を1つ上げて上書きし、idがない場合は新規作成する
+       */
+      savePromptTemplate: (template) => {
+        const id = template.id || uuidv4();
+        const updatedAt = new Date().toISOString();
+        
+        set(state => {
+          const existing = state.promptTemplates.find(t => t.id === id);
+          const saved: PromptTemplate = {
+            id,
+            name: template.name,
+            systemPrompt: template.systemPrompt,
+            userPrompt: template.userPrompt,
+            version: existing ? existing.version + 1 : 1,
+            updatedAt
+          };
+          return {
+            promptTemplates: existing
+              ? state.promptTemplates.map(t => t.id === id ? saved : t)
+              : [...state.promptTemplates, saved]
+          };
+        });
+        
+        return id;
+      },
+
+      /**
+       * プロンプトテンプレートを削除
+       * 既定のテンプレートは削除できない。選択中のものを削除した場合は既定に戻す
+       */
+      deletePromptTemplate: (id: string) => {
+        if (id === DEFAULT_PROMPT_TEMPLATE_ID) {
+          return;
+        }
+        set(state => ({
+          promptTemplates: state.promptTemplates.filter(t => t.id !== id),
+          activePromptTemplateId: state.activePromptTemplateId === id
+            ? DEFAULT_PROMPT_TEMPLATE_ID
+            : state.activePromptTemplateId
+        }));
+      },
+
+      /**
+       * プロンプトテンプレートの内容を既定に戻す（名前は維持し、版を1つ上げる）
+       */
+      resetPromptTemplate: (id: string) => {
+        const template = get().promptTemplates.find(t => t.id === id);
+        if (!template) {
+          return;
+        }
+        get().savePromptTemplate({
+          id,
+          name: template.name,
+          systemPrompt: DEFAULT_PROMPT_TEMPLATE.systemPrompt,
+          userPrompt: DEFAULT_PROMPT_TEMPLATE.userPrompt
+        });
+      },
+
+      /**
+       * 献立生成に使用するプロンプトテンプレートを選択
+       */
+      setActivePromptTemplate: (id: string) => {
+        set({ activePromptTemplateId: id });
+      },
+
+      /**
+       * 家族構成プロファイルを保存（同じIDがあれば置き換え、なければ追加）
+       */
+      saveHouseholdProfile: (profile: HouseholdProfile) => {
+        const saved = { ...profile, updatedAt: new Date().toISOString() };
+        set(state => ({
+          householdProfiles: state.householdProfiles.some(existing => existing.id === profile.id)
+            ? state.householdProfiles.map(existing => existing.id === profile.id ? saved : existing)
+            : [...state.householdProfiles, saved]
+        }));
+      },
+
+      /**
+       * 家族構成プロファイルを削除
+       * 保存済みの献立は人数構成の名前を保持しているため影響しない
+       */
+      deleteHouseholdProfile: (id: string) => {
+        set(state => ({
+          householdProfiles: state.householdProfiles.filter(profile => profile.id !== id)
+        }));
+      },
+
+      /**
+       * アレルギー・苦手食材を含む献立の扱いを設定
+       */
+      setAllergenCheckMode: (mode: AllergenCheckMode) => {
+        set({ allergenCheckMode: mode });
+      },
+
       /**
        * エラーメッセージを設定
        */
@@ -278,7 +1622,7 @@ export const useAppStore = create<AppStore>()(
        */
       exportData: async (): Promise<string> => {
         try {
-          const data = await databaseService.exportAllData();
+          const data = await databaseService.exportAllData(get().householdProfiles);
           return JSON.stringify(data, null, 2);
         } catch (error) {
           console.error('データエクスポートエラー:', error);
@@ -291,9 +1635,14 @@ export const useAppStore = create<AppStore>()(
        */
       importData: async (jsonData: string) => {
         try {
-          const data = JSON.parse(jsonData);
+          const data: ExportedData = JSON.parse(jsonData);
           await databaseService.importData(data);
           
+          // 家族構成プロファイルを復元（プロファイル導入前のエクスポートでは現在のプロファイルを残す）
+          if (data.householdProfiles) {
+            set({ householdProfiles: data.householdProfiles, householdProfilesMigrated: true });
+          }
+          
           // 状態を再読み込み
           await get().initialize();
           
@@ -309,76 +1658,18 @@ export const useAppStore = create<AppStore>()(
       // APIキーと設定のみをlocalStorageに永続化（セキュリティ考慮）
       partialize: (state) => ({
         preferredProvider: state.preferredProvider,
+        providerConfigs: state.providerConfigs,
+        retrySettings: state.retrySettings,
+        priceTable: state.priceTable,
+        budgetSettings: state.budgetSettings,
+        promptTemplates: state.promptTemplates,
+        activePromptTemplateId: state.activePromptTemplateId,
+        householdProfiles: state.householdProfiles,
+        householdProfilesMigrated: state.householdProfilesMigrated,
+        allergenCheckMode: state.allergenCheckMode,
+        weekPlanAvoidWeeks: state.weekPlanAvoidWeeks,
         currentView: state.currentView
       })
     }
   )
 );
-
-/**
- * AI API用のプロンプトを生成
- * 入力データから適切なプロンプト文字列を作成
- */
-function generatePrompt(formData: MenuFormData): string {
-  const { ingredients, theme, peoplePattern } = formData;
-  
-  // 仕様書通りの箇条書き形式で食材とテーマを列挙
-  const ingredientsList = ingredients.map(ingredient => `* ${ingredient}`).join('\n');
-  const themeList = theme.map(t => `* ${t}`).join('\n');
-  
-  // アプリ仕様.mdのプロンプトテンプレートに完全準拠
-  return `あなたは料理研究家です。以下に提示する食材とテーマと条件に合った、短時間でできる献立を5つ考えてください。それぞれの献立には、献立のタイトルと見出し文、献立の詳細な説明、材料とその分量、所要時間、料理手順を説明してください。また、献立のタイトルと見出し分には、それを見ただけでどのような味付けなのかがわかるようにしてください。
-
-# 食材
-${ingredientsList}
-
-# テーマ
-${themeList}
-
-# 人数構成
-* ${peoplePattern}
-
-以下のJSON配列形式で回答してください:
-[
-  {
-    "title": "献立名（味付けがわかるように記載）",
-    "description": "見出し文（味付けがわかるように記載）",
-    "detail": "献立の詳細な説明",
-    "ingredients": ["材料とその分量1", "材料とその分量2", ...],
-    "steps": ["料理手順1", "料理手順2", ...],
-    "time": "所要時間"
-  },
-  {
-    "title": "献立名（味付けがわかるように記載）",
-    "description": "見出し文（味付けがわかるように記載）",
-    "detail": "献立の詳細な説明",
-    "ingredients": ["材料とその分量1", "材料とその分量2", ...],
-    "steps": ["料理手順1", "料理手順2", ...],
-    "time": "所要時間"
-  },
-  {
-    "title": "献立名（味付けがわかるように記載）",
-    "description": "見出し文（味付けがわかるように記載）",
-    "detail": "献立の詳細な説明",
-    "ingredients": ["材料とその分量1", "材料とその分量2", ...],
-    "steps": ["料理手順1", "料理手順2", ...],
-    "time": "所要時間"
-  },
-  {
-    "title": "献立名（味付けがわかるように記載）",
-    "description": "見出し文（味付けがわかるように記載）",
-    "detail": "献立の詳細な説明",
-    "ingredients": ["材料とその分量1", "材料とその分量2", ...],
-    "steps": ["料理手順1", "料理手順2", ...],
-    "time": "所要時間"
-  },
-  {
-    "title": "献立名（味付けがわかるように記載）",
-    "description": "見出し文（味付けがわかるように記載）",
-    "detail": "献立の詳細な説明",
-    "ingredients": ["材料とその分量1", "材料とその分量2", ...],
-    "steps": ["料理手順1", "料理手順2", ...],
-    "time": "所要時間"
-  }
-]`;
-}
\ No newline at end of file
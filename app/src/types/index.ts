@@ -17,33 +17,299 @@ export interface MenuItem {
 export interface MenuRecord extends MenuItem {
   id: string;              // UUID（一意識別子）
   theme: string[];         // テーマ（春/夏/秋/冬/がっつり/あっさり）（複数選択可能）
-  peoplePattern: string;   // 人数構成（夫婦2人/夫婦＋中高生3人/中高生3人）
+  peoplePattern: string;   // 人数構成（生成時に選択した家族構成プロファイルの名前）
   createdAt: string;       // 作成日時（ISO8601形式）
   inputIngredients: string[]; // 入力時に指定した食材リスト
   isAdopted?: boolean;     // 採用フラグ（true: 採用、false: 不採用、undefined: 未設定）
+  adoptedAt?: string;      // 採用した日時（ISO8601形式、記録開始前に採用した献立は未設定）
+  promptTemplate?: PromptTemplateRef; // 生成に使用したプロンプトテンプレート（記録開始前の献立は未設定）
+  refinements?: MenuRefinement[]; // 結果画面での修正の経緯（修正していない献立は未設定）
+  parsedIngredients: ParsedIngredient[]; // ingredientsを解析した結果（同じ順序）
+  servings: number;        // 分量の基準人数（家族構成の人数、またはpeoplePatternから算出）
+  householdProfileId?: string; // 生成時に選択した家族構成プロファイル（導入前の献立は未設定）
+  weekPlanId?: string;     // 1週間分の献立としてまとめて生成した場合の識別子
+  cookCount?: number;      // 作った回数（記録開始前の献立は未設定）
+  lastCookedAt?: string;   // 最後に作った日時（ISO8601形式）
+  adoptionStatus?: AdoptionStatus; // isAdoptedのインデックス用の値（保存時にDatabaseServiceが設定する）
+}
+
+// 献立履歴のページの読み込み位置（作成日時の降順で、最後に読み込んだ献立）
+export interface MenuPageCursor {
+  createdAt: string;
+  id: string;
+}
+
+// 採用状態（真偽値と未設定はIndexedDBのインデックスに使えないため文字列で表す）
+export type AdoptionStatus = 'adopted' | 'rejected' | 'unset';
+
+// 献立カレンダーの食事枠
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner';
+
+// 献立カレンダーの予定（保存済みの献立を日付・食事枠に割り当てる）
+export interface MealPlanEntry {
+  id: string;              // UUID
+  date: string;            // 予定日（YYYY-MM-DD、端末のタイムゾーン）
+  slot: MealSlot;
+  menuId: string;          // MenuRecordのid
+  createdAt: string;       // ISO 8601形式
+}
+
+// 買い物リストの売り場
+export type StoreSection = 'vegetable' | 'meat' | 'fish' | 'dairy' | 'soy' | 'staple' | 'seasoning' | 'pantry' | 'other';
+
+// 買い物リストの分量（同じ単位ごとに合算したもの）
+export interface ShoppingAmount {
+  quantity: number | null; // 数量（適量・少々など数量がない場合はnull）
+  unit: string | null;
+}
+
+// 買い物リストの項目（複数の献立の同じ材料をまとめたもの）
+export interface ShoppingListItem {
+  id: string;
+  name: string;            // 材料名
+  section: StoreSection;
+  amounts: ShoppingAmount[]; // 単位ごとの合計（単位が揃わない場合は複数）
+  menuTitles: string[];    // この材料を使う献立
+  checked: boolean;        // 購入済み
+}
+
+// 買い物リスト
+export interface ShoppingList {
+  id: string;              // UUID
+  name: string;            // 表示名（「5/12（月）〜5/18（日）の予定」など）
+  menuIds: string[];       // 材料を集めた献立
+  items: ShoppingListItem[];
+  createdAt: string;       // ISO 8601形式
+  updatedAt: string;       // ISO 8601形式
+}
+
+// 冷蔵庫の在庫
+export interface PantryItem {
+  id: string;              // UUID
+  name: string;            // 食材名
+  quantity: number | null; // 数量（数えない場合はnull）
+  unit: string | null;     // 単位（g、個、本など）
+  purchasedAt: string | null; // 購入日（YYYY-MM-DD）
+  expiresAt: string | null;   // 消費・賞味期限（YYYY-MM-DD）
+  updatedAt: string;       // ISO 8601形式
+}
+
+// 献立を作ったときに在庫から差し引く量
+export interface PantryDeduction {
+  itemId: string;
+  quantity: number | null; // 在庫の単位での数量（nullの場合は使い切りとして在庫から削除。数えない在庫から数量を差し引く場合は残す）
+}
+
+// 材料文字列を解析した結果（「醤油 大さじ2」→ 醤油 / 2 / 大さじ）
+export interface ParsedIngredient {
+  name: string;            // 材料名
+  quantity: number | null; // 数量（範囲の場合は下限。適量・少々など数量がない場合はnull）
+  quantityMax?: number;    // 範囲指定の上限（「2〜3個」の3）
+  unit: string | null;     // 単位（g、大さじ、個、適量など。数値のみの場合はnull）
+  note: string | null;     // 括弧内の補足
+}
+
+// 保存した献立に残す修正の経緯（1回の修正指示ごと）
+export interface MenuRefinement {
+  instruction: string;     // 修正の指示
+  scope: 'all' | 'single'; // 全献立への指示か、この献立だけへの指示か
+  previousTitle: string;   // 修正前の献立名
+  createdAt: string;       // ISO 8601形式
+}
+
+// プロンプトテンプレート
+export interface PromptTemplate {
+  id: string;
+  name: string;            // 表示名
+  systemPrompt: string;    // システムプロンプト
+  userPrompt: string;      // ユーザープロンプト（{{ingredients}}などの変数を含む）
+  version: number;         // 保存するたびに1ずつ増える
+  updatedAt: string;       // ISO 8601形式
+}
+
+// 献立を生成したテンプレートの版
+export interface PromptTemplateRef {
+  id: string;
+  name: string;
+  version: number;
 }
 
 // 献立生成のためのフォームデータ
 export interface MenuFormData {
   ingredients: string[];   // 食材リスト（最低1個必要）
   theme: string[];        // テーマ選択（複数選択可能、最低1個必要）
-  peoplePattern: string;  // 人数構成選択
+  peoplePattern: string;  // 人数構成選択（家族構成プロファイルの名前）
+  household?: HouseholdProfile; // 選択した家族構成プロファイル（送信時点の内容）
+  expiringIngredients?: string[]; // 期限が近く優先して使いたい食材（ingredientsに含まれるもの）
+}
+
+// 家族の年齢層
+export type AgeGroup = 'infant' | 'child' | 'teen' | 'adult' | 'senior';
+
+// 食べる量
+export type AppetiteLevel = 'light' | 'normal' | 'hearty';
+
+// 家族構成のメンバー
+export interface HouseholdMember {
+  id: string;
+  name: string;            // 呼び名（父、長男など）
+  ageGroup: AgeGroup;
+  appetite: AppetiteLevel;
+  allergies: string[];     // アレルギーのある食材（必ず除外する）
+  dislikes: string[];      // 苦手な食材（なるべく避ける）
+  restrictions: string[];  // 食事制限（減塩、ベジタリアンなど）
+}
+
+// 家族構成プロファイル（献立作成時に人数構成として選択する）
+export interface HouseholdProfile {
+  id: string;
+  name: string;            // 表示名（夫婦2人など）
+  members: HouseholdMember[];
+  updatedAt: string;       // ISO 8601形式
+}
+
+// アレルギー・苦手食材を含む献立の扱い（warn: 警告のみ、replace: アレルギーは自動で差し替え）
+export type AllergenCheckMode = 'warn' | 'replace';
+
+// 献立に含まれていたアレルギー・苦手食材
+export interface RestrictionViolation {
+  item: string;            // 家族構成に登録された食材
+  kind: 'allergy' | 'dislike';
+  members: string[];       // 該当するメンバー名
+  ingredients: string[];   // 該当した材料
+  steps: number[];         // 該当した手順の番号（1始まり）
+}
+
+// 献立履歴の絞り込み条件
+export interface MenuSearchFilters {
+  query: string;           // 検索語（空白区切りですべてを含むものに絞り込む）
+  themes: string[];        // いずれかのテーマを含むもの（空の場合は絞り込まない）
+  peoplePattern: string;   // 人数構成（空の場合は絞り込まない）
+  adoption: 'all' | AdoptionStatus;
+  maxMinutes: number | null; // 所要時間の上限（分）
+  dateFrom: string;        // 保存日の範囲（YYYY-MM-DD、空の場合は制限なし）
+  dateTo: string;
+}
+
+// 献立履歴の並び順
+export type MenuSortOrder = 'newest' | 'most-cooked' | 'shortest';
+
+// 手持ちの食材で作れる保存済みの献立（材料のうち手持ちで賄える割合の高い順に並べる）
+export interface RecipeMatch {
+  menu: MenuRecord;
+  matched: string[];       // 手持ちの食材で賄える材料
+  missing: string[];       // 足りない材料
+  coverage: number;        // 賄える材料の割合（0〜1）
 }
 
 // APIキー管理用の型
+// プロバイダーごとのフィールド名は各プロバイダー定義の apiKey.field で決まる
 export interface ApiKeyConfig {
   openaiKey?: string;     // OpenAI APIキー
   claudeKey?: string;     // Claude APIキー
+  [field: string]: string | undefined; // その他のプロバイダーのAPIキー
+}
+
+// プロバイダーごとの接続設定（フィールド名は各プロバイダー定義の configFields で決まる）
+export interface ProviderConfig {
+  [field: string]: string | undefined;
+}
+
+// プロバイダーIDごとの接続設定
+export interface ProviderConfigMap {
+  [providerId: string]: ProviderConfig | undefined;
 }
 
-// AI APIの種類
-export type AIProvider = 'openai' | 'claude';
+// AI APIの種類（services/providers のレジストリに登録されたプロバイダーID）
+export type AIProvider = string;
+
+// AI APIとやり取りする会話メッセージ
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
 
 // AI APIへのリクエスト時のオプション
 export interface AIRequestOptions {
   provider: AIProvider;
-  apiKey: string;
+  apiKey: string;          // APIキー不要のプロバイダーでは空文字
+  config?: ProviderConfig; // プロバイダー固有の接続設定
   prompt: string;
+  systemPrompt?: string;   // 省略時は既定のシステムプロンプト
+  count?: number;          // 提案を求める献立の数（不足時の再依頼に使用）
+  retry?: RetrySettings;   // 一時的なエラー時の再試行設定（省略時は再試行しない）
+  signal?: AbortSignal;    // 生成を中断するためのシグナル
+  onUsage?: (provider: AIProvider, model: string, usage: TokenUsage) => void; // API呼び出しごとの使用量通知
+}
+
+// トークン使用量
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;  // 推論トークンを含む出力トークン
+  reasoningTokens?: number;  // 出力トークンのうち推論に使われた分（対応モデルのみ）
+}
+
+// AI API呼び出し1回分の使用量記録（IndexedDBに保存）
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  createdAt: string;         // ISO 8601形式
+  provider: AIProvider;
+  model: string;
+  estimatedCost: number;     // 記録時の料金表による推定コスト（USD）
+}
+
+// モデル別の料金（USD / 100万トークン）
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// 料金表（モデルIDをキーとする）
+export interface PriceTable {
+  [model: string]: ModelPrice | undefined;
+}
+
+// 月間予算の設定
+export interface BudgetSettings {
+  monthlyBudget: number | null;  // 月間予算（USD）。nullの場合は制限なし
+  action: 'warn' | 'block';      // 予算を超える見込みの場合に警告するか、生成を止めるか
+}
+
+// AI API呼び出しの再試行設定
+export interface RetrySettings {
+  maxRetries: number;      // 再試行回数（0で再試行しない）
+  baseDelayMs: number;     // 初回の待機時間（再試行ごとに倍増、Retry-After指定時はその値）
+  failover: boolean;       // 失敗時にAPIキー設定済みの他プロバイダーへ切り替えるか
+}
+
+// 献立生成結果（実際に回答したプロバイダーを含む）
+export interface MenuGenerationResult {
+  menus: MenuItem[];
+  provider: AIProvider;    // 回答したプロバイダー
+  model: string;           // 回答したモデル
+  messages: ChatMessage[]; // 応答までを含めた会話履歴（修正の依頼に使用）
+}
+
+// 結果画面での献立に関する会話
+export interface MenuConversation {
+  systemPrompt: string;
+  messages: ChatMessage[];
+}
+
+// 結果画面での修正依頼1回分
+export interface RefinementTurn {
+  instruction: string;
+  targetIndex: number | null;  // 修正対象の献立の位置（nullはすべての献立）
+  previousTitles: Record<number, string>; // 献立の位置ごとの修正前の献立名
+  createdAt: string;
+}
+
+// 表示中の献立を生成したプロバイダーの情報
+export interface MenuResultSource {
+  provider: AIProvider;
+  model: string;
+  requestedProvider: AIProvider; // 生成時の優先プロバイダー（異なる場合は切り替えて回答した）
+  promptTemplate: PromptTemplateRef; // 生成に使用したテンプレート
 }
 
 // エラーレスポンス型
@@ -55,19 +321,46 @@ export interface ErrorResponse {
 // アプリの状態管理用の型
 export interface AppState {
   // 献立関連
-  menuHistory: MenuRecord[];
+  menuHistory: MenuRecord[];       // 読み込み済みの献立（新しい順。続きはページ単位で読み込む）
+  menuHistoryCursor: MenuPageCursor | null; // 次のページの読み込み位置（最後まで読み込んだ場合はnull）
+  menuCount: number;               // 保存済みの献立の総数
+  adoptedMenuCount: number;        // 採用済みの献立の数
+  adoptedMenus: MenuRecord[];      // 採用済みの献立（献立を選ぶ一覧の先頭に表示する）
+  mealPlanMenus: MenuRecord[];     // 献立カレンダーで表示中の予定の献立
   currentMenuResults: MenuItem[];
+  currentResultSource: MenuResultSource | null;
+  currentConversation: MenuConversation | null;
+  currentRefinements: RefinementTurn[];
+  mealPlanEntries: MealPlanEntry[]; // 献立カレンダーで表示中の期間の予定
+  shoppingLists: ShoppingList[];   // 新しい順
+  pantryItems: PantryItem[];
   
   // UI状態
   isLoading: boolean;
-  currentView: 'home' | 'create' | 'history' | 'settings' | 'settings-options' | 'settings-api' | 'settings-data' | 'settings-version';
+  isLoadingMenus: boolean; // 献立履歴のページを読み込み中
+  isRefining: boolean;     // 表示中の献立を修正中（差し替え中を含む）
+  replacingIndex: number | null; // 別の案に差し替え中の献立の位置
+  regeneratingEntryId: string | null; // 献立カレンダーで作り直し中の予定
+  plannerFocusDate: string | null; // 献立カレンダーを開いたときに表示する日付（YYYY-MM-DD）
+  currentView: 'home' | 'create' | 'history' | 'planner' | 'shopping' | 'pantry' | 'settings' | 'settings-options' | 'settings-api' | 'settings-data' | 'settings-usage' | 'settings-prompts' | 'settings-household' | 'settings-version';
   
   // 設定
   apiKeys: ApiKeyConfig;
   preferredProvider: AIProvider;
+  providerConfigs: ProviderConfigMap;
+  retrySettings: RetrySettings;
+  priceTable: PriceTable;
+  budgetSettings: BudgetSettings;
+  promptTemplates: PromptTemplate[];
+  activePromptTemplateId: string;
+  householdProfiles: HouseholdProfile[];
+  householdProfilesMigrated: boolean;  // 人数構成の選択肢からプロファイルへの移行を済ませたか
+  allergenCheckMode: AllergenCheckMode;
+  weekPlanAvoidWeeks: number;  // 1週間分の献立で、採用済みの献立を避ける期間（週）
   
   // エラー状態
   error: string | null;
+  budgetWarning: string | null;  // 予算に関する警告（生成は継続）
 }
 
 // テーマオプション
@@ -80,9 +373,60 @@ export const THEME_OPTIONS = [
   { value: 'あっさり', label: 'あっさり' }
 ] as const;
 
-// 人数構成オプション
+// 人数構成オプション（家族構成プロファイルの初期値の元になる）
 export const PEOPLE_PATTERN_OPTIONS = [
   { value: '夫婦2人', label: '夫婦2人' },
   { value: '夫婦＋中高生3人', label: '夫婦＋中高生3人' },
   { value: '中高生3人', label: '中高生3人' }
-] as const;
\ No newline at end of file
+] as const;
+
+// 食事枠オプション（1日の中での並び順）
+export const MEAL_SLOT_OPTIONS: { value: MealSlot; label: string }[] = [
+  { value: 'breakfast', label: '朝食' },
+  { value: 'lunch', label: '昼食' },
+  { value: 'dinner', label: '夕食' }
+];
+
+// 売り場オプション（買い物リストでの並び順）
+export const STORE_SECTION_OPTIONS: { value: StoreSection; label: string }[] = [
+  { value: 'vegetable', label: '野菜・果物' },
+  { value: 'meat', label: '肉' },
+  { value: 'fish', label: '魚介' },
+  { value: 'dairy', label: '卵・乳製品' },
+  { value: 'soy', label: '豆腐・大豆製品' },
+  { value: 'staple', label: '米・麺・パン' },
+  { value: 'seasoning', label: '調味料' },
+  { value: 'pantry', label: '乾物・缶詰' },
+  { value: 'other', label: 'その他' }
+];
+
+// 献立履歴の並び順オプション
+export const MENU_SORT_OPTIONS: { value: MenuSortOrder; label: string }[] = [
+  { value: 'newest', label: '新しい順' },
+  { value: 'most-cooked', label: 'よく作る順' },
+  { value: 'shortest', label: '時間の短い順' }
+];
+
+// 採用状態の絞り込みオプション
+export const ADOPTION_FILTER_OPTIONS: { value: MenuSearchFilters['adoption']; label: string }[] = [
+  { value: 'all', label: 'すべて' },
+  { value: 'adopted', label: '採用' },
+  { value: 'rejected', label: '不採用' },
+  { value: 'unset', label: '未設定' }
+];
+
+// 年齢層オプション
+export const AGE_GROUP_OPTIONS: { value: AgeGroup; label: string }[] = [
+  { value: 'infant', label: '幼児' },
+  { value: 'child', label: '小学生' },
+  { value: 'teen', label: '中高生' },
+  { value: 'adult', label: '大人' },
+  { value: 'senior', label: '高齢者' }
+];
+
+// 食べる量オプション
+export const APPETITE_OPTIONS: { value: AppetiteLevel; label: string }[] = [
+  { value: 'light', label: '少なめ' },
+  { value: 'normal', label: '普通' },
+  { value: 'hearty', label: '多め' }
+];
\ No newline at end of file
@@ -0,0 +1,85 @@
+/**
+ * アレルギー・苦手食材の確認のテスト
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { HouseholdProfile } from '../types';
+import { checkMenuRestrictions, getAvoidTerms } from './allergenChecker';
+import { createHouseholdMember } from './household';
+
+/**
+ * アレルギー食材を1つ登録した家族構成
+ */
+function createProfile(allergy: string): HouseholdProfile {
+  return {
+    id: 'profile-1',
+    name: '家族3人',
+    members: [createHouseholdMember({ name: '長男', allergies: [allergy] })],
+    updatedAt: '2025-01-01T00:00:00.000Z'
+  };
+}
+
+/**
+ * 材料・作り方にアレルギー食材が含まれるか
+ */
+function isFlagged(allergy: string, ingredients: string[], steps: string[] = []): boolean {
+  return checkMenuRestrictions({ ingredients, steps }, createProfile(allergy)).length > 0;
+}
+
+describe('checkMenuRestrictions', () => {
+  it.each([
+    ['えび', 'むきえび 100g'],
+    ['えび', '海老 4尾'],
+    ['えび', 'ブラックタイガー（エビ） 6尾'],
+    ['えび', 'ｴﾋﾞ 100g'],
+    ['えび', 'shrimp 100g'],
+    ['海老', 'むきえび 100g'],
+    ['エビ', '桜えび 大さじ1'],
+    ['そば', 'そば 2束'],
+    ['そば', '蕎麦つゆ 100ml'],
+    ['小麦', '食パン 2枚'],
+    ['乳', '牛乳 200ml'],
+    ['乳', 'バター 10g'],
+    ['かに', 'かに缶 1缶'],
+    ['さけ', '生鮭 2切れ'],
+    ['さけ', '生サケ 2切れ'],
+    ['さけ', 'しゃけフレーク 大さじ2']
+  ])('%sのアレルギーで「%s」を検出する', (allergy, ingredient) => {
+    expect(isFlagged(allergy, [ingredient])).toBe(true);
+  });
+
+  it.each([
+    ['そば', '焼きそば麺 2玉'],
+    ['そば', '中華そば 2玉'],
+    ['小麦', 'フライパン'],
+    ['乳', '豆乳 200ml'],
+    ['乳', 'ココナッツミルク 200ml'],
+    ['卵', '茄子 2本（eggplant）'],
+    ['かに', '細かに刻んだ長ねぎ 1/2本'],
+    ['かに', 'わずかに残ったご飯 1膳'],
+    ['さけ', 'さけ 大さじ2'],
+    ['さけ', '料理用のさけ 50ml']
+  ])('%sのアレルギーで「%s」を検出しない', (allergy, ingredient) => {
+    expect(isFlagged(allergy, [ingredient])).toBe(false);
+  });
+
+  it('作り方の中の別の語は検出せず、食材は手順の番号で返す', () => {
+    const steps = ['長ねぎを細かに刻む。', 'フライパンで炒める。', '静かに煮る。', 'かにを加える。'];
+    expect(checkMenuRestrictions({ ingredients: [], steps }, createProfile('かに'))[0].steps).toEqual([4]);
+    expect(isFlagged('小麦', [], steps.slice(0, 3))).toBe(false);
+  });
+
+  it('アレルギーを苦手より先に並べる', () => {
+    const profile = createProfile('えび');
+    profile.members.push(createHouseholdMember({ name: '母', dislikes: ['にんじん'] }));
+    const violations = checkMenuRestrictions({ ingredients: ['人参 1本', 'えび 6尾'], steps: [] }, profile);
+    expect(violations.map(violation => [violation.item, violation.kind])).toEqual([['えび', 'allergy'], ['にんじん', 'dislike']]);
+  });
+});
+
+describe('getAvoidTerms', () => {
+  it('登録した食材と別名を返す', () => {
+    const violations = checkMenuRestrictions({ ingredients: ['生サケ 2切れ'], steps: [] }, createProfile('鮭'));
+    expect(getAvoidTerms(violations)).toEqual(['鮭', 'しゃけ', 'サーモン', 'salmon', 'サケ']);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * アレルギー・苦手食材の確認ユーティリティ
+ * 家族構成に登録された食材が献立の材料・手順に含まれていないかを、別名を含めて確認する
+ */
+
+import type { HouseholdMember, HouseholdProfile, MenuItem, RestrictionViolation } from '../types';
+import { getAgeGroupLabel } from './household';
+
+/**
+ * 同じ食材を指す表記のまとまり
+ * excludesは別の食材・別の語を指すため照合から除く表記（「焼きそば」の「そば」、「細かに」の「かに」など）
+ * katakanaTermsはひらがなでは別の語になるため、カタカナのまま照合する表記（ひらがなの「さけ」は酒を指すことがある）
+ */
+export interface SynonymGroup {
+  name: string;
+  terms: string[];
+  excludes?: string[];
+  katakanaTerms?: string[];
+}
+
+/**
+ * 特定原材料（表示義務のある8品目）の名前
+ */
+export const MAJOR_ALLERGENS = ['えび', 'かに', 'くるみ', '小麦', 'そば', '卵', '乳', '落花生'] as const;
+
+/**
+ * 食材の別名辞書
+ * 特定原材料と主な準ずる品目、苦手として登録されやすい食材を収録する
+ */
+export const SYNONYM_GROUPS: SynonymGroup[] = [
+  // 特定原材料
+  { name: 'えび', terms: ['えび', '海老', '蝦', 'shrimp', 'prawn'] },
+  {
+    name: 'かに',
+    terms: ['かに', '蟹', 'crab'],
+    excludes: ['なかに', 'ほかに', 'たしかに', 'しずかに', 'わずかに', 'ほのかに', 'にわかに', 'こまかに', 'かすかに',
+      'ひそかに', 'はるかに', 'あきらかに', 'やわらかに', 'なめらかに', 'おだやかに', 'すみやかに', 'ゆるやかに',
+      'あざやかに', 'さわやかに', 'ゆたかに', 'なだらかに', 'ほがらかに', 'きよらかに',
+      '確かに', '静かに', '僅かに', '仄かに', '俄かに', '細かに', '微かに', '密かに', '遥かに', '明らかに',
+      '柔らかに', '軟らかに', '滑らかに', '穏やかに', '速やかに', '緩やかに', '鮮やかに', '爽やかに', '豊かに', '清らかに']
+  },
+  { name: 'くるみ', terms: ['くるみ', '胡桃', 'walnut'], excludes: ['でくるみ', 'をくるみ'] },
+  {
+    name: '小麦',
+    terms: ['小麦', '薄力粉', '強力粉', '中力粉', 'パン粉', '天ぷら粉', 'お好み焼き粉', 'ホットケーキミックス', 'うどん',
+      'パスタ', 'スパゲッティ', 'マカロニ', '中華麺', 'ラーメン', '焼きそば', '餃子の皮', '春巻きの皮', 'パン', '麩', 'ルウ',
+      'wheat', 'flour'],
+    excludes: ['米粉パン', 'パンチェッタ', 'パンプキン', 'フライパン']
+  },
+  { name: 'そば', terms: ['そば', '蕎麦', 'buckwheat'], excludes: ['焼きそば', '中華そば'] },
+  {
+    name: '卵',
+    terms: ['卵', 'たまご', '玉子', '鶏卵', 'マヨネーズ', 'egg'],
+    excludes: ['魚卵', 'eggplant']
+  },
+  {
+    name: '乳',
+    terms: ['乳', 'ミルク', 'バター', 'チーズ', '生クリーム', 'ヨーグルト', 'milk', 'butter', 'cheese'],
+    excludes: ['豆乳', '乳化', 'ココナッツミルク', 'アーモンドミルク', 'ピーナッツバター']
+  },
+  { name: '落花生', terms: ['落花生', 'ピーナッツ', 'ピーナツ', 'peanut'] },
+  // 特定原材料に準ずるもの
+  { name: '大豆', terms: ['大豆', '豆腐', '納豆', '味噌', 'みそ', '醤油', 'しょうゆ', '豆乳', '油揚げ', '厚揚げ', 'きな粉', '枝豆', 'soy'] },
+  { name: 'ごま', terms: ['ごま', '胡麻', 'sesame'] },
+  { name: 'さば', terms: ['さば', '鯖'] },
+  { name: 'さけ', terms: ['鮭', 'しゃけ', 'サーモン', 'salmon'], katakanaTerms: ['サケ'] },
+  // 苦手として登録されやすい食材
+  { name: 'しいたけ', terms: ['しいたけ', '椎茸'] },
+  { name: 'なす', terms: ['なす', '茄子', 'eggplant'], excludes: ['はなす', 'こなす'] },
+  { name: 'ねぎ', terms: ['ねぎ', '葱'], excludes: ['玉ねぎ', 'たまねぎ', '玉葱'] },
+  { name: '玉ねぎ', terms: ['玉ねぎ', 'たまねぎ', '玉葱', 'オニオン', 'onion'] },
+  { name: 'パクチー', terms: ['パクチー', '香菜', 'シャンツァイ', 'コリアンダー', 'cilantro'] },
+  { name: 'にんじん', terms: ['にんじん', '人参'] },
+  { name: 'ゴーヤ', terms: ['ゴーヤ', 'にがうり', '苦瓜'] },
+  { name: 'しょうが', terms: ['しょうが', '生姜'] },
+  { name: 'にんにく', terms: ['にんにく', '大蒜', 'ガーリック', 'garlic'] },
+  { name: 'レバー', terms: ['レバー', 'レバ'] }
+];
+
+/**
+ * 照合用に表記を揃える（全角・半角、カタカナ・ひらがな、大文字・小文字）
+ */
+export function normalizeFoodText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+/**
+ * 登録された食材に該当する別名のまとまりを取得
+ * 辞書にない食材はその表記だけで照合する
+ */
+export function findSynonymGroup(item: string): SynonymGroup {
+  const normalized = normalizeFoodText(item.trim());
+  return SYNONYM_GROUPS.find(group =>
+    normalizeFoodText(group.name) === normalized
+    || [...group.terms, ...group.katakanaTerms ?? []].some(term => normalizeFoodText(term) === normalized)
+  ) ?? { name: item.trim(), terms: [item.trim()] };
+}
+
+/**
+ * 文字列が別名のいずれかを含むか（除外する表記は伏せてから照合）
+ */
+function containsFood(text: string, group: SynonymGroup): boolean {
+  let normalized = normalizeFoodText(text);
+  for (const exclude of group.excludes ?? []) {
+    normalized = normalized.split(normalizeFoodText(exclude)).join('□');
+  }
+  const katakana = text.normalize('NFKC');
+  return group.terms.some(term => normalized.includes(normalizeFoodText(term)))
+    || (group.katakanaTerms ?? []).some(term => katakana.includes(term));
+}
+
+/**
+ * 全メンバーのアレルギー・苦手食材を、該当するメンバー名とともに集める
+ * 同じ食材がアレルギーと苦手の両方にある場合はアレルギーとして扱う
+ */
+function collectRestrictions(members: HouseholdMember[]): Map<string, Pick<RestrictionViolation, 'item' | 'kind' | 'members'>> {
+  const restrictions = new Map<string, Pick<RestrictionViolation, 'item' | 'kind' | 'members'>>();
+  const add = (member: HouseholdMember, item: string, kind: RestrictionViolation['kind']) => {
+    const key = findSynonymGroup(item).name;
+    const name = member.name || getAgeGroupLabel(member.ageGroup);
+    const existing = restrictions.get(key);
+    if (!existing) {
+      restrictions.set(key, { item, kind, members: [name] });
+      return;
+    }
+    if (!existing.members.includes(name)) {
+      existing.members.push(name);
+    }
+    if (kind === 'allergy') {
+      existing.kind = 'allergy';
+    }
+  };
+
+  for (const member of members) {
+    member.allergies.forEach(item => add(member, item, 'allergy'));
+    member.dislikes.forEach(item => add(member, item, 'dislike'));
+  }
+  return restrictions;
+}
+
+/**
+ * 献立に家族のアレルギー・苦手食材が含まれていないかを確認
+ * 材料と作り方の両方を照合し、アレルギーを先に並べて返す
+ */
+export function checkMenuRestrictions(menu: Pick<MenuItem, 'ingredients' | 'steps'>, profile: HouseholdProfile): RestrictionViolation[] {
+  const violations: RestrictionViolation[] = [];
+
+  for (const restriction of collectRestrictions(profile.members).values()) {
+    const group = findSynonymGroup(restriction.item);
+    const ingredients = menu.ingredients.filter(ingredient => containsFood(ingredient, group));
+    const steps = menu.steps
+      .map((step, index) => containsFood(step, group) ? index + 1 : 0)
+      .filter(step => step > 0);
+
+    if (ingredients.length > 0 || steps.length > 0) {
+      violations.push({ ...restriction, ingredients, steps });
+    }
+  }
+
+  return violations.sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'allergy' ? -1 : 1));
+}
+
+/**
+ * アレルギー食材を含むか
+ */
+export function hasAllergyViolation(violations: RestrictionViolation[]): boolean {
+  return violations.some(violation => violation.kind === 'allergy');
+}
+
+/**
+ * 違反内容を表示用の文字列に変換（「えび（長男のアレルギー）: むきえび 100g、作り方2」）
+ */
+export function describeViolation(violation: RestrictionViolation): string {
+  const label = violation.kind === 'allergy' ? 'アレルギー' : '苦手';
+  const places = [
+    ...violation.ingredients,
+    ...violation.steps.map(step => `作り方${step}`)
+  ];
+  return `${violation.item}（${violation.members.join('、')}の${label}）: ${places.join('、')}`;
+}
+
+/**
+ * 差し替え時に使用を禁止する食材の表記（別名を含む）
+ */
+export function getAvoidTerms(violations: RestrictionViolation[]): string[] {
+  return Array.from(new Set(violations.flatMap(violation => {
+    const group = findSynonymGroup(violation.item);
+    return [violation.item, ...group.terms, ...group.katakanaTerms ?? []];
+  })));
+}
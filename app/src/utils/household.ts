@@ -0,0 +1,141 @@
+/**
+ * 家族構成プロファイルユーティリティ
+ * 旧来の人数構成ラベルからのプロファイル作成と、プロンプト用の条件文への展開を行う
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { AgeGroup, HouseholdMember, HouseholdProfile, MenuFormData } from '../types';
+import { AGE_GROUP_OPTIONS, APPETITE_OPTIONS } from '../types';
+import { DEFAULT_SERVINGS, estimateServings } from './servings';
+
+// 人数構成ラベル中の語から年齢層を推定する
+const AGE_GROUP_KEYWORDS: [RegExp, AgeGroup][] = [
+  [/幼児|乳児|未就学|赤ちゃん/, 'infant'],
+  [/小学生|子ども|子供|こども/, 'child'],
+  [/中高生|中学生|高校生/, 'teen'],
+  [/高齢|シニア|祖父|祖母/, 'senior']
+];
+
+/**
+ * 年齢層の表示名
+ */
+export function getAgeGroupLabel(ageGroup: AgeGroup): string {
+  return AGE_GROUP_OPTIONS.find(option => option.value === ageGroup)?.label ?? ageGroup;
+}
+
+/**
+ * 新しいメンバーを作成
+ */
+export function createHouseholdMember(overrides: Partial<HouseholdMember> = {}): HouseholdMember {
+  return {
+    id: uuidv4(),
+    name: '',
+    ageGroup: 'adult',
+    appetite: 'normal',
+    allergies: [],
+    dislikes: [],
+    restrictions: [],
+    ...overrides
+  };
+}
+
+/**
+ * 旧来の人数構成ラベル（「夫婦＋中高生3人」など）からプロファイルを作成
+ * 「夫婦」は大人2人とし、残りの人数はラベル中の年齢層（なければ大人）で補う
+ */
+export function createProfileFromPeoplePattern(label: string): HouseholdProfile {
+  const hasCouple = label.includes('夫婦');
+  const hasCount = /\d+\s*人/.test(label.normalize('NFKC'));
+  const total = hasCount ? estimateServings(label) : hasCouple ? 2 : DEFAULT_SERVINGS;
+  const ageGroup = AGE_GROUP_KEYWORDS.find(([pattern]) => pattern.test(label))?.[1] ?? 'adult';
+
+  const members: HouseholdMember[] = hasCouple
+    ? [createHouseholdMember({ name: '夫' }), createHouseholdMember({ name: '妻' })]
+    : [];
+  for (let i = 1; members.length < total; i++) {
+    members.push(createHouseholdMember({ name: `${getAgeGroupLabel(ageGroup)}${i}`, ageGroup }));
+  }
+
+  return {
+    id: uuidv4(),
+    name: label,
+    members,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * プロファイルの人数（分量の基準人数）
+ */
+export function countServings(profile: HouseholdProfile): number {
+  return profile.members.length > 0 ? profile.members.length : DEFAULT_SERVINGS;
+}
+
+/**
+ * フォームの入力から分量の基準人数を決定
+ * 家族構成プロファイルがない場合は人数構成ラベルから読み取る
+ */
+export function resolveServings(formData: MenuFormData): number {
+  return formData.household ? countServings(formData.household) : estimateServings(formData.peoplePattern);
+}
+
+/**
+ * 「、」やカンマ区切りの入力を一覧に変換
+ */
+export function splitListInput(text: string): string[] {
+  return Array.from(new Set(text.split(/[、,，\n]/).map(item => item.trim()).filter(Boolean)));
+}
+
+/**
+ * 全メンバーの項目を重複なく集め、該当するメンバー名を添える（「えび（長男）」）
+ */
+function collectWithMembers(members: HouseholdMember[], pick: (member: HouseholdMember) => string[]): string[] {
+  const owners = new Map<string, string[]>();
+  for (const member of members) {
+    for (const item of pick(member)) {
+      owners.set(item, [...(owners.get(item) ?? []), member.name || getAgeGroupLabel(member.ageGroup)]);
+    }
+  }
+  return Array.from(owners, ([item, names]) => `${item}（${names.join('、')}）`);
+}
+
+/**
+ * プロファイルをプロンプトに埋め込む条件文に展開
+ * 1行目は「名前（N人分）」、2行目以降は「* 」で始まる箇条書き
+ * （既定テンプレートの「* {{peoplePattern}}」に続けて並ぶ形）
+ */
+export function describeHousehold(profile: HouseholdProfile): string {
+  const { members } = profile;
+  const lines = [`${profile.name}（${countServings(profile)}人分）`];
+
+  for (const member of members) {
+    const appetite = APPETITE_OPTIONS.find(option => option.value === member.appetite)?.label ?? '普通';
+    lines.push(`* ${member.name || getAgeGroupLabel(member.ageGroup)}: ${getAgeGroupLabel(member.ageGroup)}・食べる量は${appetite}`);
+  }
+
+  const allergies = collectWithMembers(members, member => member.allergies);
+  if (allergies.length > 0) {
+    lines.push(`* 次の食材はアレルギーがあるため、材料・調味料・だしを含めて絶対に使わないでください: ${allergies.join('、')}`);
+  }
+  const dislikes = collectWithMembers(members, member => member.dislikes);
+  if (dislikes.length > 0) {
+    lines.push(`* 次の食材は苦手なため、できるだけ使わないでください: ${dislikes.join('、')}`);
+  }
+  const restrictions = collectWithMembers(members, member => member.restrictions);
+  if (restrictions.length > 0) {
+    lines.push(`* 次の食事制限を守ってください: ${restrictions.join('、')}`);
+  }
+
+  // 年齢層・食べる量に応じた配慮
+  if (members.some(member => member.ageGroup === 'infant')) {
+    lines.push('* 幼児も食べられるよう、辛味を控えてやわらかく食べやすい大きさにしてください');
+  }
+  if (members.some(member => member.ageGroup === 'senior')) {
+    lines.push('* 高齢者も食べやすいよう、やわらかさと塩分に配慮してください');
+  }
+  if (members.some(member => member.appetite === 'hearty')) {
+    lines.push('* よく食べる人がいるため、量は多めにしてください');
+  }
+
+  return lines.join('\n');
+}
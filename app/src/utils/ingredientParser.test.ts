@@ -0,0 +1,34 @@
+/**
+ * 材料文字列の解析のテスト
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseIngredient } from './ingredientParser';
+
+describe('parseIngredient', () => {
+  it.each([
+    ['鶏もも肉 300g', { name: '鶏もも肉', quantity: 300, unit: 'g', note: null }],
+    ['醤油 大さじ2', { name: '醤油', quantity: 2, unit: '大さじ', note: null }],
+    ['鮭 2〜3切れ', { name: '鮭', quantity: 2, quantityMax: 3, unit: '切れ', note: null }],
+    ['しょうが（チューブ） 小さじ1', { name: 'しょうが', quantity: 1, unit: '小さじ', note: 'チューブ' }],
+    ['塩 少々', { name: '塩', quantity: null, unit: '少々', note: null }]
+  ])('「%s」を名前・数量・単位・補足に分解する', (text, expected) => {
+    expect(parseIngredient(text)).toEqual(expected);
+  });
+
+  it('名前と分量の間の「…」を名前に含めない', () => {
+    expect(parseIngredient('しょうゆ…大さじ2')).toEqual({ name: 'しょうゆ', quantity: 2, unit: '大さじ', note: null });
+    expect(parseIngredient('みりん・・・大さじ1')).toEqual({ name: 'みりん', quantity: 1, unit: '大さじ', note: null });
+  });
+
+  it('単位の後の「分」を読み取る', () => {
+    expect(parseIngredient('卵黄 1個分')).toEqual({ name: '卵黄', quantity: 1, unit: '個', note: null });
+    expect(parseIngredient('レモン汁 1/2個分')).toEqual({ name: 'レモン汁', quantity: 0.5, unit: '個', note: null });
+  });
+
+  it('カタカナ表記の単位を揃える', () => {
+    expect(parseIngredient('牛乳 200グラム')).toEqual({ name: '牛乳', quantity: 200, unit: 'g', note: null });
+    expect(parseIngredient('水 1リットル')).toEqual({ name: '水', quantity: 1, unit: 'l', note: null });
+    expect(parseIngredient('生クリーム 100ミリリットル')).toEqual({ name: '生クリーム', quantity: 100, unit: 'ml', note: null });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * 材料文字列の解析ユーティリティ
+ * 「鶏もも肉 300g」「醤油 大さじ2」のような文字列を名前・数量・単位・補足に分解する
+ */
+
+import type { ParsedIngredient } from '../types';
+
+/**
+ * 数値の前に置く単位（大さじ2、カップ1/2など）
+ */
+export const PREFIX_UNITS = ['大さじ', '小さじ', 'カップ'] as const;
+
+/**
+ * 数値の後に置く単位（長い単位から順に照合する）
+ */
+export const SUFFIX_UNITS = [
+  'パック', 'カップ', '切れ', 'かけ', '房', '束', '袋', '缶', '株', '玉', '丁', '尾', '匹', '粒', '膳', '杯',
+  '個', '片', '合', '枚', '本', 'つ', 'kg', 'mg', 'ml', 'cc', 'cm', 'g', 'l'
+] as const;
+
+/**
+ * カタカナ表記の単位と、揃える単位（長い表記から順に照合する）
+ */
+export const UNIT_ALIASES: Record<string, string> = {
+  キログラム: 'kg',
+  ミリグラム: 'mg',
+  ミリリットル: 'ml',
+  グラム: 'g',
+  リットル: 'l'
+};
+
+/**
+ * 数量を伴わない単位
+ */
+export const AMOUNTLESS_UNITS = ['適量', '少々', '少量', 'ひとつまみ', 'お好みで'] as const;
+
+// 数値部分（整数・小数・分数・帯分数「1と1/2」）
+const NUMBER = String.raw`\d+(?:\.\d+)?(?:と\d+\/\d+)?|\d+\/\d+`;
+// 範囲の区切り（2〜3個、2-3片）
+const RANGE = String.raw`(${NUMBER})(?:\s*[〜~\-–]\s*(${NUMBER}))?`;
+
+const PREFIX_PATTERN = new RegExp(String.raw`(${PREFIX_UNITS.join('|')})\s*${RANGE}$`);
+// 「卵黄 1個分」のように単位の後に「分」が付く場合も読み取る
+const SUFFIX_PATTERN = new RegExp(
+  String.raw`${RANGE}\s*(${[...Object.keys(UNIT_ALIASES), ...SUFFIX_UNITS].join('|')})分?$`,
+  'i'
+);
+const AMOUNTLESS_PATTERN = new RegExp(String.raw`(${AMOUNTLESS_UNITS.join('|')})$`);
+const NUMBER_ONLY_PATTERN = new RegExp(String.raw`\s${RANGE}$`);
+const NOTE_PATTERN = /[（(]([^）)]*)[）)]/g;
+
+/**
+ * 数値部分を数値に変換（「1と1/2」は1.5、「1/4」は0.25）
+ */
+function toNumber(text: string): number {
+  const [whole, fraction] = text.includes('と') ? text.split('と') : [null, text];
+  const [numerator, denominator] = fraction.split('/');
+  const value = denominator ? Number(numerator) / Number(denominator) : Number(numerator);
+  return (whole ? Number(whole) : 0) + value;
+}
+
+/**
+ * 全角数字・記号や分数文字を半角に揃える
+ */
+function normalize(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(/⁄/g, '/')                  // ½などの分数文字はNFKCで「1⁄2」になる
+    .replace(/(\d)\s+(\d+\/\d+)/g, '$1と$2')   // 「1 1/2」を帯分数として扱う
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 材料文字列を解析
+ * 数量を読み取れない場合は全体を名前とし、数量・単位はnullにする
+ */
+export function parseIngredient(text: string): ParsedIngredient {
+  let rest = normalize(text);
+
+  // 括弧内は補足として取り出す
+  const notes = Array.from(rest.matchAll(NOTE_PATTERN), match => match[1].trim()).filter(Boolean);
+  rest = rest.replace(NOTE_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+
+  let quantity: number | null = null;
+  let quantityMax: number | undefined;
+  let unit: string | null = null;
+
+  const prefix = rest.match(PREFIX_PATTERN);
+  const suffix = prefix ? null : rest.match(SUFFIX_PATTERN);
+  const amountless = prefix || suffix ? null : rest.match(AMOUNTLESS_PATTERN);
+  const numberOnly = prefix || suffix || amountless ? null : rest.match(NUMBER_ONLY_PATTERN);
+
+  if (prefix) {
+    unit = prefix[1];
+    quantity = toNumber(prefix[2]);
+    quantityMax = prefix[3] ? toNumber(prefix[3]) : undefined;
+  } else if (suffix) {
+    quantity = toNumber(suffix[1]);
+    quantityMax = suffix[2] ? toNumber(suffix[2]) : undefined;
+    unit = UNIT_ALIASES[suffix[3]] ?? suffix[3].toLowerCase();   // グラムはg、mLやLはmlやlに揃える
+  } else if (amountless) {
+    unit = amountless[1];
+  } else if (numberOnly) {
+    quantity = toNumber(numberOnly[1]);
+    quantityMax = numberOnly[2] ? toNumber(numberOnly[2]) : undefined;
+  }
+
+  const matched = prefix ?? suffix ?? amountless ?? numberOnly;
+  const name = (matched ? rest.slice(0, matched.index) : rest)
+    .replace(/[\s.:：…・]+$/, '')   // 「しょうゆ…大さじ2」の「…」はNFKCで「...」になる
+    .trim();
+
+  return {
+    name: name || rest,
+    quantity,
+    ...(quantityMax !== undefined && { quantityMax }),
+    unit,
+    note: notes.length > 0 ? notes.join('、') : null
+  };
+}
+
+/**
+ * 材料文字列の一覧を解析（順序は元の一覧と同じ）
+ */
+export function parseIngredients(ingredients: string[]): ParsedIngredient[] {
+  return ingredients.map(parseIngredient);
+}
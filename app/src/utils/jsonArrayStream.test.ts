@@ -0,0 +1,51 @@
+/**
+ * JSON配列のインクリメンタルパーサーのテスト
+ */
+
+import { describe, expect, it } from 'vitest';
+import { JsonArrayStreamParser } from './jsonArrayStream';
+
+/**
+ * テキストを断片に分けて順に渡し、完成した要素を断片ごとに集める
+ */
+function pushAll(chunks: string[]): unknown[][] {
+  const parser = new JsonArrayStreamParser();
+  return chunks.map(chunk => parser.push(chunk));
+}
+
+describe('JsonArrayStreamParser', () => {
+  it('要素のオブジェクトを完成した時点で返す', () => {
+    expect(pushAll(['{"menus":[{"title":"A"},', '{"title":"B"}', ']}'])).toEqual([[{ title: 'A' }], [{ title: 'B' }], []]);
+  });
+
+  it('文字列の途中で分かれた断片をつなげて読み取る', () => {
+    const text = '{"menus":[{"title":"豚の生姜焼き","steps":["焼く。","からめる。"]},{"title":"味噌汁"}]}';
+    const results = pushAll(Array.from(text));
+
+    expect(results.flat()).toEqual([{ title: '豚の生姜焼き', steps: ['焼く。', 'からめる。'] }, { title: '味噌汁' }]);
+    // 1つ目の要素は閉じ括弧が届いた断片で返す
+    expect(results.findIndex(result => result.length > 0)).toBe(text.indexOf('}'));
+  });
+
+  it('文字列内のエスケープした引用符・括弧を要素の区切りとみなさない', () => {
+    const element = { title: '"特製" {鍋} [改]', detail: 'バックスラッシュ\\と"}]' };
+    const text = `{"menus":[${JSON.stringify(element)}]}`;
+    const parser = new JsonArrayStreamParser();
+    const completed = Array.from(text).flatMap(char => parser.push(char));
+
+    expect(completed).toEqual([element]);
+  });
+
+  it('配列の前後の説明文やコードフェンスは無視する', () => {
+    const text = '以下が献立です。\n```json\n{"menus": [{"title":"A"}]}\n```\n[{"title":"後ろの配列"}]';
+    expect(pushAll([text]).flat()).toEqual([{ title: 'A' }]);
+  });
+
+  it('途中で途切れた末尾の要素は返さない', () => {
+    expect(pushAll(['{"menus":[{"title":"A"},{"title":"B","steps":["焼']).flat()).toEqual([{ title: 'A' }]);
+  });
+
+  it('JSONとして解釈できない要素は読み飛ばす', () => {
+    expect(pushAll(['[{"title":"A",},{"title":"B"}]']).flat()).toEqual([{ title: 'B' }]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * JSON配列のインクリメンタルパーサー
+ * ストリーミングで届くテキストから、最初に現れるJSON配列の要素オブジェクトを
+ * 完成した順に取り出す（配列の前後にある説明文やコードフェンスは無視）
+ */
+
+export class JsonArrayStreamParser {
+  private buffer = '';
+  private position = 0;          // 次に走査する文字位置
+  private depth = 0;             // 対象配列内の括弧の深さ（配列自身が1）
+  private elementStart = -1;     // 走査中の要素オブジェクトの開始位置
+  private inString = false;
+  private escaped = false;
+  private finished = false;      // 対象配列が閉じたか
+
+  /**
+   * テキストの断片を追加し、新たに完成した要素を返す
+   * JSONとして解釈できない要素は読み飛ばす
+   */
+  push(chunk: string): unknown[] {
+    this.buffer += chunk;
+    const completed: unknown[] = [];
+
+    while (this.position < this.buffer.length && !this.finished) {
+      const char = this.buffer[this.position];
+
+      if (this.depth === 0) {
+        // 対象配列が見つかるまでは説明文として読み飛ばす
+        if (char === '[') {
+          this.depth = 1;
+        }
+      } else if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+      } else if (char === '"') {
+        this.inString = true;
+      } else if (char === '[' || char === '{') {
+        if (char === '{' && this.depth === 1) {
+          this.elementStart = this.position;
+        }
+        this.depth++;
+      } else if (char === ']' || char === '}') {
+        this.depth--;
+        if (this.depth === 0) {
+          this.finished = true;
+        } else if (char === '}' && this.depth === 1 && this.elementStart !== -1) {
+          const element = this.parseElement(this.buffer.slice(this.elementStart, this.position + 1));
+          if (element !== undefined) {
+            completed.push(element);
+          }
+          this.elementStart = -1;
+        }
+      }
+
+      this.position++;
+    }
+
+    return completed;
+  }
+
+  /**
+   * 要素1つ分のJSON文字列をパース
+   */
+  private parseElement(json: string): unknown {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * 献立カレンダーのユーティリティ
+ * 予定日（YYYY-MM-DD）の計算と、週・月の表示範囲の算出を行う
+ */
+
+import type { MealPlanEntry, MealSlot } from '../types';
+import { MEAL_SLOT_OPTIONS } from '../types';
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+/**
+ * 日付を予定日の形式（端末のタイムゾーンでのYYYY-MM-DD）に変換
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 予定日を日付に変換（端末のタイムゾーンの0時）
+ */
+export function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * 日数を加算した日付
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * 月曜始まりの週の7日間
+ */
+export function getWeekDates(anchor: Date): Date[] {
+  const offset = (anchor.getDay() + 6) % 7;
+  const monday = addDays(anchor, -offset);
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+}
+
+/**
+ * 月表示の日付（前後の月を含めて月曜始まりの週単位で埋める）
+ */
+export function getMonthDates(anchor: Date): Date[] {
+  const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const start = getWeekDates(first)[0];
+  const end = getWeekDates(last)[6];
+
+  const dates: Date[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * 予定日の表示名（「5/12（月）」）
+ */
+export function formatDateLabel(date: Date): string {
+  return `${date.getMonth() + 1}/${date.getDate()}（${WEEKDAY_LABELS[date.getDay()]}）`;
+}
+
+/**
+ * 曜日の表示名（月曜始まり）
+ */
+export function getWeekdayLabels(): string[] {
+  return [...WEEKDAY_LABELS.slice(1), WEEKDAY_LABELS[0]];
+}
+
+/**
+ * 食事枠の表示名
+ */
+export function getMealSlotLabel(slot: MealSlot): string {
+  return MEAL_SLOT_OPTIONS.find(option => option.value === slot)?.label ?? slot;
+}
+
+/**
+ * 予定を日付・食事枠の順に並べる
+ */
+export function sortMealPlanEntries(entries: MealPlanEntry[]): MealPlanEntry[] {
+  const slotOrder = MEAL_SLOT_OPTIONS.map(option => option.value);
+  return [...entries].sort((a, b) =>
+    a.date.localeCompare(b.date)
+    || slotOrder.indexOf(a.slot) - slotOrder.indexOf(b.slot)
+    || a.createdAt.localeCompare(b.createdAt)
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * AI応答テキストの修復のテスト
+ */
+
+import { describe, expect, it } from 'vitest';
+import { repairMenuResponse } from './menuResponseRepair';
+
+const A = { title: 'A', steps: ['焼く。'] };
+const B = { title: 'B', steps: ['煮る。'] };
+
+describe('repairMenuResponse', () => {
+  it('そのままのJSONから献立の配列を取り出す', () => {
+    expect(repairMenuResponse(JSON.stringify({ menus: [A, B] }))).toEqual({ items: [A, B], truncated: false });
+    expect(repairMenuResponse(JSON.stringify([A, B]))).toEqual({ items: [A, B], truncated: false });
+  });
+
+  it('コードフェンスと前後の説明文を除く', () => {
+    const content = `献立を提案します。\n\`\`\`json\n${JSON.stringify({ menus: [A, B] }, null, 2)}\n\`\`\`\nいかがでしょうか。`;
+    expect(repairMenuResponse(content)).toEqual({ items: [A, B], truncated: false });
+    expect(repairMenuResponse(`\`\`\`\n${JSON.stringify([A])}\n\`\`\``)).toEqual({ items: [A], truncated: false });
+  });
+
+  it('文字列の外側の末尾カンマを除く（文字列内の「,]」は残す）', () => {
+    const content = '{"menus": [{"title": "A", "steps": ["焼く。",],}, {"title": "B,]", "steps": [],},],}';
+    expect(repairMenuResponse(content)).toEqual({
+      items: [{ title: 'A', steps: ['焼く。'] }, { title: 'B,]', steps: [] }],
+      truncated: false
+    });
+  });
+
+  it('途中で切れた配列から完成している要素だけを取り出す', () => {
+    const content = `{"menus": [${JSON.stringify(A)}, ${JSON.stringify(B)}, {"title": "C", "steps": ["炒`;
+    expect(repairMenuResponse(content)).toEqual({ items: [A, B], truncated: true });
+  });
+
+  it('単一の献立オブジェクトは1件の配列にする', () => {
+    expect(repairMenuResponse(`修正後の献立です: ${JSON.stringify(A)}`)).toEqual({ items: [A], truncated: false });
+  });
+
+  it('JSONを取り出せない応答は空にする', () => {
+    expect(repairMenuResponse('申し訳ありませんが、献立を提案できません。')).toEqual({ items: [], truncated: false });
+    expect(repairMenuResponse('{"title": "A", "steps": ["焼')).toEqual({ items: [], truncated: false });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * AI応答テキストの修復ユーティリティ
+ * コードフェンス・末尾カンマ・途中で切れた配列・単一オブジェクトの応答から
+ * 解釈できる要素を可能な限り取り出す
+ */
+
+import { JsonArrayStreamParser } from './jsonArrayStream';
+
+// 修復結果
+export interface RepairResult {
+  items: unknown[];       // 取り出せた要素（形式の検証は呼び出し側で行う）
+  truncated: boolean;     // 途中で切れた応答から部分的に取り出したか
+}
+
+/**
+ * コードフェンス（```json ... ```）の中身を取り出す
+ * フェンスがない場合はそのまま返す
+ */
+function stripCodeFence(content: string): string {
+  const fenced = content.match(/```(?:json|JSON)?\s*([\s\S]*?)(?:```|$)/);
+  return fenced ? fenced[1] : content;
+}
+
+/**
+ * 文字列リテラルの外側にある末尾カンマ（,] や ,}）を除去
+ */
+function removeTrailingCommas(json: string): string {
+  let result = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      const next = json.slice(i + 1).match(/^\s*([\]}])/);
+      if (next) {
+        continue;
+      }
+    }
+
+    result += char;
+  }
+
+  return result;
+}
+
+/**
+ * パース済みの値から献立候補の配列を取り出す
+ * 配列・配列を持つオブジェクト（{"menus": [...]}）・単一オブジェクトに対応
+ */
+function extractItems(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) {
+    return value;
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    // 献立らしいフィールドを持つ場合は単一の献立として扱う
+    if ('title' in value) {
+      return [value];
+    }
+    return Object.values(value).find(Array.isArray) ?? null;
+  }
+
+  return null;
+}
+
+/**
+ * AI応答テキストを修復して要素を取り出す
+ * 何も取り出せない場合は空配列を返す
+ */
+export function repairMenuResponse(content: string): RepairResult {
+  const body = stripCodeFence(content);
+  const start = body.search(/[[{]/);
+  if (start === -1) {
+    return { items: [], truncated: false };
+  }
+
+  // 1. 前後の説明文を除いて、末尾カンマを除去した上でパース
+  const arrayStart = body.indexOf('[');
+  const end = Math.max(body.lastIndexOf(']'), body.lastIndexOf('}'));
+  const candidates = [body.slice(start, end + 1)];
+  if (arrayStart !== -1 && arrayStart !== start) {
+    candidates.push(body.slice(arrayStart, body.lastIndexOf(']') + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const items = extractItems(JSON.parse(removeTrailingCommas(candidate)));
+      if (items) {
+        return { items, truncated: false };
+      }
+    } catch {
+      // 次の方法を試す
+    }
+  }
+
+  // 2. 途中で切れた配列から完成している要素だけを取り出す
+  //    （配列で囲まれていない単一オブジェクトの途中切れは修復しない）
+  if (arrayStart !== -1) {
+    const parser = new JsonArrayStreamParser();
+    const items = parser.push(removeTrailingCommas(body.slice(arrayStart)));
+    if (items.length > 0) {
+      return { items, truncated: true };
+    }
+  }
+
+  return { items: [], truncated: false };
+}
@@ -0,0 +1,119 @@
+/**
+ * 献立履歴の検索ユーティリティ
+ * キーワード検索（かな・全角半角・大文字小文字を区別しない）と条件での絞り込み、並べ替えを行う
+ */
+
+import type { MenuRecord, MenuSearchFilters, MenuSortOrder } from '../types';
+import { normalizeFoodText } from './allergenChecker';
+import { toDateKey } from './mealPlan';
+
+/**
+ * 所要時間の上限の選択肢（分）
+ */
+export const MAX_MINUTES_OPTIONS = [10, 15, 20, 30, 60];
+
+/**
+ * 絞り込みなしの条件
+ */
+export const EMPTY_SEARCH_FILTERS: MenuSearchFilters = {
+  query: '',
+  themes: [],
+  peoplePattern: '',
+  adoption: 'all',
+  maxMinutes: null,
+  dateFrom: '',
+  dateTo: ''
+};
+
+/**
+ * 所要時間の文字列を分に変換（「約15分」「1時間30分」「20〜30分」は上限の30分）
+ * 読み取れない場合はnull
+ */
+export function parseCookMinutes(time: string): number | null {
+  const text = time.normalize('NFKC');
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*時間/);
+  const minuteMatches = Array.from(text.matchAll(/(\d+)\s*(?:分|min)/gi), match => Number(match[1]));
+  if (!hours && minuteMatches.length === 0) {
+    return null;
+  }
+  const rangeMatch = text.match(/(\d+)\s*[〜~-]\s*(\d+)\s*(?:分|min)/i);
+  const minutes = rangeMatch ? Number(rangeMatch[2]) : minuteMatches[minuteMatches.length - 1] ?? 0;
+  return Math.round((hours ? Number(hours[1]) * 60 : 0) + minutes);
+}
+
+/**
+ * 検索対象の文字列（タイトル・見出し文・詳細・材料・手順）
+ */
+function buildSearchText(menu: MenuRecord): string {
+  return normalizeFoodText([menu.title, menu.description, menu.detail, ...menu.ingredients, ...menu.steps].join('\n'));
+}
+
+/**
+ * 献立が条件に合うか
+ */
+export function matchesFilters(menu: MenuRecord, filters: MenuSearchFilters): boolean {
+  if (filters.themes.length > 0 && !filters.themes.some(theme => menu.theme.includes(theme))) {
+    return false;
+  }
+  if (filters.peoplePattern && menu.peoplePattern !== filters.peoplePattern) {
+    return false;
+  }
+  if (filters.adoption === 'adopted' && menu.isAdopted !== true) return false;
+  if (filters.adoption === 'rejected' && menu.isAdopted !== false) return false;
+  if (filters.adoption === 'unset' && menu.isAdopted !== undefined) return false;
+  if (filters.maxMinutes !== null) {
+    const minutes = parseCookMinutes(menu.time);
+    if (minutes === null || minutes > filters.maxMinutes) {
+      return false;
+    }
+  }
+  if (filters.dateFrom || filters.dateTo) {
+    const date = toDateKey(new Date(menu.createdAt));
+    if ((filters.dateFrom && date < filters.dateFrom) || (filters.dateTo && date > filters.dateTo)) {
+      return false;
+    }
+  }
+  const terms = normalizeFoodText(filters.query).split(/\s+/).filter(Boolean);
+  if (terms.length > 0) {
+    const text = buildSearchText(menu);
+    return terms.every(term => text.includes(term));
+  }
+  return true;
+}
+
+/**
+ * 献立を並べ替える（同順位は新しい順）
+ * 所要時間の短い順では、時間を読み取れない献立を最後にする
+ */
+export function sortMenus(menus: MenuRecord[], order: MenuSortOrder): MenuRecord[] {
+  const newest = (a: MenuRecord, b: MenuRecord) => b.createdAt.localeCompare(a.createdAt);
+  switch (order) {
+    case 'most-cooked':
+      return [...menus].sort((a, b) => (b.cookCount ?? 0) - (a.cookCount ?? 0) || newest(a, b));
+    case 'shortest':
+      return [...menus].sort((a, b) =>
+        (parseCookMinutes(a.time) ?? Infinity) - (parseCookMinutes(b.time) ?? Infinity) || newest(a, b));
+    default:
+      return [...menus].sort(newest);
+  }
+}
+
+/**
+ * 絞り込み条件が指定されているか（キーワードを除く）
+ */
+export function hasActiveFilters(filters: MenuSearchFilters): boolean {
+  return filters.themes.length > 0
+    || filters.peoplePattern !== ''
+    || filters.adoption !== 'all'
+    || filters.maxMinutes !== null
+    || filters.dateFrom !== ''
+    || filters.dateTo !== '';
+}
+
+/**
+ * 献立の選択肢（採用済みの献立を先頭に、読み込み済みの献立履歴を続ける。重複なし）
+ */
+export function mergeMenuLists(adoptedMenus: MenuRecord[], menuHistory: MenuRecord[]): MenuRecord[] {
+  const adoptedIds = new Set(adoptedMenus.map(menu => menu.id));
+  return [...adoptedMenus, ...menuHistory.filter(menu => !adoptedIds.has(menu.id))];
+}
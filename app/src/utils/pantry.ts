@@ -0,0 +1,130 @@
+/**
+ * 冷蔵庫の在庫のユーティリティ
+ * 期限の判定と、献立の材料と在庫の突き合わせを行う
+ */
+
+import type { MenuRecord, PantryItem } from '../types';
+import { fromDateKey, toDateKey } from './mealPlan';
+import { formatIngredient } from './servings';
+import { isSameIngredient, normalizeIngredientName } from './recipeMatcher';
+import { normalizeAmount } from './shoppingList';
+
+/**
+ * 期限が近いとみなす日数（この日数以内に期限を迎える食材を優先して使う）
+ */
+export const EXPIRING_SOON_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 期限までの日数（期限が未設定の場合はnull、期限切れは負の数）
+ */
+export function getDaysUntilExpiry(item: PantryItem, today: Date = new Date()): number | null {
+  if (!item.expiresAt) {
+    return null;
+  }
+  const start = fromDateKey(toDateKey(today));
+  return Math.round((fromDateKey(item.expiresAt).getTime() - start.getTime()) / DAY_MS);
+}
+
+/**
+ * 期限が近い（または期限切れの）食材か
+ */
+export function isExpiringSoon(item: PantryItem, today: Date = new Date()): boolean {
+  const days = getDaysUntilExpiry(item, today);
+  return days !== null && days <= EXPIRING_SOON_DAYS;
+}
+
+/**
+ * 期限の表示（「期限切れ」「今日まで」「あと2日」）
+ */
+export function describeExpiry(item: PantryItem, today: Date = new Date()): string {
+  const days = getDaysUntilExpiry(item, today);
+  if (days === null) {
+    return '';
+  }
+  if (days < 0) {
+    return '期限切れ';
+  }
+  return days === 0 ? '今日まで' : `あと${days}日`;
+}
+
+/**
+ * 在庫の数量の表示（「300g」「2個」）
+ */
+export function formatPantryQuantity(item: PantryItem): string {
+  return formatIngredient({ name: '', quantity: item.quantity, unit: item.unit, note: null }).trim();
+}
+
+/**
+ * 在庫を期限の近い順に並べる（期限のない食材は後ろに名前順）
+ */
+export function sortPantryItems(items: PantryItem[]): PantryItem[] {
+  return [...items].sort((a, b) => {
+    if (a.expiresAt !== b.expiresAt) {
+      if (!a.expiresAt) return 1;
+      if (!b.expiresAt) return -1;
+      return a.expiresAt.localeCompare(b.expiresAt);
+    }
+    return a.name.localeCompare(b.name, 'ja');
+  });
+}
+
+/**
+ * 食材名に対応する在庫を検索
+ * 表記揺れや部位の違いを吸収して照合し、名前が完全に一致する在庫を優先する
+ */
+export function findPantryItem(name: string, items: PantryItem[]): PantryItem | undefined {
+  const key = normalizeIngredientName(name);
+  if (!key) {
+    return undefined;
+  }
+  return items.find(item => normalizeIngredientName(item.name) === key)
+    ?? items.find(item => isSameIngredient(item.name, name));
+}
+
+/**
+ * 指定した食材のうち、在庫の期限が近いもの
+ */
+export function getExpiringIngredients(ingredients: string[], items: PantryItem[], today: Date = new Date()): string[] {
+  return ingredients.filter(ingredient => {
+    const item = findPantryItem(ingredient, items);
+    return item !== undefined && isExpiringSoon(item, today);
+  });
+}
+
+/**
+ * 分量を在庫の単位に換算（換算できない場合はnull）
+ */
+function convertQuantity(quantity: number | null, fromUnit: string | null, toUnit: string | null): number | null {
+  const amount = normalizeAmount(quantity, fromUnit);
+  const base = normalizeAmount(1, toUnit);
+  if (amount.quantity === null || base.quantity === null || amount.unit !== base.unit) {
+    return null;
+  }
+  return Math.round((amount.quantity / base.quantity) * 100) / 100;
+}
+
+/**
+ * 献立を作ったときに在庫から差し引く候補
+ * 分量を在庫の単位に換算できない材料・数えない在庫は、数量をnull（選択した場合のみ使い切りとして削除）とする
+ */
+export function suggestPantryDeductions(
+  menu: MenuRecord,
+  items: PantryItem[]
+): { item: PantryItem; ingredient: string; quantity: number | null }[] {
+  const suggestions: { item: PantryItem; ingredient: string; quantity: number | null }[] = [];
+  for (const ingredient of menu.parsedIngredients) {
+    const available = items.filter(item => !suggestions.some(suggestion => suggestion.item.id === item.id));
+    const item = findPantryItem(ingredient.name, available);
+    if (!item) {
+      continue;
+    }
+    suggestions.push({
+      item,
+      ingredient: formatIngredient(ingredient),
+      quantity: item.quantity === null ? null : convertQuantity(ingredient.quantity, ingredient.unit, item.unit)
+    });
+  }
+  return suggestions;
+}
@@ -0,0 +1,127 @@
+/**
+ * プロンプトテンプレートユーティリティ
+ * {{変数名}} 形式のプレースホルダーを入力データで置き換えてプロンプトを作成する
+ */
+
+import type { MenuFormData, PromptTemplate } from '../types';
+import { createHouseholdMember, describeHousehold } from './household';
+
+// テンプレートで使用できる変数
+export interface PromptVariables {
+  ingredients: string;     // 食材の箇条書き（期限が近い食材を先頭に注記付きで並べる）
+  themes: string;          // テーマの箇条書き
+  peoplePattern: string;   // 人数構成（家族構成プロファイルの場合はメンバーと条件に展開）
+  count: string;           // 提案する献立の数
+}
+
+/**
+ * 変数の一覧（設定画面での説明表示用）
+ */
+export const PROMPT_VARIABLES: { name: keyof PromptVariables; description: string }[] = [
+  { name: 'ingredients', description: '食材（「* 食材」の箇条書き。期限が近い食材は先頭に優先する旨を添えて並べる）' },
+  { name: 'themes', description: 'テーマ（「* テーマ」の箇条書き）' },
+  { name: 'peoplePattern', description: '人数構成（家族構成のメンバー・アレルギー・苦手な食材などの条件を含む）' },
+  { name: 'count', description: '提案する献立の数' }
+];
+
+/**
+ * 既定のテンプレートID（削除できない）
+ */
+export const DEFAULT_PROMPT_TEMPLATE_ID = 'default';
+
+/**
+ * 既定のシステムプロンプト
+ */
+export const DEFAULT_SYSTEM_PROMPT = 'あなたは料理の専門家です。ユーザーの要求に応じて、実用的で美味しい献立を提案してください。';
+
+/**
+ * 既定のユーザープロンプト（アプリ仕様.mdのプロンプトテンプレートに準拠）
+ * 応答形式の指定はaiServiceがプロバイダーに応じて構造化出力またはプロンプトで行う
+ */
+export const DEFAULT_USER_PROMPT = `あなたは料理研究家です。以下に提示する食材とテーマと条件に合った、短時間でできる献立を{{count}}つ考えてください。それぞれの献立には、献立のタイトルと見出し文、献立の詳細な説明、材料とその分量、所要時間、料理手順を説明してください。また、献立のタイトルと見出し分には、それを見ただけでどのような味付けなのかがわかるようにしてください。
+
+# 食材
+{{ingredients}}
+
+# テーマ
+{{themes}}
+
+# 人数構成
+* {{peoplePattern}}`;
+
+/**
+ * 既定のテンプレート
+ */
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  id: DEFAULT_PROMPT_TEMPLATE_ID,
+  name: '標準',
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+  userPrompt: DEFAULT_USER_PROMPT,
+  version: 1,
+  updatedAt: '1970-01-01T00:00:00.000Z'
+};
+
+/**
+ * プレビュー用のサンプル入力
+ */
+export const SAMPLE_FORM_DATA: MenuFormData = {
+  ingredients: ['鶏もも肉', 'キャベツ', '卵'],
+  theme: ['夏', 'あっさり'],
+  peoplePattern: '夫婦＋小学生',
+  household: {
+    id: 'sample',
+    name: '夫婦＋小学生',
+    members: [
+      createHouseholdMember({ id: 'sample-1', name: '父', appetite: 'hearty' }),
+      createHouseholdMember({ id: 'sample-2', name: '母', dislikes: ['セロリ'] }),
+      createHouseholdMember({ id: 'sample-3', name: '長男', ageGroup: 'child', allergies: ['えび'] })
+    ],
+    updatedAt: '1970-01-01T00:00:00.000Z'
+  }
+};
+
+/**
+ * 食材の箇条書き
+ * 期限が近い食材は優先して使ってもらえるよう先頭に並べて注記する
+ */
+function formatIngredientList(ingredients: string[], expiringIngredients: string[] = []): string {
+  const expiring = ingredients.filter(ingredient => expiringIngredients.includes(ingredient));
+  const others = ingredients.filter(ingredient => !expiringIngredients.includes(ingredient));
+  return [
+    ...expiring.map(ingredient => `* ${ingredient}（期限が近いため優先して使い切る）`),
+    ...others.map(ingredient => `* ${ingredient}`)
+  ].join('\n');
+}
+
+/**
+ * フォームの入力データからテンプレート変数を作成
+ */
+export function buildPromptVariables(formData: MenuFormData, count: number): PromptVariables {
+  return {
+    ingredients: formatIngredientList(formData.ingredients, formData.expiringIngredients),
+    themes: formData.theme.map(theme => `* ${theme}`).join('\n'),
+    peoplePattern: formData.household ? describeHousehold(formData.household) : formData.peoplePattern,
+    count: String(count)
+  };
+}
+
+/**
+ * テンプレートの {{変数名}} を置き換える
+ * 未定義の変数はそのまま残す
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name)
+      ? variables[name as keyof PromptVariables]
+      : placeholder
+  );
+}
+
+/**
+ * テンプレート中の未定義の変数名を取得（設定画面での警告用）
+ */
+export function findUnknownVariables(template: string): string[] {
+  const known = new Set<string>(PROMPT_VARIABLES.map(variable => variable.name));
+  const names = Array.from(template.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]);
+  return Array.from(new Set(names.filter(name => !known.has(name))));
+}
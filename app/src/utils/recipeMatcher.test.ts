@@ -0,0 +1,88 @@
+/**
+ * 保存済みの献立の照合のテスト
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { MenuRecord } from '../types';
+import { parseIngredients } from './ingredientParser';
+import { isSameIngredient, matchRecipe, normalizeIngredientName, sortRecipeMatches } from './recipeMatcher';
+
+/**
+ * 材料文字列からテスト用の献立を作成
+ */
+function createMenu(title: string, ingredients: string[], createdAt = '2025-01-01T10:00:00.000Z'): MenuRecord {
+  return {
+    id: title,
+    title,
+    description: '',
+    detail: '',
+    ingredients,
+    steps: [],
+    time: '15分',
+    theme: [],
+    peoplePattern: '夫婦2人',
+    createdAt,
+    inputIngredients: [],
+    parsedIngredients: parseIngredients(ingredients),
+    servings: 2
+  };
+}
+
+describe('normalizeIngredientName', () => {
+  it.each([
+    ['豚こま切れ肉', '豚肉'],
+    ['鶏もも肉', '鶏肉'],
+    ['鶏ひき肉', '鶏肉'],
+    ['チキン', '鶏肉'],
+    ['鶏卵', '卵'],
+    ['溶き卵', '卵'],
+    ['牛乳', '牛乳'],
+    ['鶏がら', '鶏がら'],
+    ['長ねぎ（白い部分）', 'ねぎ'],
+    ['新玉ねぎ', '玉ねぎ']
+  ])('「%s」を「%s」として照合する（最も長く一致した表記のまとまりを優先）', (name, expected) => {
+    expect(normalizeIngredientName(name)).toBe(expected);
+  });
+});
+
+describe('isSameIngredient', () => {
+  it.each([
+    ['鶏卵', 'たまご', true],
+    ['鶏卵', '鶏むね肉', false],
+    ['ささみ', '鶏もも肉', true],
+    ['長ねぎ', '玉ねぎ', false],
+    ['冷凍ブロッコリー', 'ブロッコリー', true],
+    ['塩', '塩こしょう', false]
+  ])('「%s」と「%s」→ %s', (a, b, expected) => {
+    expect(isSameIngredient(a, b)).toBe(expected);
+  });
+});
+
+describe('matchRecipe', () => {
+  it('調味料と水を除いた材料で、手持ちの食材が賄える割合を求める', () => {
+    const menu = createMenu('親子丼', ['鶏もも肉 1枚', '鶏卵 3個', '玉ねぎ 1/2個', 'しょうゆ 大さじ2', '水 100ml']);
+
+    expect(matchRecipe(menu, ['卵', 'チキン'])).toEqual({
+      menu,
+      matched: ['鶏もも肉', '鶏卵'],
+      missing: ['玉ねぎ'],
+      coverage: 2 / 3
+    });
+    expect(matchRecipe(menu, ['卵'], { includeSeasonings: true })?.missing).toEqual(['鶏もも肉', '玉ねぎ', 'しょうゆ']);
+    expect(matchRecipe(menu, ['キャベツ'])).toBeNull();
+  });
+});
+
+describe('sortRecipeMatches', () => {
+  it('賄える割合、足りない材料の少なさ、新しさの順に並べる', () => {
+    const menus = [
+      createMenu('卵焼き', ['卵 3個', '砂糖 大さじ1'], '2025-01-01T10:00:00.000Z'),
+      createMenu('目玉焼き', ['卵 2個'], '2025-01-02T10:00:00.000Z'),
+      createMenu('親子丼', ['鶏もも肉 1枚', '卵 3個'], '2025-01-03T10:00:00.000Z'),
+      createMenu('ゆで卵', ['卵 2個'], '2025-01-04T10:00:00.000Z')
+    ];
+    const matches = menus.map(menu => matchRecipe(menu, ['卵'])).filter(match => match !== null);
+
+    expect(sortRecipeMatches(matches).map(match => match.menu.title)).toEqual(['ゆで卵', '目玉焼き', '卵焼き', '親子丼']);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * 保存済みの献立の照合ユーティリティ
+ * 手持ちの食材で作れる献立を、材料をどれだけ賄えるかで並べる（APIを使わずに端末内で完結する）
+ */
+
+import type { MenuRecord, RecipeMatch } from '../types';
+import { normalizeFoodText } from './allergenChecker';
+import { classifySection, getIngredientKey, isExcludedIngredient } from './shoppingList';
+
+/**
+ * 部位や切り方が違っても同じ食材として扱う表記のまとまり
+ * prefixesで始まる材料名をnameにまとめ、excludesを含む材料名（「牛乳」など）は除く
+ */
+interface IngredientFamily {
+  name: string;
+  prefixes: string[];
+  excludes?: string[];
+}
+
+const INGREDIENT_FAMILIES: IngredientFamily[] = [
+  { name: '豚肉', prefixes: ['豚', 'ポーク'] },
+  {
+    name: '鶏肉',
+    prefixes: ['鶏', 'とり肉', 'とりもも', 'とりむね', 'ささみ', '手羽', 'チキン'],
+    excludes: ['鶏がら', 'とりがら', 'チキンコンソメ', 'チキンスープ']
+  },
+  { name: '牛肉', prefixes: ['牛', 'ビーフ'], excludes: ['牛乳', '牛脂', 'ビーフコンソメ'] },
+  { name: 'ひき肉', prefixes: ['ひき肉', '挽き肉', '挽肉', '合いびき', '合挽', 'あいびき', 'ミンチ'] },
+  { name: '鮭', prefixes: ['鮭', 'さけ', '塩鮭', '生鮭', '銀鮭', 'サーモン'] },
+  { name: 'えび', prefixes: ['えび', '海老', 'むきえび', '芝えび', 'ブラックタイガー'] },
+  { name: '卵', prefixes: ['卵', 'たまご', '玉子', '溶き卵', 'ゆで卵', '鶏卵'] },
+  { name: 'ねぎ', prefixes: ['ねぎ', '長ねぎ', '白ねぎ', '青ねぎ', '小ねぎ', '万能ねぎ', '九条ねぎ', '葱'] },
+  { name: '玉ねぎ', prefixes: ['玉ねぎ', 'たまねぎ', '玉葱', '新玉ねぎ', '新たまねぎ', '紫玉ねぎ'] },
+  { name: 'キャベツ', prefixes: ['キャベツ', '春キャベツ'] }
+];
+
+// 部分一致で同じ食材とみなす最小の文字数（「塩」と「塩鮭」のような誤判定を避ける）
+const MIN_PARTIAL_MATCH_LENGTH = 2;
+
+/**
+ * 材料名が属する表記のまとまり
+ * 最も長く一致した接頭辞のまとまりとする（「鶏卵」は「鶏」ではなく「鶏卵」で卵にまとめる）
+ */
+function findFamily(key: string): IngredientFamily | undefined {
+  let best: { family?: IngredientFamily; length: number } = { length: 0 };
+
+  for (const family of INGREDIENT_FAMILIES) {
+    if ((family.excludes ?? []).some(exclude => key.includes(normalizeFoodText(exclude)))) {
+      continue;
+    }
+    for (const prefix of family.prefixes) {
+      const normalized = normalizeFoodText(prefix);
+      if (key.startsWith(normalized) && normalized.length > best.length) {
+        best = { family, length: normalized.length };
+      }
+    }
+  }
+  return best.family;
+}
+
+/**
+ * 照合用の材料名（表記揺れと部位・切り方の違いを吸収した名前）
+ * 例: 「豚こま切れ肉」「豚バラ肉」→「豚肉」
+ */
+export function normalizeIngredientName(name: string): string {
+  const key = getIngredientKey(name.replace(/[（(].*?[）)]/g, ''));
+  const family = findFamily(key);
+  return family ? normalizeFoodText(family.name) : key;
+}
+
+/**
+ * 同じ食材か
+ * 照合用の名前が一致するか、一方が他方を含む場合（ブロッコリーと冷凍ブロッコリーなど）に同じとみなす
+ * 表記のまとまりに属する材料は、「ねぎ」と「玉ねぎ」を区別するため部分一致では照合しない
+ */
+export function isSameIngredient(a: string, b: string): boolean {
+  const keyA = normalizeIngredientName(a);
+  const keyB = normalizeIngredientName(b);
+  if (!keyA || !keyB) {
+    return false;
+  }
+  if (keyA === keyB) {
+    return true;
+  }
+  if (findFamily(keyA) || findFamily(keyB)) {
+    return false;
+  }
+  const [shorter, longer] = keyA.length <= keyB.length ? [keyA, keyB] : [keyB, keyA];
+  return shorter.length >= MIN_PARTIAL_MATCH_LENGTH && longer.includes(shorter);
+}
+
+/**
+ * 照合の対象とする献立の材料名（重複なし）
+ * 水などの買わない材料と、調味料（includeSeasoningsがfalseの場合）は家にあるものとして除く
+ */
+function getRecipeIngredientNames(menu: MenuRecord, includeSeasonings: boolean): string[] {
+  const names: string[] = [];
+  for (const ingredient of menu.parsedIngredients) {
+    const name = ingredient.name.trim();
+    if (!name || isExcludedIngredient(name)) {
+      continue;
+    }
+    if (!includeSeasonings && classifySection(name) === 'seasoning') {
+      continue;
+    }
+    if (!names.some(existing => normalizeIngredientName(existing) === normalizeIngredientName(name))) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+/**
+ * 手持ちの食材で献立の材料をどれだけ賄えるかを照合
+ * 材料を1つも賄えない場合はnull
+ */
+export function matchRecipe(
+  menu: MenuRecord,
+  available: string[],
+  options: { includeSeasonings?: boolean } = {}
+): RecipeMatch | null {
+  const availableNames = available.map(name => name.trim()).filter(Boolean);
+  const names = getRecipeIngredientNames(menu, options.includeSeasonings ?? false);
+  const matched = names.filter(name => availableNames.some(availableName => isSameIngredient(name, availableName)));
+  if (matched.length === 0) {
+    return null;
+  }
+  return {
+    menu,
+    matched,
+    missing: names.filter(name => !matched.includes(name)),
+    coverage: matched.length / names.length
+  };
+}
+
+/**
+ * 照合結果を賄える割合の高い順（同じ場合は足りない材料の少ない順、採用済み、新しい順）に並べる
+ */
+export function sortRecipeMatches(matches: RecipeMatch[]): RecipeMatch[] {
+  return [...matches].sort((a, b) =>
+    b.coverage - a.coverage
+    || a.missing.length - b.missing.length
+    || Number(b.menu.isAdopted === true) - Number(a.menu.isAdopted === true)
+    || b.menu.createdAt.localeCompare(a.menu.createdAt)
+  );
+}
@@ -0,0 +1,33 @@
+/**
+ * 人数分の分量換算のテスト
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseIngredient } from './ingredientParser';
+import { formatIngredient, scaleIngredient } from './servings';
+
+/**
+ * 材料文字列を倍率で換算して表示用の文字列に戻す
+ */
+function scale(text: string, factor: number): string {
+  return formatIngredient(scaleIngredient(parseIngredient(text), factor));
+}
+
+describe('scaleIngredient', () => {
+  it('数量を単位に応じた刻みに丸めて換算する', () => {
+    expect(scale('鶏もも肉 300g', 1.5)).toBe('鶏もも肉 450g');
+    expect(scale('醤油 大さじ2', 0.5)).toBe('醤油 大さじ1');
+    expect(scale('鮭 2〜3切れ', 2)).toBe('鮭 4〜6切れ');
+    expect(scale('塩 少々', 2)).toBe('塩 少々');
+  });
+
+  it('補足の重さ・容量も合わせて換算する', () => {
+    expect(scale('豆腐 1丁（300g）', 1.5)).toBe('豆腐 1と1/2丁（450g）');
+    expect(scale('鶏肉 1枚（250〜300g）', 2)).toBe('鶏肉 2枚（500〜600g）');
+    expect(scale('牛乳 1カップ（200ml）', 0.5)).toBe('牛乳 1/2カップ（100ml）');
+  });
+
+  it('補足の重さ・容量以外の数値はそのまま残す', () => {
+    expect(scale('長ねぎ 1本（10cm程度）', 2)).toBe('長ねぎ 2本（10cm程度）');
+  });
+});
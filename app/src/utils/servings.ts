@@ -0,0 +1,129 @@
+/**
+ * 人数分の分量換算ユーティリティ
+ * 解析済みの材料の数量を人数に合わせて換算し、単位ごとに扱いやすい値へ丸める
+ */
+
+import type { ParsedIngredient } from '../types';
+
+/**
+ * 人数を読み取れない人数構成の場合の人数
+ */
+export const DEFAULT_SERVINGS = 2;
+
+/**
+ * 人数の選択範囲
+ */
+export const MIN_SERVINGS = 1;
+export const MAX_SERVINGS = 10;
+
+// 単位ごとの丸め幅（一覧にない単位は0.1刻み）
+const SPOON_UNITS = ['大さじ', '小さじ'];
+const QUARTER_UNITS = ['カップ', '合'];
+const WEIGHT_UNITS = ['g', 'ml', 'cc'];
+
+// 補足の中の重さ・容量（「1丁（300g）」の300g、「200〜250ml」のような範囲も含む）
+const NOTE_AMOUNT_PATTERN = /(\d+(?:\.\d+)?)(?:\s*([〜~\-–])\s*(\d+(?:\.\d+)?))?\s*(kg|mg|ml|cc|g|l)(?![a-z])/gi;
+
+/**
+ * 人数構成から人数を読み取る（「夫婦2人」→2、「夫婦＋中高生3人」→3）
+ * 末尾の「N人」を合計人数とみなす
+ */
+export function estimateServings(peoplePattern: string): number {
+  const match = peoplePattern.normalize('NFKC').match(/(\d+)\s*人/g);
+  const last = match ? parseInt(match[match.length - 1], 10) : NaN;
+  return Number.isInteger(last) && last > 0 ? last : DEFAULT_SERVINGS;
+}
+
+/**
+ * 単位に応じた丸めの刻み
+ * 大さじ・小さじは1/2刻み（1未満は1/4刻み）、カップ・合は1/4刻み、
+ * グラム・ミリリットルは5刻み（100以上は10刻み）、個数は1/2刻み（1未満は1/4刻み、3以上は整数）
+ */
+function getRoundingStep(value: number, unit: string | null): number {
+  if (unit && SPOON_UNITS.includes(unit)) {
+    return value < 1 ? 0.25 : 0.5;
+  }
+  if (unit && QUARTER_UNITS.includes(unit)) {
+    return 0.25;
+  }
+  if (unit && WEIGHT_UNITS.includes(unit)) {
+    return value >= 100 ? 10 : 5;
+  }
+  if (unit === 'kg' || unit === 'l') {
+    return 0.1;
+  }
+  // 個・片・枚など数えられる単位と、単位なしの数量
+  if (value < 1) {
+    return 0.25;
+  }
+  return value >= 3 ? 1 : 0.5;
+}
+
+/**
+ * 単位に応じた刻みに丸める（少量でも0にはしない）
+ */
+export function roundQuantity(value: number, unit: string | null): number {
+  const step = getRoundingStep(value, unit);
+  const rounded = Math.max(step, Math.round(value / step) * step);
+  return Math.round(rounded * 100) / 100;
+}
+
+/**
+ * 補足の中の重さ・容量を倍率で換算（個数や長さなどはそのまま）
+ */
+function scaleNote(note: string, factor: number): string {
+  return note.replace(NOTE_AMOUNT_PATTERN, (_match, value: string, separator?: string, max?: string, unit = '') => {
+    const scale = (text: string) => String(roundQuantity(Number(text) * factor, unit.toLowerCase()));
+    return `${scale(value)}${max ? `${separator}${scale(max)}` : ''}${unit}`;
+  });
+}
+
+/**
+ * 解析済みの材料を倍率で換算
+ * 適量・少々など数量のない材料はそのまま返す（補足の重さ・容量も合わせて換算する）
+ */
+export function scaleIngredient(ingredient: ParsedIngredient, factor: number): ParsedIngredient {
+  if (ingredient.quantity === null || factor === 1) {
+    return ingredient;
+  }
+  return {
+    ...ingredient,
+    quantity: roundQuantity(ingredient.quantity * factor, ingredient.unit),
+    note: ingredient.note && scaleNote(ingredient.note, factor),
+    ...(ingredient.quantityMax !== undefined && {
+      quantityMax: roundQuantity(ingredient.quantityMax * factor, ingredient.unit)
+    })
+  };
+}
+
+/**
+ * 数量を表示用に整形（0.5→「1/2」、1.5→「1と1/2」）
+ */
+export function formatQuantity(value: number): string {
+  const whole = Math.floor(value);
+  const fraction = Math.round((value - whole) * 100) / 100;
+  const fractions: Record<number, string> = { 0.25: '1/4', 0.5: '1/2', 0.75: '3/4' };
+
+  if (fraction === 0) {
+    return String(whole);
+  }
+  if (fractions[fraction]) {
+    return whole > 0 ? `${whole}と${fractions[fraction]}` : fractions[fraction];
+  }
+  return String(Math.round(value * 10) / 10);
+}
+
+/**
+ * 解析済みの材料を「名前 分量（補足）」の文字列に戻す
+ */
+export function formatIngredient(ingredient: ParsedIngredient): string {
+  const { name, quantity, quantityMax, unit, note } = ingredient;
+  let amount = unit ?? '';
+  if (quantity !== null) {
+    const range = quantityMax !== undefined
+      ? `${formatQuantity(quantity)}〜${formatQuantity(quantityMax)}`
+      : formatQuantity(quantity);
+    amount = unit && SPOON_UNITS.includes(unit) ? `${unit}${range}` : `${range}${unit ?? ''}`;
+  }
+  return `${name}${amount ? ` ${amount}` : ''}${note ? `（${note}）` : ''}`;
+}
@@ -0,0 +1,98 @@
+/**
+ * 買い物リストのテスト
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { MenuRecord } from '../types';
+import { parseIngredients } from './ingredientParser';
+import { aggregateIngredients, classifySection, formatAmounts, mergeAmounts } from './shoppingList';
+
+/**
+ * 材料文字列からテスト用の献立を作成
+ */
+function createMenu(title: string, ingredients: string[]): MenuRecord {
+  return {
+    id: title,
+    title,
+    description: '',
+    detail: '',
+    ingredients,
+    steps: [],
+    time: '15分',
+    theme: [],
+    peoplePattern: '夫婦2人',
+    createdAt: '2025-01-01T10:00:00.000Z',
+    inputIngredients: [],
+    parsedIngredients: parseIngredients(ingredients),
+    servings: 2
+  };
+}
+
+describe('mergeAmounts', () => {
+  it.each([
+    ['大さじ1が2つ', [{ quantity: 1, unit: '大さじ' }, { quantity: 1, unit: '大さじ' }], [{ quantity: 2, unit: '大さじ' }]],
+    ['200gと300g', [{ quantity: 200, unit: 'g' }, { quantity: 300, unit: 'g' }], [{ quantity: 500, unit: 'g' }]],
+    ['大さじ1と小さじ1', [{ quantity: 1, unit: '大さじ' }, { quantity: 1, unit: '小さじ' }], [{ quantity: 4, unit: '小さじ' }]],
+    ['800gと0.5kg', [{ quantity: 800, unit: 'g' }, { quantity: 0.5, unit: 'kg' }], [{ quantity: 1.3, unit: 'kg' }]],
+    ['200mlと1カップ', [{ quantity: 200, unit: 'ml' }, { quantity: 1, unit: 'カップ' }], [{ quantity: 200, unit: 'ml' }, { quantity: 1, unit: 'カップ' }]],
+    ['1つと2個', [{ quantity: 1, unit: 'つ' }, { quantity: 2, unit: '個' }], [{ quantity: 3, unit: '個' }]]
+  ])('%sを合算する', (_label, amounts, expected) => {
+    expect(mergeAmounts(amounts)).toEqual(expected);
+  });
+
+  it('適量と数量のある分量は別々に残し、適量は1つにまとめる', () => {
+    const merged = mergeAmounts([
+      { quantity: null, unit: '適量' },
+      { quantity: 1, unit: '小さじ' },
+      { quantity: null, unit: '適量' },
+      { quantity: 1, unit: '小さじ' }
+    ]);
+    expect(merged).toEqual([{ quantity: null, unit: '適量' }, { quantity: 2, unit: '小さじ' }]);
+    expect(formatAmounts(merged)).toBe('適量 ＋ 小さじ2');
+  });
+});
+
+describe('aggregateIngredients', () => {
+  const items = aggregateIngredients([
+    createMenu('肉じゃが', ['牛こま切れ肉 200g', 'じゃがいも 3個', 'しょうゆ 大さじ1', '水 200ml']),
+    createMenu('豚の生姜焼き', ['豚ロース肉 300g', '醤油 小さじ1', '生姜 1かけ', 'お湯 大さじ2']),
+    createMenu('生姜スープ', ['しょうが 1片', '塩 少々', 'ｼｮｳﾕ 少々'])
+  ]);
+  const find = (name: string) => items.find(item => item.name === name);
+
+  it('表記の異なる同じ材料を最初の表記でまとめ、使う献立を残す', () => {
+    expect(find('しょうゆ')).toMatchObject({
+      section: 'seasoning',
+      amounts: [{ quantity: 4, unit: '小さじ' }, { quantity: null, unit: '少々' }],
+      menuTitles: ['肉じゃが', '豚の生姜焼き', '生姜スープ']
+    });
+    expect(find('醤油')).toBeUndefined();
+    expect(find('生姜')?.amounts).toEqual([{ quantity: 1, unit: 'かけ' }, { quantity: 1, unit: '片' }]);
+  });
+
+  it('水・お湯は買い物リストに含めない', () => {
+    expect(items.map(item => item.name)).not.toContain('水');
+    expect(items.map(item => item.name)).not.toContain('お湯');
+  });
+
+  it('売り場の並び順で並べる', () => {
+    expect(items.map(item => item.section)).toEqual(['vegetable', 'vegetable', 'meat', 'meat', 'seasoning', 'seasoning']);
+  });
+});
+
+describe('classifySection', () => {
+  it.each([
+    ['豚こま切れ肉', 'meat'],
+    ['玉ねぎ', 'vegetable'],
+    ['生鮭', 'fish'],
+    ['卵', 'dairy'],
+    ['木綿豆腐', 'soy'],
+    ['スパゲッティ', 'staple'],
+    ['トマト缶', 'pantry'],
+    ['鶏がらスープの素', 'seasoning'],
+    ['パン粉', 'seasoning'],
+    ['謎の食材', 'other']
+  ])('「%s」を%sに分類する（最も長く一致したキーワードを優先）', (name, section) => {
+    expect(classifySection(name)).toBe(section);
+  });
+});
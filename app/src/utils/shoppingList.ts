@@ -0,0 +1,229 @@
+/**
+ * 買い物リストのユーティリティ
+ * 複数の献立の材料を単位を揃えて合算し、売り場ごとに分類する
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { MenuRecord, ShoppingAmount, ShoppingList, ShoppingListItem, StoreSection } from '../types';
+import { STORE_SECTION_OPTIONS } from '../types';
+import { normalizeFoodText } from './allergenChecker';
+import { formatIngredient } from './servings';
+
+// 売り場を判定するキーワード（最も長く一致したキーワードの売り場に分類する）
+const SECTION_KEYWORDS: Record<StoreSection, string[]> = {
+  vegetable: [
+    '野菜', 'ねぎ', '玉ねぎ', 'にんじん', '人参', 'じゃがいも', 'さつまいも', '里芋', '長芋', '山芋', '芋', 'キャベツ', '白菜',
+    '大根', 'トマト', 'きゅうり', 'なす', 'ピーマン', 'パプリカ', 'ほうれん草', '小松菜', '水菜', 'もやし', 'ブロッコリー',
+    'レタス', 'しめじ', 'えのき', 'しいたけ', '椎茸', '舞茸', 'まいたけ', 'エリンギ', 'きのこ', 'ごぼう', 'れんこん', 'かぼちゃ',
+    'アスパラ', 'オクラ', 'にら', 'ニラ', 'しょうが', '生姜', 'にんにく', '大葉', '青じそ', '三つ葉', 'パセリ', 'バジル',
+    'セロリ', '豆苗', 'ズッキーニ', 'コーン', '枝豆', 'かいわれ', '貝割れ', 'みょうが', '菜の花', 'レモン', 'りんご', 'バナナ'
+  ],
+  meat: ['肉', '鶏', '豚', '牛', 'ささみ', '手羽', 'レバー', 'ひき肉', 'ベーコン', 'ハム', 'ソーセージ', 'ウインナー'],
+  fish: [
+    '魚', '鮭', 'さけ', 'サーモン', '塩鮭', 'さば', '鯖', 'あじ', 'いわし', 'ぶり', 'たら', 'まぐろ', 'かつお', '刺身', 'えび',
+    '海老', 'いか', 'たこ', 'あさり', 'しじみ', 'ほたて', '貝', 'しらす', 'ちくわ', 'かまぼこ', 'はんぺん', 'ツナ'
+  ],
+  dairy: ['卵', 'たまご', '玉子', '牛乳', 'バター', 'チーズ', 'ヨーグルト', '生クリーム'],
+  soy: ['豆腐', '納豆', '油揚げ', '厚揚げ', '豆乳', 'がんもどき', 'こんにゃく', 'しらたき'],
+  staple: ['米', 'ごはん', 'ご飯', 'うどん', 'そば', 'パスタ', 'スパゲッティ', 'マカロニ', '中華麺', 'ラーメン', 'パン', '餅', 'ピザ生地', '餃子の皮', '春巻きの皮'],
+  seasoning: [
+    '醤油', 'しょうゆ', '塩', '砂糖', 'みりん', '酒', '酢', '味噌', 'みそ', '油', 'オイル', 'こしょう', '胡椒', 'ソース',
+    'ケチャップ', 'マヨネーズ', 'だし', '顆粒', 'コンソメ', '鶏がら', 'スープの素', '片栗粉', '小麦粉', '薄力粉', '強力粉',
+    'パン粉', '豆板醤', 'オイスターソース', 'めんつゆ', 'ポン酢', 'カレー粉', 'ルウ', '七味', '一味', 'ラー油', '練りからし',
+    'わさび', '白ごま', '黒ごま', 'ごま', 'はちみつ', '蜂蜜', 'バルサミコ', '米酢'
+  ],
+  pantry: ['缶', 'トマト缶', 'ツナ缶', '乾燥', 'わかめ', 'ひじき', '昆布', 'かつお節', '海苔', 'のり', '春雨', '切り干し', '干し', 'ナッツ'],
+  other: []
+};
+
+// 買う必要がない材料
+const EXCLUDED_NAMES = ['水', 'お湯', '湯', '氷', '水溶き片栗粉'];
+
+// 同じ材料として合算する表記（先頭の表記にまとめる）
+const NAME_ALIASES: string[][] = [
+  ['醤油', 'しょうゆ', '濃口醤油'],
+  ['玉ねぎ', 'たまねぎ', '玉葱'],
+  ['にんじん', '人参'],
+  ['しょうが', '生姜'],
+  ['しいたけ', '椎茸'],
+  ['卵', 'たまご', '玉子'],
+  ['砂糖', 'さとう'],
+  ['味噌', 'みそ'],
+  ['こしょう', '胡椒'],
+  ['ごはん', 'ご飯']
+];
+
+// 単位の換算（まとめる単位と倍率）
+const UNIT_CONVERSIONS: Record<string, { unit: string; factor: number }> = {
+  kg: { unit: 'g', factor: 1000 },
+  mg: { unit: 'g', factor: 0.001 },
+  l: { unit: 'ml', factor: 1000 },
+  cc: { unit: 'ml', factor: 1 },
+  大さじ: { unit: '小さじ', factor: 3 },
+  つ: { unit: '個', factor: 1 }
+};
+
+/**
+ * 材料名から売り場を判定
+ * 最も長く一致したキーワードの売り場とし、同じ長さの場合は売り場の並び順で先のものとする
+ */
+export function classifySection(name: string): StoreSection {
+  const normalized = normalizeFoodText(name);
+  let best: { section: StoreSection; length: number } = { section: 'other', length: 0 };
+
+  for (const { value: section } of STORE_SECTION_OPTIONS) {
+    for (const keyword of SECTION_KEYWORDS[section]) {
+      const key = normalizeFoodText(keyword);
+      if (normalized.includes(key) && key.length > best.length) {
+        best = { section, length: key.length };
+      }
+    }
+  }
+  return best.section;
+}
+
+/**
+ * 買う必要がない材料か（水・お湯など）
+ */
+export function isExcludedIngredient(name: string): boolean {
+  return EXCLUDED_NAMES.includes(name.trim());
+}
+
+/**
+ * 合算のキーとなる材料名（表記揺れを吸収した名前）
+ */
+export function getIngredientKey(name: string): string {
+  const normalized = normalizeFoodText(name);
+  const aliases = NAME_ALIASES.find(group => group.some(alias => normalizeFoodText(alias) === normalized));
+  return aliases ? normalizeFoodText(aliases[0]) : normalized;
+}
+
+/**
+ * 分量を合算用の単位に揃える（1kg→1000g、大さじ1→小さじ3）
+ */
+export function normalizeAmount(quantity: number | null, unit: string | null): ShoppingAmount {
+  const conversion = unit ? UNIT_CONVERSIONS[unit] : undefined;
+  if (quantity === null || !conversion) {
+    return { quantity, unit };
+  }
+  return { quantity: quantity * conversion.factor, unit: conversion.unit };
+}
+
+/**
+ * 合算した分量を表示向けの単位に戻す（小さじ6→大さじ2、1500g→1.5kg）
+ */
+function denormalizeAmount(amount: ShoppingAmount): ShoppingAmount {
+  const { quantity, unit } = amount;
+  if (quantity === null) {
+    return amount;
+  }
+  if (unit === '小さじ' && quantity >= 3 && quantity % 1.5 === 0) {
+    return { quantity: quantity / 3, unit: '大さじ' };
+  }
+  if (unit === 'g' && quantity >= 1000) {
+    return { quantity: quantity / 1000, unit: 'kg' };
+  }
+  if (unit === 'ml' && quantity >= 1000) {
+    return { quantity: quantity / 1000, unit: 'l' };
+  }
+  return { quantity: Math.round(quantity * 100) / 100, unit };
+}
+
+/**
+ * 分量を同じ単位ごとに合算
+ * 適量・少々などの数量がない分量は単位ごとに1つにまとめる
+ */
+export function mergeAmounts(amounts: ShoppingAmount[]): ShoppingAmount[] {
+  const totals = new Map<string, ShoppingAmount>();
+  for (const amount of amounts) {
+    const normalized = normalizeAmount(amount.quantity, amount.unit);
+    const key = `${normalized.quantity === null ? 'none' : 'count'}:${normalized.unit ?? ''}`;
+    const existing = totals.get(key);
+    if (!existing) {
+      totals.set(key, { ...normalized });
+    } else if (existing.quantity !== null && normalized.quantity !== null) {
+      existing.quantity += normalized.quantity;
+    }
+  }
+  return Array.from(totals.values()).map(denormalizeAmount);
+}
+
+/**
+ * 分量の表示（「大さじ2 ＋ 適量」）
+ */
+export function formatAmounts(amounts: ShoppingAmount[]): string {
+  return amounts
+    .map(({ quantity, unit }) => formatIngredient({ name: '', quantity, unit, note: null }).trim())
+    .filter(Boolean)
+    .join(' ＋ ');
+}
+
+/**
+ * 献立の材料を合算して買い物リストの項目を作成
+ * 表記揺れ（全角・半角、カタカナ・ひらがな、漢字とかな）は同じ材料として扱い、最初に現れた表記で表示する
+ */
+export function aggregateIngredients(menus: MenuRecord[]): ShoppingListItem[] {
+  const groups = new Map<string, { name: string; amounts: ShoppingAmount[]; menuTitles: string[] }>();
+
+  for (const menu of menus) {
+    for (const ingredient of menu.parsedIngredients) {
+      const name = ingredient.name.trim();
+      if (!name || isExcludedIngredient(name)) {
+        continue;
+      }
+      const key = getIngredientKey(name);
+      const group = groups.get(key) ?? { name, amounts: [], menuTitles: [] };
+      group.amounts.push({ quantity: ingredient.quantity, unit: ingredient.unit });
+      if (!group.menuTitles.includes(menu.title)) {
+        group.menuTitles.push(menu.title);
+      }
+      groups.set(key, group);
+    }
+  }
+
+  const sectionOrder = STORE_SECTION_OPTIONS.map(option => option.value);
+  return Array.from(groups.values())
+    .map(group => ({
+      id: uuidv4(),
+      name: group.name,
+      section: classifySection(group.name),
+      amounts: mergeAmounts(group.amounts),
+      menuTitles: group.menuTitles,
+      checked: false
+    }))
+    .sort((a, b) => sectionOrder.indexOf(a.section) - sectionOrder.indexOf(b.section));
+}
+
+/**
+ * 献立から買い物リストを作成
+ */
+export function createShoppingList(name: string, menus: MenuRecord[]): ShoppingList {
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    name,
+    menuIds: menus.map(menu => menu.id),
+    items: aggregateIngredients(menus),
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * 買い物リストをテキストに変換（売り場ごとの見出しと、チェック済みは■で表示）
+ */
+export function formatShoppingListText(list: ShoppingList): string {
+  const lines = [`買い物リスト: ${list.name}`];
+  for (const { value: section, label } of STORE_SECTION_OPTIONS) {
+    const items = list.items.filter(item => item.section === section);
+    if (items.length === 0) {
+      continue;
+    }
+    lines.push('', `【${label}】`);
+    for (const item of items) {
+      const amount = formatAmounts(item.amounts);
+      lines.push(`${item.checked ? '■' : '□'} ${item.name}${amount ? ` ${amount}` : ''}`);
+    }
+  }
+  return lines.join('\n');
+}
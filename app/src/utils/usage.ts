@@ -0,0 +1,138 @@
+/**
+ * トークン使用量・コスト集計ユーティリティ
+ * 料金表による推定コストの計算と、日別・月別の集計を行う
+ */
+
+import type { TokenUsage, UsageRecord, PriceTable, BudgetSettings } from '../types';
+
+/**
+ * 料金表の既定値（USD / 100万トークン）
+ * 料金改定時は使用量画面から上書きできる
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-7-sonnet-20250219': { input: 3, output: 15 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 }
+};
+
+/**
+ * 予算に対して警告を出し始める割合
+ */
+const BUDGET_WARNING_RATIO = 0.8;
+
+// 期間ごとの使用量の集計
+export interface UsageSummary {
+  period: string;          // 集計期間（YYYY-MM-DD または YYYY-MM）
+  requests: number;        // API呼び出し回数
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  estimatedCost: number;   // USD
+}
+
+// 予算の判定結果
+export interface BudgetStatus {
+  spent: number;           // 今月の使用額（USD）
+  projected: number;       // 次の生成を含めた見込み額（USD）
+  level: 'ok' | 'warning' | 'exceeded';
+}
+
+/**
+ * 料金表から推定コスト（USD）を計算
+ * APIが日付付きのモデル名（o3-mini-2025-01-31など）を返す場合は前方一致で料金を引く
+ * 料金表にないモデル（ローカルLLMなど）は0とする
+ */
+export function estimateCost(model: string, usage: TokenUsage, priceTable: PriceTable): number {
+  const matched = Object.keys(priceTable)
+    .filter(key => model === key || model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  const price = matched ? priceTable[matched] : undefined;
+  if (!price) {
+    return 0;
+  }
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * ローカル日付で日別（YYYY-MM-DD）の集計キーを作成
+ */
+export function toDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * ローカル日付で月別（YYYY-MM）の集計キーを作成
+ */
+export function toMonthKey(date: Date): string {
+  return toDayKey(date).slice(0, 7);
+}
+
+/**
+ * 当月1日0時（ローカル時刻）を取得
+ */
+export function getMonthStart(date: Date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/**
+ * 使用量記録を期間ごとに集計（新しい期間が先頭）
+ */
+export function summarizeUsage(records: UsageRecord[], unit: 'day' | 'month'): UsageSummary[] {
+  const toKey = unit === 'day' ? toDayKey : toMonthKey;
+  const summaries = new Map<string, UsageSummary>();
+
+  for (const record of records) {
+    const period = toKey(new Date(record.createdAt));
+    const summary = summaries.get(period) ?? {
+      period,
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      reasoningTokens: 0,
+      estimatedCost: 0
+    };
+
+    summary.requests++;
+    summary.promptTokens += record.promptTokens;
+    summary.completionTokens += record.completionTokens;
+    summary.reasoningTokens += record.reasoningTokens ?? 0;
+    summary.estimatedCost += record.estimatedCost;
+    summaries.set(period, summary);
+  }
+
+  return Array.from(summaries.values()).sort((a, b) => b.period.localeCompare(a.period));
+}
+
+/**
+ * 今月の使用量記録から予算の状況を判定
+ * 次の生成のコストは今月の1回あたり平均で見積もる
+ */
+export function checkBudget(monthRecords: UsageRecord[], budget: BudgetSettings): BudgetStatus {
+  const spent = monthRecords.reduce((total, record) => total + record.estimatedCost, 0);
+  const average = monthRecords.length > 0 ? spent / monthRecords.length : 0;
+  const projected = spent + average;
+
+  if (budget.monthlyBudget === null) {
+    return { spent, projected, level: 'ok' };
+  }
+
+  let level: BudgetStatus['level'] = 'ok';
+  if (projected > budget.monthlyBudget) {
+    level = 'exceeded';
+  } else if (projected >= budget.monthlyBudget * BUDGET_WARNING_RATIO) {
+    level = 'warning';
+  }
+  return { spent, projected, level };
+}
+
+/**
+ * USD金額を表示用に整形（少額でも桁が見えるよう小数4桁まで）
+ */
+export function formatCost(usd: number): string {
+  return `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
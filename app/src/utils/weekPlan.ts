@@ -0,0 +1,83 @@
+/**
+ * 1週間分の献立のユーティリティ
+ * 7日分の夕食をまとめて依頼するための条件文と、最近採用した献立の抽出を行う
+ */
+
+import type { HouseholdProfile, MenuFormData, MenuRecord } from '../types';
+import { addDays, formatDateLabel, fromDateKey } from './mealPlan';
+
+/**
+ * 1週間分の献立の日数
+ */
+export const WEEK_PLAN_DAYS = 7;
+
+/**
+ * 同じ献立を避ける期間（週）の既定値と選択肢
+ */
+export const DEFAULT_AVOID_WEEKS = 2;
+export const AVOID_WEEKS_OPTIONS = [0, 1, 2, 3, 4];
+
+// 避ける献立として条件文に並べる最大数（プロンプトが長くなりすぎないように）
+const MAX_AVOID_TITLES = 30;
+
+/**
+ * 献立を最後に採用した、または作った日時
+ * 採用した日時の記録開始前に採用した献立は、作成日時で代用する
+ */
+function getLastUsedAt(menu: MenuRecord): string {
+  const adoptedAt = menu.adoptedAt ?? menu.createdAt;
+  return menu.lastCookedAt && menu.lastCookedAt > adoptedAt ? menu.lastCookedAt : adoptedAt;
+}
+
+/**
+ * 直近N週間に採用した、または作った採用済みの献立名（新しい順・重複なし）
+ */
+export function getRecentAdoptedTitles(menuHistory: MenuRecord[], weeks: number, now: Date = new Date()): string[] {
+  if (weeks <= 0) {
+    return [];
+  }
+  const since = addDays(now, -weeks * 7).toISOString();
+  const titles = menuHistory
+    .filter(menu => menu.isAdopted === true)
+    .map(menu => ({ title: menu.title, usedAt: getLastUsedAt(menu) }))
+    .filter(menu => menu.usedAt >= since)
+    .sort((a, b) => b.usedAt.localeCompare(a.usedAt))
+    .map(menu => menu.title);
+  return Array.from(new Set(titles)).slice(0, MAX_AVOID_TITLES);
+}
+
+/**
+ * 1週間分の献立を依頼する条件文
+ * 通常の献立生成のプロンプトに続けて送る
+ */
+export function buildWeekPlanInstruction(startDate: string, recentTitles: string[]): string {
+  const start = fromDateKey(startDate);
+  const days = Array.from({ length: WEEK_PLAN_DAYS }, (_, i) => `${i + 1}日目: ${formatDateLabel(addDays(start, i))}`);
+
+  const lines = [
+    '# 1週間分の献立',
+    `次の${WEEK_PLAN_DAYS}日間の夕食の献立を、1日1つずつ日付順に${WEEK_PLAN_DAYS}つ提案してください。`,
+    ...days.map(day => `* ${day}`),
+    '* 主菜のたんぱく質（鶏肉・豚肉・牛肉・魚介・卵・大豆製品など）が続けて同じにならないようにしてください',
+    '* 調理法（焼く・煮る・炒める・揚げる・蒸すなど）と味付けも、週の中で偏らないようにしてください',
+    '* 指定したテーマは週全体で取り入れ、すべての日を同じ傾向にしないでください',
+    '* ある日に使い切れない食材（半端な野菜や肉など）は、翌日以降の献立で使い切るようにし、その場合はdetailに「〇日目の残りの△△を使用」と書いてください'
+  ];
+  if (recentTitles.length > 0) {
+    lines.push(`* 次の献立は最近作ったため、同じ料理は避けてください: ${recentTitles.map(title => `「${title}」`).join('')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 保存済みの献立から、生成時の入力条件を復元
+ * 家族構成プロファイルが削除されている場合は人数構成の名前のみを使う
+ */
+export function formDataFromRecord(menu: MenuRecord, householdProfiles: HouseholdProfile[]): MenuFormData {
+  return {
+    ingredients: menu.inputIngredients,
+    theme: menu.theme,
+    peoplePattern: menu.peoplePattern,
+    household: householdProfiles.find(profile => profile.id === menu.householdProfileId)
+  };
+}